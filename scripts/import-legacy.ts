@@ -0,0 +1,127 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { Group } from 'three';
+import { AcupointDataset, AcupointDatasetData } from '../src/data/AcupointDataset';
+import { formatImportReport, importLegacyDataset, LEGACY_BODY_OFFSET_Y } from '../src/data/legacyImporter';
+import { OBJLoader } from '../src/loaders/OBJLoader';
+import { SurfaceAnchorResolver } from '../src/scene/SurfaceAnchors';
+
+// Usage: npm run import-legacy -- [--content file] [--coords file]... [--model file] [--out file] [--report file]
+//
+// Defaults read src/acumaster.html plus src/acu.html and src/acu_pos.html, and
+// write the dataset to src/data/acupoints.json. Anchors are projected onto the
+// body model (src/three/modelo/corpo.obj) to store their surface triangle;
+// pass `--model none` to keep only the legacy positions.
+
+// Legacy positions further than this from the skin are worth checking by hand
+const FAR_FROM_SURFACE = 2;
+
+interface Options {
+  content: string;
+  coords: string[];
+  model: string | null;
+  out: string;
+  report: string | null;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    content: 'src/acumaster.html',
+    coords: [],
+    model: 'src/three/modelo/corpo.obj',
+    out: 'src/data/acupoints.json',
+    report: null
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--content':
+        options.content = value;
+        i++;
+        break;
+      case '--coords':
+        options.coords.push(value);
+        i++;
+        break;
+      case '--model':
+        options.model = value === 'none' ? null : value;
+        i++;
+        break;
+      case '--out':
+        options.out = value;
+        i++;
+        break;
+      case '--report':
+        options.report = value;
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (options.coords.length === 0) {
+    options.coords = ['src/acu.html', 'src/acu_pos.html'];
+  }
+  return options;
+}
+
+// Store the nearest surface triangle of every anchor, keeping the legacy position as fallback
+function bakeSurfaceAnchors(dataset: AcupointDatasetData, objText: string): string[] {
+  const model = new OBJLoader().parse(objText);
+  model.position.y = LEGACY_BODY_OFFSET_Y;
+  const frame = new Group();
+  frame.add(model);
+
+  const resolver = new SurfaceAnchorResolver(model, frame);
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+  const lines: string[] = [];
+  let count = 0;
+
+  dataset.points.forEach((point) => {
+    if (!point.anchor) return;
+
+    const placement = resolver.resolve({ position: point.anchor.position });
+    if (!placement) return;
+
+    const { mesh, triangle, barycentric } = placement.surface;
+    point.anchor.surface = { mesh, triangle, barycentric: [round(barycentric[0]), round(barycentric[1]), round(barycentric[2])] };
+    count++;
+
+    if (placement.distance > FAR_FROM_SURFACE) {
+      lines.push(`  ${point.id}: ${placement.distance.toFixed(2)} units from the surface`);
+    }
+  });
+
+  return [`Surface anchors: ${count}`, ...lines];
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const read = (file: string) => readFileSync(resolve(file), 'utf8');
+
+  const { dataset, report } = importLegacyDataset(read(options.content), options.coords.map(read));
+  const surfaceSummary = options.model ? bakeSurfaceAnchors(dataset, read(options.model)) : [];
+
+  // Validate before writing so a broken import never replaces a good dataset
+  AcupointDataset.fromJSON(dataset, options.content);
+
+  writeFileSync(resolve(options.out), JSON.stringify(dataset, null, 2) + '\n');
+  console.log(`Wrote ${options.out}`);
+
+  const summary = formatImportReport(report);
+  console.log(summary);
+  surfaceSummary.forEach((line) => console.log(line));
+  if (options.report) {
+    writeFileSync(resolve(options.report), JSON.stringify(report, null, 2) + '\n');
+    console.log(`Wrote ${options.report}`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -1,5 +1,6 @@
 import {
   EventDispatcher,
+  MathUtils,
   MOUSE,
   Quaternion,
   Spherical,
@@ -16,8 +17,37 @@ import {
 //    Orbit - left mouse / touch: one-finger move
 //    Zoom - middle mouse, or mousewheel / touch: two-finger spread or squish
 //    Pan - right mouse, or left mouse + ctrl/meta/shiftKey, or arrow keys / touch: three-finger swipe
+//
+// Keyboard, once listenToKeyEvents() is called: arrow keys pan, arrow keys with
+// shift/ctrl/meta orbit, and the ZOOM_IN/ZOOM_OUT keys (+ and -) dolly.
+
+export interface OrbitControlsEventMap {
+  change: {};
+  start: {};
+  end: {};
+  // A fly-to finished (completed true) or was cut short (completed false)
+  flyend: { completed: boolean };
+}
+
+export interface FlyToOptions {
+  // Milliseconds; 0 jumps straight to the end
+  duration?: number;
+}
+
+interface Flight {
+  startTarget: Vector3;
+  endTarget: Vector3;
+  // Camera offsets from the target, in the y-up frame used by update()
+  startOffset: Spherical;
+  endOffset: Spherical;
+  startTime: number;
+  duration: number;
+  resolve: (completed: boolean) => void;
+}
 
-class OrbitControls extends EventDispatcher {
+const DEFAULT_FLIGHT_DURATION = 1000;
+
+class OrbitControls extends EventDispatcher<OrbitControlsEventMap> {
   object: PerspectiveCamera | OrthographicCamera;
   domElement: HTMLElement | Document;
   enabled: boolean = true;
@@ -40,9 +70,12 @@ class OrbitControls extends EventDispatcher {
   panSpeed: number = 1.0;
   screenSpacePanning: boolean = true;
   keyPanSpeed: number = 7.0; // pixels moved per arrow key push
+  keyRotateAngle: number = Math.PI / 36; // radians orbited per arrow key push
+  enableKeys: boolean = true;
   autoRotate: boolean = false;
   autoRotateSpeed: number = 2.0; // 30 seconds per orbit when fps is 60
-  keys = { LEFT: 'ArrowLeft', UP: 'ArrowUp', RIGHT: 'ArrowRight', BOTTOM: 'ArrowDown' };
+  // KeyboardEvent.key or KeyboardEvent.code values
+  keys = { LEFT: 'ArrowLeft', UP: 'ArrowUp', RIGHT: 'ArrowRight', BOTTOM: 'ArrowDown', ZOOM_IN: '+', ZOOM_OUT: '-' };
   mouseButtons = { LEFT: MOUSE.ROTATE, MIDDLE: MOUSE.DOLLY, RIGHT: MOUSE.PAN };
   touches = { ONE: TOUCH.ROTATE, TWO: TOUCH.DOLLY_PAN };
 
@@ -78,6 +111,8 @@ class OrbitControls extends EventDispatcher {
   private lastPosition = new Vector3();
   private lastQuaternion = new Quaternion();
   private twoPI = 2 * Math.PI;
+  private flight: Flight | null = null;
+  private keyEventTarget: HTMLElement | Window | null = null;
 
   constructor(object: PerspectiveCamera | OrthographicCamera, domElement?: HTMLElement) {
     super();
@@ -114,6 +149,18 @@ class OrbitControls extends EventDispatcher {
     return this.spherical.theta;
   }
 
+  listenToKeyEvents(domElement: HTMLElement | Window): void {
+    this.stopListenToKeyEvents();
+    domElement.addEventListener('keydown', this.onKeyDown as EventListener);
+    this.keyEventTarget = domElement;
+  }
+
+  stopListenToKeyEvents(): void {
+    if (!this.keyEventTarget) return;
+    this.keyEventTarget.removeEventListener('keydown', this.onKeyDown as EventListener);
+    this.keyEventTarget = null;
+  }
+
   saveState(): void {
     this.target0.copy(this.target);
     this.position0.copy(this.object.position);
@@ -130,6 +177,62 @@ class OrbitControls extends EventDispatcher {
     this.state = this.STATE.NONE;
   }
 
+  get isFlying(): boolean {
+    return this.flight !== null;
+  }
+
+  // Animate the camera and the target together to a new pose. The camera orbits
+  // round the moving target rather than cutting straight through the scene. The end
+  // pose is clamped to the distance and angle limits. Resolves true once it arrives
+  // and false if it is cancelled, by the user grabbing the controls or a newer flight.
+  flyTo(position: Vector3, target: Vector3, options: FlyToOptions = {}): Promise<boolean> {
+    this.cancelFlight();
+
+    const quat = new Quaternion().setFromUnitVectors(this.object.up, new Vector3(0, 1, 0));
+    const startOffset = new Spherical().setFromVector3(this.object.position.clone().sub(this.target).applyQuaternion(quat));
+    const endOffset = new Spherical().setFromVector3(position.clone().sub(target).applyQuaternion(quat));
+    endOffset.phi = Math.max(this.minPolarAngle, Math.min(this.maxPolarAngle, endOffset.phi));
+    endOffset.radius = Math.max(this.minDistance, Math.min(this.maxDistance, endOffset.radius));
+    endOffset.makeSafe();
+
+    // Turn the short way round
+    let deltaTheta = endOffset.theta - startOffset.theta;
+    deltaTheta -= this.twoPI * Math.round(deltaTheta / this.twoPI);
+    endOffset.theta = startOffset.theta + deltaTheta;
+
+    // Drop any momentum left from the user's last drag
+    this.sphericalDelta.set(0, 0, 0);
+    this.panOffset.set(0, 0, 0);
+    this.scale = 1;
+
+    return new Promise(resolve => {
+      this.flight = {
+        startTarget: this.target.clone(),
+        endTarget: target.clone(),
+        startOffset,
+        endOffset,
+        startTime: performance.now(),
+        duration: options.duration ?? DEFAULT_FLIGHT_DURATION,
+        resolve
+      };
+      this.update();
+    });
+  }
+
+  // Look at a surface point from outside the skin: the camera sits on the normal,
+  // distance away from the point
+  flyToSurfacePoint(point: Vector3, normal: Vector3, distance: number, options: FlyToOptions = {}): Promise<boolean> {
+    const direction = normal.clone().normalize();
+    if (direction.lengthSq() === 0) {
+      direction.copy(this.object.position).sub(this.target).normalize();
+    }
+    return this.flyTo(point.clone().addScaledVector(direction, distance), point, options);
+  }
+
+  cancelFlight(): void {
+    this.endFlight(false);
+  }
+
   update = (): boolean => {
     const offset = new Vector3();
     const quat = new Quaternion().setFromUnitVectors(this.object.up, new Vector3(0, 1, 0));
@@ -139,12 +242,16 @@ class OrbitControls extends EventDispatcher {
     const twoPI = 2 * Math.PI;
 
     return (() => {
+      if (this.flight) {
+        this.stepFlight(quatInverse);
+      }
+
       const position = this.object.position;
       offset.copy(position).sub(this.target);
       offset.applyQuaternion(quat);
       this.spherical.setFromVector3(offset);
 
-      if (this.autoRotate && this.state === this.STATE.NONE) {
+      if (this.autoRotate && this.state === this.STATE.NONE && !this.flight) {
         this.rotateLeft(this.getAutoRotationAngle());
       }
 
@@ -224,6 +331,8 @@ class OrbitControls extends EventDispatcher {
   };
 
   dispose(): void {
+    this.cancelFlight();
+    this.stopListenToKeyEvents();
     this.domElement.removeEventListener('contextmenu', this.onContextMenu);
     this.domElement.removeEventListener('pointerdown', this.onPointerDown);
     this.domElement.removeEventListener('pointercancel', this.onPointerCancel);
@@ -233,6 +342,34 @@ class OrbitControls extends EventDispatcher {
   }
 
   // Private methods
+  private stepFlight(quatInverse: Quaternion): void {
+    const flight = this.flight as Flight;
+    const t = flight.duration > 0 ? Math.min((performance.now() - flight.startTime) / flight.duration, 1) : 1;
+    // Ease in and out
+    const s = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+    const offset = new Spherical(
+      MathUtils.lerp(flight.startOffset.radius, flight.endOffset.radius, s),
+      MathUtils.lerp(flight.startOffset.phi, flight.endOffset.phi, s),
+      MathUtils.lerp(flight.startOffset.theta, flight.endOffset.theta, s)
+    );
+    this.target.lerpVectors(flight.startTarget, flight.endTarget, s);
+    this.object.position.setFromSpherical(offset).applyQuaternion(quatInverse).add(this.target);
+
+    if (t >= 1) {
+      this.endFlight(true);
+    }
+  }
+
+  private endFlight(completed: boolean): void {
+    const flight = this.flight;
+    if (!flight) return;
+
+    this.flight = null;
+    flight.resolve(completed);
+    this.dispatchEvent({ type: 'flyend', completed });
+  }
+
   private getAutoRotationAngle(): number {
     return ((2 * Math.PI) / 60 / 60) * this.autoRotateSpeed;
   }
@@ -327,6 +464,7 @@ class OrbitControls extends EventDispatcher {
   private onMouseWheel = (event: WheelEvent): void => {
     if (this.enabled === false || this.enableZoom === false) return;
     event.preventDefault();
+    this.cancelFlight();
     if (event.deltaY < 0) {
       this.dollyIn(this.getZoomScale());
     } else {
@@ -335,8 +473,56 @@ class OrbitControls extends EventDispatcher {
     this.update();
   };
 
+  private onKeyDown = (event: KeyboardEvent): void => {
+    if (this.enabled === false || this.enableKeys === false || event.altKey) return;
+
+    const matches = (binding: string) => event.key === binding || event.code === binding;
+    const orbit = event.ctrlKey || event.metaKey || event.shiftKey;
+    let handled = true;
+
+    if (matches(this.keys.UP)) {
+      if (orbit) {
+        if (this.enableRotate) this.rotateUp(this.keyRotateAngle);
+      } else if (this.enablePan) {
+        this.pan(0, this.keyPanSpeed);
+      }
+    } else if (matches(this.keys.BOTTOM)) {
+      if (orbit) {
+        if (this.enableRotate) this.rotateUp(-this.keyRotateAngle);
+      } else if (this.enablePan) {
+        this.pan(0, -this.keyPanSpeed);
+      }
+    } else if (matches(this.keys.LEFT)) {
+      if (orbit) {
+        if (this.enableRotate) this.rotateLeft(this.keyRotateAngle);
+      } else if (this.enablePan) {
+        this.pan(this.keyPanSpeed, 0);
+      }
+    } else if (matches(this.keys.RIGHT)) {
+      if (orbit) {
+        if (this.enableRotate) this.rotateLeft(-this.keyRotateAngle);
+      } else if (this.enablePan) {
+        this.pan(-this.keyPanSpeed, 0);
+      }
+    } else if (matches(this.keys.ZOOM_IN) && !event.ctrlKey && !event.metaKey) {
+      if (this.enableZoom) this.dollyIn(this.getZoomScale());
+    } else if (matches(this.keys.ZOOM_OUT) && !event.ctrlKey && !event.metaKey) {
+      if (this.enableZoom) this.dollyOut(this.getZoomScale());
+    } else {
+      handled = false;
+    }
+
+    if (handled) {
+      // Don't scroll the page
+      event.preventDefault();
+      this.cancelFlight();
+      this.update();
+    }
+  };
+
   private onPointerDown = (event: PointerEvent): void => {
     if (this.enabled === false) return;
+    this.cancelFlight();
     if (this.pointers.length === 0) {
       this.domElement.setPointerCapture(event.pointerId);
       this.domElement.addEventListener('pointermove', this.onPointerMove);
@@ -0,0 +1,125 @@
+import { Camera, EventDispatcher, Intersection, Object3D, Raycaster, Vector2, Vector3 } from 'three';
+import { PickFunction } from './PointPicker';
+
+export interface PointDragEvent {
+  pointId: string;
+}
+
+export interface PointDragMoveEvent {
+  pointId: string;
+  // World position on the surface under the pointer
+  point: Vector3;
+}
+
+export interface SurfacePlaceEvent {
+  point: Vector3;
+}
+
+export interface PointDragControlsEventMap {
+  dragstart: PointDragEvent;
+  drag: PointDragMoveEvent;
+  dragend: PointDragEvent;
+  place: SurfacePlaceEvent;
+}
+
+// Drags point markers across a surface. Like three's DragControls it only reports
+// the gesture; listeners move the point and should disable camera controls
+// between 'dragstart' and 'dragend'. While `placing` is set, a press on the
+// surface away from any marker reports a 'place' event instead.
+class PointDragControls extends EventDispatcher<PointDragControlsEventMap> {
+  enabled = false;
+  placing = false;
+
+  private raycaster = new Raycaster();
+  private pointer = new Vector2();
+  private dragging: string | null = null;
+
+  constructor(
+    private camera: Camera,
+    private domElement: HTMLElement,
+    private pickFunction: PickFunction,
+    private getSurface: () => Object3D | null,
+    // Parts of the surface cut away by clipping planes, which rays pass through
+    private isClipped: (point: Vector3) => boolean = () => false
+  ) {
+    super();
+
+    this.domElement.addEventListener('pointerdown', this.onPointerDown);
+    this.domElement.addEventListener('pointermove', this.onPointerMove);
+    this.domElement.addEventListener('pointerup', this.onPointerUp);
+    this.domElement.addEventListener('pointercancel', this.onPointerUp);
+  }
+
+  get isDragging(): boolean {
+    return this.dragging !== null;
+  }
+
+  dispose(): void {
+    this.domElement.removeEventListener('pointerdown', this.onPointerDown);
+    this.domElement.removeEventListener('pointermove', this.onPointerMove);
+    this.domElement.removeEventListener('pointerup', this.onPointerUp);
+    this.domElement.removeEventListener('pointercancel', this.onPointerUp);
+  }
+
+  private onPointerDown = (event: PointerEvent): void => {
+    if (!this.enabled || event.button !== 0 || !this.getSurface()) return;
+
+    this.updateRay(event);
+    const pointId = this.pickFunction(this.raycaster)?.pointId;
+    if (!pointId) {
+      if (this.placing) this.place();
+      return;
+    }
+
+    this.dragging = pointId;
+    this.domElement.setPointerCapture(event.pointerId);
+    this.domElement.style.cursor = 'grabbing';
+    this.dispatchEvent({ type: 'dragstart', pointId });
+  };
+
+  private onPointerMove = (event: PointerEvent): void => {
+    const surface = this.getSurface();
+    if (!this.dragging || !surface) return;
+
+    this.updateRay(event);
+    const hit = this.surfaceHit(surface);
+    if (hit) {
+      this.dispatchEvent({ type: 'drag', pointId: this.dragging, point: hit.point.clone() });
+    }
+  };
+
+  private onPointerUp = (event: PointerEvent): void => {
+    if (!this.dragging) return;
+
+    const pointId = this.dragging;
+    this.dragging = null;
+    if (this.domElement.hasPointerCapture(event.pointerId)) {
+      this.domElement.releasePointerCapture(event.pointerId);
+    }
+    this.domElement.style.cursor = '';
+    this.dispatchEvent({ type: 'dragend', pointId });
+  };
+
+  private place(): void {
+    const surface = this.getSurface();
+    const hit = surface ? this.surfaceHit(surface) : undefined;
+    if (hit) {
+      this.dispatchEvent({ type: 'place', point: hit.point.clone() });
+    }
+  }
+
+  private surfaceHit(surface: Object3D): Intersection | undefined {
+    return this.raycaster.intersectObject(surface, true).find(hit => !this.isClipped(hit.point));
+  }
+
+  private updateRay(event: PointerEvent): void {
+    const rect = this.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+  }
+}
+
+export { PointDragControls };
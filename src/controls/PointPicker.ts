@@ -0,0 +1,121 @@
+import { Camera, EventDispatcher, Raycaster, Vector2 } from 'three';
+import { Laterality } from '../data/AcupointDataset';
+
+// The point under the ray and the side of the body its marker is on
+export interface PointHit {
+  pointId: string;
+  laterality: Laterality;
+}
+
+// Returns the point under the ray, or null
+export type PickFunction = (raycaster: Raycaster) => PointHit | null;
+
+export interface PointHoverEvent {
+  pointId: string | null;
+  laterality: Laterality;
+  clientX: number;
+  clientY: number;
+}
+
+export interface PointPickEvent {
+  pointId: string;
+  laterality: Laterality;
+}
+
+export interface PointPickerEventMap {
+  hover: PointHoverEvent;
+  pick: PointPickEvent;
+}
+
+// A press that moves further than this is an orbit drag, not a click
+const CLICK_TOLERANCE = 5;
+
+// Turns pointer input on the canvas into hover and pick events. Works with mouse,
+// pen and touch; touch has no hover, so a tap picks directly.
+class PointPicker extends EventDispatcher<PointPickerEventMap> {
+  enabled = true;
+
+  private raycaster = new Raycaster();
+  private pointer = new Vector2();
+  private pressStart = new Vector2();
+  private pressed = false;
+  private hovered: PointHit | null = null;
+
+  constructor(
+    private camera: Camera,
+    private domElement: HTMLElement,
+    private pickFunction: PickFunction
+  ) {
+    super();
+
+    this.domElement.addEventListener('pointermove', this.onPointerMove);
+    this.domElement.addEventListener('pointerdown', this.onPointerDown);
+    this.domElement.addEventListener('pointerup', this.onPointerUp);
+    this.domElement.addEventListener('pointerleave', this.onPointerLeave);
+  }
+
+  dispose(): void {
+    this.domElement.removeEventListener('pointermove', this.onPointerMove);
+    this.domElement.removeEventListener('pointerdown', this.onPointerDown);
+    this.domElement.removeEventListener('pointerup', this.onPointerUp);
+    this.domElement.removeEventListener('pointerleave', this.onPointerLeave);
+  }
+
+  pickAt(clientX: number, clientY: number): PointHit | null {
+    const rect = this.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((clientX - rect.left) / rect.width) * 2 - 1,
+      -((clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+    return this.pickFunction(this.raycaster);
+  }
+
+  private onPointerMove = (event: PointerEvent): void => {
+    if (!this.enabled || event.pointerType === 'touch') return;
+
+    // No hover feedback while orbiting
+    const hit = this.pressed ? null : this.pickAt(event.clientX, event.clientY);
+    this.setHovered(hit, event.clientX, event.clientY);
+  };
+
+  private onPointerDown = (event: PointerEvent): void => {
+    if (!this.enabled || event.button !== 0) return;
+
+    this.pressed = true;
+    this.pressStart.set(event.clientX, event.clientY);
+  };
+
+  private onPointerUp = (event: PointerEvent): void => {
+    if (!this.pressed) return;
+    this.pressed = false;
+
+    if (!this.enabled || this.pressStart.distanceTo(new Vector2(event.clientX, event.clientY)) > CLICK_TOLERANCE) return;
+
+    const hit = this.pickAt(event.clientX, event.clientY);
+    if (hit) {
+      this.dispatchEvent({ type: 'pick', pointId: hit.pointId, laterality: hit.laterality });
+    }
+  };
+
+  private onPointerLeave = (event: PointerEvent): void => {
+    this.pressed = false;
+    this.setHovered(null, event.clientX, event.clientY);
+  };
+
+  private setHovered(hit: PointHit | null, clientX: number, clientY: number): void {
+    // Keep reporting while hovering so the tooltip can follow the pointer
+    if (hit === null && this.hovered === null) return;
+
+    this.hovered = hit;
+    this.dispatchEvent({
+      type: 'hover',
+      pointId: hit ? hit.pointId : null,
+      laterality: hit ? hit.laterality : 'bilateral',
+      clientX,
+      clientY
+    });
+  }
+}
+
+export { PointPicker };
@@ -0,0 +1,71 @@
+import { Camera, EventDispatcher, Object3D, Raycaster, Vector2, Vector3 } from 'three';
+
+export interface SurfacePickEvent {
+  // World position on the surface under the pointer
+  point: Vector3;
+}
+
+export interface SurfacePickerEventMap {
+  pick: SurfacePickEvent;
+}
+
+// A press that moves further than this is an orbit drag, not a click
+const CLICK_TOLERANCE = 5;
+
+// Reports clicks on a surface, for tools that work with arbitrary points on the
+// body rather than point markers. Drags are left to the camera controls.
+class SurfacePicker extends EventDispatcher<SurfacePickerEventMap> {
+  enabled = false;
+
+  private raycaster = new Raycaster();
+  private pointer = new Vector2();
+  private pressStart = new Vector2();
+  private pressed = false;
+
+  constructor(
+    private camera: Camera,
+    private domElement: HTMLElement,
+    private getSurface: () => Object3D | null,
+    // Parts of the surface cut away by clipping planes, which rays pass through
+    private isClipped: (point: Vector3) => boolean = () => false
+  ) {
+    super();
+
+    this.domElement.addEventListener('pointerdown', this.onPointerDown);
+    this.domElement.addEventListener('pointerup', this.onPointerUp);
+  }
+
+  dispose(): void {
+    this.domElement.removeEventListener('pointerdown', this.onPointerDown);
+    this.domElement.removeEventListener('pointerup', this.onPointerUp);
+  }
+
+  private onPointerDown = (event: PointerEvent): void => {
+    if (!this.enabled || event.button !== 0) return;
+
+    this.pressed = true;
+    this.pressStart.set(event.clientX, event.clientY);
+  };
+
+  private onPointerUp = (event: PointerEvent): void => {
+    if (!this.pressed) return;
+    this.pressed = false;
+
+    const surface = this.getSurface();
+    if (!this.enabled || !surface || this.pressStart.distanceTo(new Vector2(event.clientX, event.clientY)) > CLICK_TOLERANCE) return;
+
+    const rect = this.domElement.getBoundingClientRect();
+    this.pointer.set(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(this.pointer, this.camera);
+
+    const hit = this.raycaster.intersectObject(surface, true).find(candidate => !this.isClipped(candidate.point));
+    if (hit) {
+      this.dispatchEvent({ type: 'pick', point: hit.point.clone() });
+    }
+  };
+}
+
+export { SurfacePicker };
@@ -0,0 +1,324 @@
+import { FileLoader, LoadingManager } from 'three';
+import { meridiansForPrefix, parsePointCode } from './nomenclature';
+
+// Content sections of a point entry, in the order they are shown in the sidebar.
+// Titles are the headings used by the legacy acumaster.html page.
+export const CONTENT_SECTIONS = [
+  { key: 'caracteristicas', title: 'Características' },
+  { key: 'funcoes', title: 'Funções energéticas' },
+  { key: 'indicacoes', title: 'Indicações' },
+  { key: 'localizacao', title: 'Localização' },
+  { key: 'puncao', title: 'Punção' },
+  { key: 'precaucoes', title: 'Precauções' }
+] as const;
+
+export type ContentSectionKey = (typeof CONTENT_SECTIONS)[number]['key'];
+
+export type AcupointSections = Partial<Record<ContentSectionKey, string[]>>;
+
+// Side of the body the camera should look from when framing a point.
+// Mirrors the legacy `object.view` flag (undefined, 1, -1, -2) in acu.html.
+export type AnchorView = 'anterior' | 'posterior' | 'left' | 'right';
+
+// Point on a triangle of the body mesh. Survives rescaling or moving the model,
+// and is resolved to a position and normal once the model has loaded.
+export interface SurfaceAnchor {
+  // Name of the mesh inside the model (the `o`/`g` name in the OBJ)
+  mesh: string;
+  triangle: number;
+  barycentric: [number, number, number];
+}
+
+export interface AcupointAnchor {
+  // Position in the legacy scene frame: corpo.obj units with the body offset by y = -95.
+  // Used to find the surface again when `surface` is missing or no longer matches the model.
+  position: [number, number, number];
+  view?: AnchorView;
+  surface?: SurfaceAnchor;
+}
+
+// Midline points lie on the sagittal plane. Bilateral points exist on both sides of
+// the body; the dataset places one of them and the viewer mirrors it to the other.
+export type PointSymmetry = 'midline' | 'bilateral';
+
+export const POINT_SYMMETRIES: PointSymmetry[] = ['midline', 'bilateral'];
+
+// Sides a point is picked or needled on: one side of a bilateral point, or all of its
+// instances. Midline points are always 'bilateral'.
+export type Laterality = 'left' | 'right' | 'bilateral';
+
+export const LATERALITIES: Laterality[] = ['bilateral', 'left', 'right'];
+
+// The body's own left and right, not the viewer's
+export type BodySide = Exclude<Laterality, 'bilateral'>;
+
+// Vessels that run on the midline; the points of the twelve main channels are paired
+const MIDLINE_MERIDIANS = ['VC', 'VG'];
+
+export function defaultSymmetry(meridianId: string): PointSymmetry {
+  return MIDLINE_MERIDIANS.includes(meridianId) ? 'midline' : 'bilateral';
+}
+
+export interface Meridian {
+  id: string;
+  name: string;
+  fullName: string;
+}
+
+export interface Acupoint {
+  id: string;
+  meridian: string;
+  number: number;
+  code: string;
+  pinyin: string;
+  namePt: string;
+  sections: AcupointSections;
+  images: string[];
+  symmetry: PointSymmetry;
+  anchor: AcupointAnchor | null;
+}
+
+export interface AcupointDatasetData {
+  version: number;
+  meridians: Meridian[];
+  points: Acupoint[];
+}
+
+export const DATASET_VERSION = 1;
+
+const ANCHOR_VIEWS: AnchorView[] = ['anterior', 'posterior', 'left', 'right'];
+
+export class DatasetValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    const shown = issues.slice(0, 10).map((issue) => `  - ${issue}`).join('\n');
+    const more = issues.length > 10 ? `\n  ... and ${issues.length - 10} more` : '';
+    super(`Invalid acupoint dataset (${source}):\n${shown}${more}`);
+    this.name = 'DatasetValidationError';
+    this.issues = issues;
+  }
+}
+
+export class AcupointDataset {
+  readonly version: number;
+  readonly meridians: Meridian[];
+  readonly points: Acupoint[];
+  private pointsById = new Map<string, Acupoint>();
+
+  constructor(data: AcupointDatasetData) {
+    this.version = data.version;
+    this.meridians = data.meridians;
+    this.points = data.points;
+
+    for (const point of data.points) {
+      this.pointsById.set(point.id, point);
+    }
+  }
+
+  static async load(url: string, manager?: LoadingManager): Promise<AcupointDataset> {
+    const loader = new FileLoader(manager);
+    loader.setResponseType('json');
+    const json = await loader.loadAsync(url);
+    return AcupointDataset.fromJSON(json, url);
+  }
+
+  static fromJSON(json: unknown, source: string = 'inline'): AcupointDataset {
+    const issues = validateDataset(json);
+    if (issues.length > 0) {
+      throw new DatasetValidationError(source, issues);
+    }
+    return new AcupointDataset(json as AcupointDatasetData);
+  }
+
+  get(id: string): Acupoint | undefined {
+    return this.pointsById.get(id);
+  }
+
+  // Point by code as people write it: VC-12, VC12, vc 12 or the id vc12, or in another
+  // nomenclature: CV12, RN 12, Ren-12, 12CV (see nomenclature.ts)
+  findByCode(code: string): Acupoint | undefined {
+    const compact = compactCode(code);
+    const exact = this.points.find((point) => compactCode(point.code) === compact || point.id === compact);
+    if (exact) return exact;
+
+    const reference = parsePointCode(code);
+    if (!reference) return undefined;
+    for (const meridianId of meridiansForPrefix(reference.prefix)) {
+      const point = this.points.find((candidate) => candidate.meridian === meridianId && candidate.number === reference.number);
+      if (point) return point;
+    }
+    return undefined;
+  }
+
+  getMeridian(id: string): Meridian | undefined {
+    return this.meridians.find((meridian) => meridian.id === id);
+  }
+
+  byMeridian(meridianId: string): Acupoint[] {
+    return this.points
+      .filter((point) => point.meridian === meridianId)
+      .sort((a, b) => a.number - b.number);
+  }
+
+  toJSON(): AcupointDatasetData {
+    return {
+      version: this.version,
+      meridians: this.meridians,
+      points: this.points
+    };
+  }
+}
+
+function compactCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function validateDataset(json: unknown): string[] {
+  const issues: string[] = [];
+
+  if (!isObject(json)) {
+    return ['root: expected an object'];
+  }
+
+  if (json.version !== DATASET_VERSION) {
+    issues.push(`version: expected ${DATASET_VERSION}, got ${JSON.stringify(json.version)}`);
+  }
+
+  const meridianIds = new Set<string>();
+  if (!Array.isArray(json.meridians)) {
+    issues.push('meridians: expected an array');
+  } else {
+    json.meridians.forEach((meridian, i) => {
+      const path = `meridians[${i}]`;
+      if (!isObject(meridian)) {
+        issues.push(`${path}: expected an object`);
+        return;
+      }
+      for (const field of ['id', 'name', 'fullName']) {
+        if (typeof meridian[field] !== 'string' || meridian[field] === '') {
+          issues.push(`${path}.${field}: expected a non-empty string`);
+        }
+      }
+      if (typeof meridian.id === 'string') {
+        if (meridianIds.has(meridian.id)) {
+          issues.push(`${path}.id: duplicate meridian "${meridian.id}"`);
+        }
+        meridianIds.add(meridian.id);
+      }
+    });
+  }
+
+  if (!Array.isArray(json.points)) {
+    issues.push('points: expected an array');
+    return issues;
+  }
+
+  const pointIds = new Set<string>();
+  json.points.forEach((point, i) => {
+    if (!isObject(point)) {
+      issues.push(`points[${i}]: expected an object`);
+      return;
+    }
+    const path = typeof point.id === 'string' ? `points[${i}] (${point.id})` : `points[${i}]`;
+
+    for (const field of ['id', 'meridian', 'code', 'pinyin', 'namePt']) {
+      if (typeof point[field] !== 'string') {
+        issues.push(`${path}.${field}: expected a string`);
+      }
+    }
+    if (typeof point.id === 'string') {
+      if (pointIds.has(point.id)) {
+        issues.push(`${path}.id: duplicate point id`);
+      }
+      pointIds.add(point.id);
+    }
+    if (typeof point.meridian === 'string' && !meridianIds.has(point.meridian)) {
+      issues.push(`${path}.meridian: unknown meridian "${point.meridian}"`);
+    }
+    if (typeof point.number !== 'number' || !Number.isInteger(point.number) || point.number < 1) {
+      issues.push(`${path}.number: expected a positive integer`);
+    }
+
+    if (!isObject(point.sections)) {
+      issues.push(`${path}.sections: expected an object`);
+    } else {
+      const known = CONTENT_SECTIONS.map((section) => section.key as string);
+      for (const [key, value] of Object.entries(point.sections)) {
+        if (!known.includes(key)) {
+          issues.push(`${path}.sections.${key}: unknown section (expected one of ${known.join(', ')})`);
+        } else if (!isStringArray(value)) {
+          issues.push(`${path}.sections.${key}: expected an array of strings`);
+        }
+      }
+    }
+
+    if (!isStringArray(point.images)) {
+      issues.push(`${path}.images: expected an array of strings`);
+    }
+
+    if (!POINT_SYMMETRIES.includes(point.symmetry as PointSymmetry)) {
+      issues.push(`${path}.symmetry: expected one of ${POINT_SYMMETRIES.join(', ')}`);
+    }
+
+    if (point.anchor !== null) {
+      issues.push(...validateAnchor(point.anchor, `${path}.anchor`));
+    }
+  });
+
+  return issues;
+}
+
+function validateAnchor(anchor: unknown, path: string): string[] {
+  if (!isObject(anchor)) {
+    return [`${path}: expected an object or null`];
+  }
+
+  const issues: string[] = [];
+  const position = anchor.position;
+  if (
+    !Array.isArray(position) ||
+    position.length !== 3 ||
+    !position.every((value) => typeof value === 'number' && isFinite(value))
+  ) {
+    issues.push(`${path}.position: expected [x, y, z] finite numbers`);
+  }
+  if (anchor.view !== undefined && !ANCHOR_VIEWS.includes(anchor.view as AnchorView)) {
+    issues.push(`${path}.view: expected one of ${ANCHOR_VIEWS.join(', ')}`);
+  }
+  if (anchor.surface !== undefined) {
+    issues.push(...validateSurfaceAnchor(anchor.surface, `${path}.surface`));
+  }
+  return issues;
+}
+
+function validateSurfaceAnchor(surface: unknown, path: string): string[] {
+  if (!isObject(surface)) {
+    return [`${path}: expected an object`];
+  }
+
+  const issues: string[] = [];
+  if (typeof surface.mesh !== 'string') {
+    issues.push(`${path}.mesh: expected a string`);
+  }
+  if (typeof surface.triangle !== 'number' || !Number.isInteger(surface.triangle) || surface.triangle < 0) {
+    issues.push(`${path}.triangle: expected a non-negative integer`);
+  }
+  const barycentric = surface.barycentric;
+  if (
+    !Array.isArray(barycentric) ||
+    barycentric.length !== 3 ||
+    !barycentric.every((value) => typeof value === 'number' && isFinite(value))
+  ) {
+    issues.push(`${path}.barycentric: expected [u, v, w] finite numbers`);
+  }
+  return issues;
+}
@@ -0,0 +1,150 @@
+import { FileLoader, LoadingManager } from 'three';
+import { isLocaleCode, LocaleCode } from '../i18n/locales';
+import { AcupointSections, CONTENT_SECTIONS, DatasetValidationError } from './AcupointDataset';
+
+export interface MeridianTranslation {
+  name: string;
+  fullName: string;
+}
+
+// Names in other scripts and languages for one point. The Portuguese name and
+// content stay in acupoints.json, which the legacy importer regenerates.
+export interface PointTranslation {
+  hanzi?: string;
+  // Pinyin with tone marks, e.g. Zhōngwǎn
+  pinyin?: string;
+  names?: Partial<Record<LocaleCode, string>>;
+  // Translated sections; sections left out are shown in Portuguese
+  sections?: Partial<Record<LocaleCode, AcupointSections>>;
+}
+
+export interface ContentTranslationsData {
+  version: number;
+  // By meridian id
+  meridians: { [meridianId: string]: Partial<Record<LocaleCode, MeridianTranslation>> };
+  // By point id
+  points: { [pointId: string]: PointTranslation };
+}
+
+export const TRANSLATIONS_VERSION = 1;
+
+// Translations of the acupoint dataset, kept in src/data/translations.json
+export class ContentTranslations {
+  constructor(private data: ContentTranslationsData) {}
+
+  static empty(): ContentTranslations {
+    return new ContentTranslations({ version: TRANSLATIONS_VERSION, meridians: {}, points: {} });
+  }
+
+  static async load(url: string, manager?: LoadingManager): Promise<ContentTranslations> {
+    const loader = new FileLoader(manager);
+    loader.setResponseType('json');
+    const json = await loader.loadAsync(url);
+    return ContentTranslations.fromJSON(json, url);
+  }
+
+  static fromJSON(json: unknown, source: string = 'inline'): ContentTranslations {
+    const issues = validateTranslations(json);
+    if (issues.length > 0) {
+      throw new DatasetValidationError(source, issues);
+    }
+    return new ContentTranslations(json as ContentTranslationsData);
+  }
+
+  meridian(meridianId: string, locale: LocaleCode): MeridianTranslation | undefined {
+    return this.data.meridians[meridianId]?.[locale];
+  }
+
+  point(pointId: string): PointTranslation | undefined {
+    return this.data.points[pointId];
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function validateTranslations(json: unknown): string[] {
+  if (!isObject(json)) {
+    return ['root: expected an object'];
+  }
+
+  const issues: string[] = [];
+  if (json.version !== TRANSLATIONS_VERSION) {
+    issues.push(`version: expected ${TRANSLATIONS_VERSION}, got ${JSON.stringify(json.version)}`);
+  }
+
+  if (!isObject(json.meridians)) {
+    issues.push('meridians: expected an object');
+  } else {
+    for (const [meridianId, locales] of Object.entries(json.meridians)) {
+      const path = `meridians.${meridianId}`;
+      if (!isObject(locales)) {
+        issues.push(`${path}: expected an object`);
+        continue;
+      }
+      for (const [locale, translation] of Object.entries(locales)) {
+        if (!isLocaleCode(locale)) {
+          issues.push(`${path}.${locale}: unknown locale`);
+        } else if (!isObject(translation) || typeof translation.name !== 'string' || typeof translation.fullName !== 'string') {
+          issues.push(`${path}.${locale}: expected { name, fullName } strings`);
+        }
+      }
+    }
+  }
+
+  if (!isObject(json.points)) {
+    issues.push('points: expected an object');
+    return issues;
+  }
+
+  const known = CONTENT_SECTIONS.map((section) => section.key as string);
+  for (const [pointId, point] of Object.entries(json.points)) {
+    const path = `points.${pointId}`;
+    if (!isObject(point)) {
+      issues.push(`${path}: expected an object`);
+      continue;
+    }
+    for (const field of ['hanzi', 'pinyin']) {
+      if (point[field] !== undefined && typeof point[field] !== 'string') {
+        issues.push(`${path}.${field}: expected a string`);
+      }
+    }
+    if (point.names !== undefined) {
+      if (!isObject(point.names)) {
+        issues.push(`${path}.names: expected an object`);
+      } else {
+        for (const [locale, name] of Object.entries(point.names)) {
+          if (!isLocaleCode(locale) || typeof name !== 'string') {
+            issues.push(`${path}.names.${locale}: expected a string for a known locale`);
+          }
+        }
+      }
+    }
+    if (point.sections !== undefined) {
+      if (!isObject(point.sections)) {
+        issues.push(`${path}.sections: expected an object`);
+      } else {
+        for (const [locale, sections] of Object.entries(point.sections)) {
+          if (!isLocaleCode(locale) || !isObject(sections)) {
+            issues.push(`${path}.sections.${locale}: expected an object for a known locale`);
+            continue;
+          }
+          for (const [key, value] of Object.entries(sections)) {
+            if (!known.includes(key)) {
+              issues.push(`${path}.sections.${locale}.${key}: unknown section`);
+            } else if (!isStringArray(value)) {
+              issues.push(`${path}.sections.${locale}.${key}: expected an array of strings`);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return issues;
+}
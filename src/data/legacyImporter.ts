@@ -0,0 +1,349 @@
+import {
+  Acupoint,
+  AcupointAnchor,
+  AcupointDatasetData,
+  AcupointSections,
+  AnchorView,
+  ContentSectionKey,
+  DATASET_VERSION,
+  defaultSymmetry,
+  Meridian
+} from './AcupointDataset';
+
+// Converts the legacy pages into the structured dataset:
+//
+//    acumaster.html - sidebar menus (`<a id="vc2">`) holding the point content as `<h3>` sections
+//    acu.html, acu_pos.html - hand-written `object.name = 'vc2'; object.position.x = ...` blocks
+//
+// The parser works on plain strings so it runs the same in Node and in the browser.
+
+export interface LegacyPointContent {
+  id: string;
+  meridian: string;
+  number: number;
+  code: string;
+  pinyin: string;
+  namePt: string;
+  sections: AcupointSections;
+  images: string[];
+}
+
+export interface LegacyContent {
+  meridians: Meridian[];
+  points: LegacyPointContent[];
+  unknownHeadings: { pointId: string; heading: string }[];
+  unparsedTitles: { id: string; title: string }[];
+}
+
+export interface ImportReport {
+  pointCount: number;
+  missingCoordinates: string[];
+  missingImages: string[];
+  missingSections: { pointId: string; sections: ContentSectionKey[] }[];
+  orphanCoordinates: string[];
+  orphanPoints: string[];
+  unknownHeadings: { pointId: string; heading: string }[];
+  unparsedTitles: { id: string; title: string }[];
+}
+
+export interface ImportResult {
+  dataset: AcupointDatasetData;
+  report: ImportReport;
+}
+
+// acu.html placed corpo.obj 95 units down; legacy coordinates are in that frame
+export const LEGACY_BODY_OFFSET_Y = -95;
+
+// Short names for the meridians we know about; anything else falls back to the legacy title
+const MERIDIAN_NAMES: { [id: string]: string } = {
+  VC: 'Vaso Concepção',
+  VG: 'Vaso Governador',
+  P: 'Pulmão',
+  IG: 'Intestino Grosso',
+  E: 'Estômago',
+  BP: 'Baço-Pâncreas',
+  C: 'Coração',
+  ID: 'Intestino Delgado',
+  B: 'Bexiga',
+  R: 'Rim',
+  CS: 'Circulação-Sexo',
+  TA: 'Triplo Aquecedor',
+  VB: 'Vesícula Biliar',
+  F: 'Fígado'
+};
+
+// Legacy headings, accent-stripped and lower-cased, mapped to dataset section keys
+const HEADING_KEYS: { [heading: string]: ContentSectionKey } = {
+  'caracteristicas': 'caracteristicas',
+  'funcoes energeticas': 'funcoes',
+  'funcoes': 'funcoes',
+  'indicacoes': 'indicacoes',
+  'localizacao': 'localizacao',
+  'puncao': 'puncao',
+  'precaucoes': 'precaucoes'
+};
+
+const REQUIRED_SECTIONS: ContentSectionKey[] = ['localizacao', 'funcoes', 'puncao'];
+
+const LEGACY_VIEWS: { [flag: string]: AnchorView } = {
+  '1': 'left',
+  '-1': 'right',
+  '-2': 'posterior'
+};
+
+const ENTITIES: { [entity: string]: string } = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&nbsp;': ' '
+};
+
+export function normalizeHeading(heading: string): string {
+  return stripTags(heading)
+    .replace(/\([^)]*\)/g, '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function parseLegacyContent(html: string): LegacyContent {
+  const anchorPattern = /<a\b[^>]*\bid="([a-z]+)(\d*)"[^>]*>([\s\S]*?)<\/a>/gi;
+  const anchors: { prefix: string; number: string; inner: string; start: number; end: number }[] = [];
+
+  let match: RegExpExecArray | null;
+  while ((match = anchorPattern.exec(html)) !== null) {
+    anchors.push({
+      prefix: match[1].toUpperCase(),
+      number: match[2],
+      inner: match[3],
+      start: match.index,
+      end: anchorPattern.lastIndex
+    });
+  }
+
+  const result: LegacyContent = { meridians: [], points: [], unknownHeadings: [], unparsedTitles: [] };
+
+  anchors.forEach((anchor, i) => {
+    const title = extractTitle(anchor.inner);
+    const id = `${anchor.prefix.toLowerCase()}${anchor.number}`;
+
+    if (anchor.number === '') {
+      result.meridians.push({
+        id: anchor.prefix,
+        name: MERIDIAN_NAMES[anchor.prefix] || titleCase(title),
+        fullName: titleCase(title)
+      });
+      return;
+    }
+
+    const body = html.substring(anchor.end, i + 1 < anchors.length ? anchors[i + 1].start : html.length);
+    const titleMatch = /^([A-Z]+)\s*-?\s*(\d+)\s*(?:\(([^)]*)\))?\s*(.*)$/i.exec(title);
+    if (!titleMatch) {
+      result.unparsedTitles.push({ id, title });
+    }
+
+    const { sections, unknown } = extractSections(body);
+    unknown.forEach((heading) => result.unknownHeadings.push({ pointId: id, heading }));
+
+    result.points.push({
+      id,
+      meridian: anchor.prefix,
+      number: parseInt(anchor.number, 10),
+      code: `${anchor.prefix}-${parseInt(anchor.number, 10)}`,
+      pinyin: titleMatch && titleMatch[3] ? titleMatch[3].replace(/[.\s]+$/, '').trim() : '',
+      namePt: titleMatch ? titleMatch[4].trim() : '',
+      sections,
+      images: extractImages(body)
+    });
+  });
+
+  return result;
+}
+
+export function parseLegacyCoordinates(source: string): Map<string, AcupointAnchor> {
+  const statementPattern =
+    /new\s+THREE\.Mesh\s*\(|object\.(?:name|nome)\s*=\s*['"](\w+)['"]|object\.view\s*=\s*(-?\d+)|object\.position\.([xyz])\s*=\s*(-?[\d.]+(?:e-?\d+)?)|scene\.add\(\s*object\s*\)/g;
+  const anchors = new Map<string, AcupointAnchor>();
+
+  let name: string | null = null;
+  let view: string | null = null;
+  let position: { [axis: string]: number } = {};
+
+  let match: RegExpExecArray | null;
+  while ((match = statementPattern.exec(source)) !== null) {
+    if (match[0].startsWith('new')) {
+      name = null;
+      view = null;
+      position = {};
+    } else if (match[1] !== undefined) {
+      name = match[1].toLowerCase();
+    } else if (match[2] !== undefined) {
+      view = match[2];
+    } else if (match[3] !== undefined) {
+      // Legacy values carry float noise from nudging (3.3000000000000007)
+      position[match[3]] = Math.round(parseFloat(match[4]) * 1e6) / 1e6;
+    } else if (name && position.x !== undefined && position.y !== undefined && position.z !== undefined) {
+      const anchor: AcupointAnchor = { position: [position.x, position.y, position.z] };
+      if (view !== null && LEGACY_VIEWS[view]) {
+        anchor.view = LEGACY_VIEWS[view];
+      }
+      anchors.set(name, anchor);
+    }
+  }
+
+  return anchors;
+}
+
+// Joins point content with coordinates by legacy id. Coordinate sources are
+// consulted in order, so the first file that places a point wins.
+export function importLegacyDataset(contentHtml: string, coordinateSources: string[]): ImportResult {
+  const content = parseLegacyContent(contentHtml);
+  const coordinates = new Map<string, AcupointAnchor>();
+  for (const source of coordinateSources) {
+    parseLegacyCoordinates(source).forEach((anchor, id) => {
+      if (!coordinates.has(id)) {
+        coordinates.set(id, anchor);
+      }
+    });
+  }
+
+  const meridianIds = new Set(content.meridians.map((meridian) => meridian.id));
+  const report: ImportReport = {
+    pointCount: 0,
+    missingCoordinates: [],
+    missingImages: [],
+    missingSections: [],
+    orphanCoordinates: [],
+    orphanPoints: [],
+    unknownHeadings: content.unknownHeadings,
+    unparsedTitles: content.unparsedTitles
+  };
+
+  const points: Acupoint[] = [];
+  for (const legacy of content.points) {
+    if (!meridianIds.has(legacy.meridian)) {
+      report.orphanPoints.push(legacy.id);
+      continue;
+    }
+
+    const anchor = coordinates.get(legacy.id) || null;
+    points.push({ ...legacy, symmetry: defaultSymmetry(legacy.meridian), anchor });
+
+    if (!anchor) report.missingCoordinates.push(legacy.id);
+    if (legacy.images.length === 0) report.missingImages.push(legacy.id);
+    const missing = REQUIRED_SECTIONS.filter((key) => !legacy.sections[key] || legacy.sections[key]!.length === 0);
+    if (missing.length > 0) report.missingSections.push({ pointId: legacy.id, sections: missing });
+  }
+
+  const pointIds = new Set(points.map((point) => point.id));
+  coordinates.forEach((_anchor, id) => {
+    if (!pointIds.has(id)) report.orphanCoordinates.push(id);
+  });
+  report.pointCount = points.length;
+
+  return {
+    dataset: { version: DATASET_VERSION, meridians: content.meridians, points },
+    report
+  };
+}
+
+export function formatImportReport(report: ImportReport): string {
+  const lines = [`Imported ${report.pointCount} points`];
+  const list = (label: string, items: string[]) => {
+    if (items.length > 0) lines.push(`${label} (${items.length}): ${items.join(', ')}`);
+  };
+
+  list('Missing coordinates', report.missingCoordinates);
+  list('Missing images', report.missingImages);
+  list(
+    'Missing sections',
+    report.missingSections.map((entry) => `${entry.pointId} [${entry.sections.join(', ')}]`)
+  );
+  list('Coordinates without a point', report.orphanCoordinates);
+  list('Points without a meridian (skipped)', report.orphanPoints);
+  list(
+    'Unknown headings',
+    report.unknownHeadings.map((entry) => `${entry.pointId} "${entry.heading}"`)
+  );
+  list(
+    'Unparsed titles',
+    report.unparsedTitles.map((entry) => `${entry.id} "${entry.title}"`)
+  );
+
+  return lines.join('\n');
+}
+
+function extractTitle(anchorInner: string): string {
+  const span = /<span class="title">([\s\S]*?)<\/span>/i.exec(anchorInner);
+  return cleanText(span ? span[1] : anchorInner);
+}
+
+function extractImages(body: string): string[] {
+  const images: string[] = [];
+  const imagePattern = /<img\b[^>]*\bsrc="([^"]+)"/gi;
+  let match: RegExpExecArray | null;
+  while ((match = imagePattern.exec(body)) !== null) {
+    images.push(match[1]);
+  }
+  return images;
+}
+
+function extractSections(body: string): { sections: AcupointSections; unknown: string[] } {
+  const sections: AcupointSections = {};
+  const unknown: string[] = [];
+  const parts = body.split(/<h3\b[^>]*>/i).slice(1);
+
+  for (const part of parts) {
+    const close = part.search(/<\/h3>/i);
+    if (close < 0) continue;
+
+    const heading = part.substring(0, close);
+    const key = HEADING_KEYS[normalizeHeading(heading)];
+    if (!key) {
+      unknown.push(cleanText(heading));
+      continue;
+    }
+
+    const items = extractItems(part.substring(close));
+    if (items.length > 0) {
+      sections[key] = (sections[key] || []).concat(items);
+    }
+  }
+
+  return { sections, unknown };
+}
+
+function extractItems(html: string): string[] {
+  const items: string[] = [];
+  const itemPattern = /<(li|p)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = itemPattern.exec(html)) !== null) {
+    const text = cleanText(match[2]);
+    if (text) items.push(text);
+  }
+  return items;
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<!--[\s\S]*?-->/g, '').replace(/<[^>]*>/g, '');
+}
+
+function cleanText(html: string): string {
+  return stripTags(html)
+    .replace(/&[a-z#0-9]+;/gi, (entity) => ENTITIES[entity] ?? entity)
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function titleCase(title: string): string {
+  return title
+    .split(' ')
+    .map((word) => (word === word.toUpperCase() && word.length > 1
+      ? word.charAt(0) + word.substring(1).toLowerCase()
+      : word))
+    .join(' ');
+}
@@ -0,0 +1,98 @@
+import { Acupoint } from './AcupointDataset';
+
+// Ways of writing a point code. The dataset uses the Portuguese codes (VC-12);
+// international literature the WHO alphanumeric codes (CV12).
+export type NomenclatureSystem = 'pt' | 'who' | 'gb' | 'fr';
+
+export const NOMENCLATURE_SYSTEMS: { id: NomenclatureSystem; label: string; example: string }[] = [
+  { id: 'pt', label: 'Português', example: 'VC-12' },
+  { id: 'who', label: 'WHO', example: 'CV12' },
+  { id: 'gb', label: 'GB/T 12346', example: 'RN12' },
+  { id: 'fr', label: 'Français', example: 'VC12' }
+];
+
+export interface MeridianNomenclature {
+  codes: { [system in NomenclatureSystem]: string };
+  // Other prefixes seen in the literature (Worsley, older English texts, channel
+  // names as in "Stomach 36"); only accepted when reading a code
+  variants: string[];
+}
+
+// Channel prefixes by Portuguese code, the meridian id of the dataset
+export const MERIDIAN_NOMENCLATURE: { [meridianId: string]: MeridianNomenclature } = {
+  P: { codes: { pt: 'P', who: 'LU', gb: 'LU', fr: 'P' }, variants: ['L', 'LUNG'] },
+  IG: { codes: { pt: 'IG', who: 'LI', gb: 'LI', fr: 'GI' }, variants: ['CO', 'COLON', 'LARGEINTESTINE'] },
+  E: { codes: { pt: 'E', who: 'ST', gb: 'ST', fr: 'E' }, variants: ['S', 'STOMACH'] },
+  BP: { codes: { pt: 'BP', who: 'SP', gb: 'SP', fr: 'RP' }, variants: ['SPLEEN'] },
+  C: { codes: { pt: 'C', who: 'HT', gb: 'HT', fr: 'C' }, variants: ['H', 'HE', 'HEART'] },
+  ID: { codes: { pt: 'ID', who: 'SI', gb: 'SI', fr: 'IG' }, variants: ['SMALLINTESTINE'] },
+  B: { codes: { pt: 'B', who: 'BL', gb: 'BL', fr: 'V' }, variants: ['UB', 'BLADDER'] },
+  R: { codes: { pt: 'R', who: 'KI', gb: 'KI', fr: 'R' }, variants: ['K', 'KID', 'KIDNEY'] },
+  CS: { codes: { pt: 'CS', who: 'PC', gb: 'PC', fr: 'MC' }, variants: ['PE', 'HC', 'CX', 'PERICARDIUM'] },
+  TA: { codes: { pt: 'TA', who: 'TE', gb: 'TE', fr: 'TR' }, variants: ['SJ', 'TW', 'TH', 'TB', 'SANJIAO'] },
+  VB: { codes: { pt: 'VB', who: 'GB', gb: 'GB', fr: 'VB' }, variants: ['G', 'GALLBLADDER'] },
+  F: { codes: { pt: 'F', who: 'LR', gb: 'LR', fr: 'F' }, variants: ['LV', 'LIV', 'LIVER'] },
+  VG: { codes: { pt: 'VG', who: 'GV', gb: 'DU', fr: 'VG' }, variants: ['GOV', 'GOVERNORVESSEL'] },
+  VC: { codes: { pt: 'VC', who: 'CV', gb: 'RN', fr: 'VC' }, variants: ['REN', 'CON', 'CONCEPTIONVESSEL'] }
+};
+
+export interface PointReference {
+  prefix: string;
+  number: number;
+}
+
+// Systems tried, in order, when a prefix means different channels in different
+// systems: IG is the large intestine in Portuguese but the small intestine in French
+const RESOLUTION_ORDER: NomenclatureSystem[] = ['pt', 'who', 'gb', 'fr'];
+
+export function isNomenclatureSystem(value: unknown): value is NomenclatureSystem {
+  return NOMENCLATURE_SYSTEMS.some(system => system.id === value);
+}
+
+// The point's code in a system; points of channels without a mapping keep their code
+export function formatPointCode(point: Acupoint, system: NomenclatureSystem): string {
+  const nomenclature = MERIDIAN_NOMENCLATURE[point.meridian];
+  if (system === 'pt' || !nomenclature) return point.code;
+  return `${nomenclature.codes[system]}${point.number}`;
+}
+
+// Every way of writing the point's code, for search
+export function pointCodeVariants(point: Acupoint): string[] {
+  const nomenclature = MERIDIAN_NOMENCLATURE[point.meridian];
+  const codes = [point.code];
+  if (nomenclature) {
+    RESOLUTION_ORDER.forEach(system => codes.push(formatPointCode(point, system)));
+    nomenclature.variants.forEach(prefix => codes.push(`${prefix}${point.number}`));
+  }
+  return Array.from(new Set(codes));
+}
+
+// Channel prefix and number of a code as people write it: CV12, CV-12, cv 12, Ren12 or 12CV
+export function parsePointCode(code: string): PointReference | null {
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const match = /^([A-Z]+)(\d+)$/.exec(compact) || /^(\d+)([A-Z]+)$/.exec(compact);
+  if (!match) return null;
+
+  const prefixFirst = /^[A-Z]/.test(match[1]);
+  return {
+    prefix: prefixFirst ? match[1] : match[2],
+    number: parseInt(prefixFirst ? match[2] : match[1], 10)
+  };
+}
+
+// Meridian ids a prefix can stand for, most likely first
+export function meridiansForPrefix(prefix: string): string[] {
+  const upper = prefix.toUpperCase();
+  const ids: string[] = [];
+  const entries = Object.entries(MERIDIAN_NOMENCLATURE);
+
+  RESOLUTION_ORDER.forEach(system => {
+    entries.forEach(([id, nomenclature]) => {
+      if (nomenclature.codes[system] === upper && !ids.includes(id)) ids.push(id);
+    });
+  });
+  entries.forEach(([id, nomenclature]) => {
+    if (nomenclature.variants.includes(upper) && !ids.includes(id)) ids.push(id);
+  });
+  return ids;
+}
@@ -0,0 +1,176 @@
+import { EventDispatcher } from 'three';
+import { Acupoint, ContentSectionKey, Meridian } from '../data/AcupointDataset';
+import { ContentTranslations, MeridianTranslation } from '../data/ContentTranslations';
+import { formatPointCode, isNomenclatureSystem, NomenclatureSystem } from '../data/nomenclature';
+import { CONTENT_SOURCE_LOCALE, isLocaleCode, LocaleCode, UI_SOURCE_LOCALE } from './locales';
+import { MESSAGES, MessageKey } from './messages';
+
+const STORAGE_KEY = 'acu-master.locale';
+const CODE_SYSTEM_KEY = 'acu-master.nomenclature';
+
+// Attributes filled in by translate, after the data-i18n-* attribute naming the key
+const TRANSLATED_ATTRIBUTES = ['placeholder', 'title', 'aria-label'];
+
+// Also sent when the code system changes
+export interface LocalizationEventMap {
+  change: { locale: LocaleCode };
+}
+
+// Text with the language it is actually in, which is the source language when
+// the current locale has no translation
+export interface LocalizedText<T> {
+  value: T;
+  locale: LocaleCode;
+}
+
+// The chosen language and point code system, remembered in localStorage, and lookups
+// of interface strings and point content in them. Missing interface strings fall back
+// to English and missing content to the Portuguese of the dataset.
+export class Localization extends EventDispatcher<LocalizationEventMap> {
+  private current: LocaleCode;
+  private system: NomenclatureSystem;
+  private content = ContentTranslations.empty();
+
+  constructor(private storage: Storage = window.localStorage) {
+    super();
+    const storedLocale = this.read(STORAGE_KEY);
+    const storedSystem = this.read(CODE_SYSTEM_KEY);
+    this.current = isLocaleCode(storedLocale) ? storedLocale : preferredLocale();
+    // Portuguese codes for the Brazilian courses, WHO codes elsewhere
+    this.system = isNomenclatureSystem(storedSystem) ? storedSystem : this.current === 'pt' ? 'pt' : 'who';
+  }
+
+  get locale(): LocaleCode {
+    return this.current;
+  }
+
+  get codeSystem(): NomenclatureSystem {
+    return this.system;
+  }
+
+  setLocale(locale: LocaleCode): void {
+    if (locale === this.current) return;
+
+    this.current = locale;
+    this.write(STORAGE_KEY, locale);
+    this.dispatchEvent({ type: 'change', locale });
+  }
+
+  setCodeSystem(system: NomenclatureSystem): void {
+    if (system === this.system) return;
+
+    this.system = system;
+    this.write(CODE_SYSTEM_KEY, system);
+    this.dispatchEvent({ type: 'change', locale: this.current });
+  }
+
+  // Translations of the dataset; set before rendering point content
+  setContent(content: ContentTranslations): void {
+    this.content = content;
+  }
+
+  // Interface string with {placeholders} filled in from params
+  t(key: MessageKey, params: { [name: string]: string | number } = {}): string {
+    const template = MESSAGES[this.current][key] ?? MESSAGES[UI_SOURCE_LOCALE][key] ?? key;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+  }
+
+  // Whether an interface string exists, for keys built at runtime
+  has(key: string): key is MessageKey {
+    return key in MESSAGES[UI_SOURCE_LOCALE];
+  }
+
+  // Fill in the interface strings of static markup: the text of elements with
+  // data-i18n="key", and attributes from data-i18n-placeholder, -title and -aria-label
+  translate(root: Element): void {
+    const lookup = (key: string) => (this.has(key) ? this.t(key) : key);
+    root.querySelectorAll('[data-i18n]').forEach(element => {
+      element.textContent = lookup(element.getAttribute('data-i18n') || '');
+    });
+    TRANSLATED_ATTRIBUTES.forEach(attribute => {
+      root.querySelectorAll(`[data-i18n-${attribute}]`).forEach(element => {
+        element.setAttribute(attribute, lookup(element.getAttribute(`data-i18n-${attribute}`) || ''));
+      });
+    });
+  }
+
+  sectionTitle(key: ContentSectionKey): string {
+    const messageKey: `section.${ContentSectionKey}` = `section.${key}`;
+    return this.t(messageKey);
+  }
+
+  // Point name in the current language; Chinese uses the hanzi
+  pointName(point: Acupoint): string {
+    if (this.current === CONTENT_SOURCE_LOCALE) return point.namePt;
+
+    const translation = this.content.point(point.id);
+    return translation?.names?.[this.current] ?? (this.current === 'zh' ? translation?.hanzi : undefined) ?? point.namePt;
+  }
+
+  // Pinyin with tone marks when the translations have it
+  pointPinyin(point: Acupoint): string {
+    return this.content.point(point.id)?.pinyin || point.pinyin;
+  }
+
+  pointHanzi(point: Acupoint): string {
+    return this.content.point(point.id)?.hanzi || '';
+  }
+
+  // Code in the chosen system, e.g. VC-12 or CV12
+  pointCode(point: Acupoint): string {
+    return formatPointCode(point, this.system);
+  }
+
+  // "CV12 (Zhōngwǎn) Middle Epigastrium", as the point lists show it
+  pointLabel(point: Acupoint): string {
+    return `${this.pointCode(point)} (${this.pointPinyin(point)}) ${this.pointName(point)}`;
+  }
+
+  pointSection(point: Acupoint, key: ContentSectionKey): LocalizedText<string[]> | undefined {
+    const translated = this.content.point(point.id)?.sections?.[this.current]?.[key];
+    if (this.current !== CONTENT_SOURCE_LOCALE && translated && translated.length > 0) {
+      return { value: translated, locale: this.current };
+    }
+
+    const items = point.sections[key];
+    return items && items.length > 0 ? { value: items, locale: CONTENT_SOURCE_LOCALE } : undefined;
+  }
+
+  meridianName(meridian: Meridian): string {
+    return this.meridianTranslation(meridian)?.name || meridian.name;
+  }
+
+  meridianFullName(meridian: Meridian): string {
+    return this.meridianTranslation(meridian)?.fullName || meridian.fullName;
+  }
+
+  private meridianTranslation(meridian: Meridian): MeridianTranslation | undefined {
+    return this.current === CONTENT_SOURCE_LOCALE ? undefined : this.content.meridian(meridian.id, this.current);
+  }
+
+  private read(key: string): string | null {
+    try {
+      return this.storage.getItem(key);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private write(key: string, value: string): void {
+    try {
+      this.storage.setItem(key, value);
+    } catch (error) {
+      console.warn('Could not remember the display settings', error);
+    }
+  }
+}
+
+// The first of the browser's languages that the app offers, else the source language
+function preferredLocale(): LocaleCode {
+  const languages = navigator.languages && navigator.languages.length > 0 ? navigator.languages : [navigator.language];
+  for (const language of languages) {
+    const code = (language || '').toLowerCase().split('-')[0];
+    if (isLocaleCode(code)) return code;
+  }
+  return CONTENT_SOURCE_LOCALE;
+}
@@ -0,0 +1,17 @@
+export type LocaleCode = 'pt' | 'en' | 'zh';
+
+// Offered in the language switcher, labelled in their own language
+export const LOCALES: { code: LocaleCode; label: string }[] = [
+  { code: 'pt', label: 'Português' },
+  { code: 'en', label: 'English' },
+  { code: 'zh', label: '中文' }
+];
+
+// Point content was written in Portuguese and the interface in English; missing
+// translations fall back to these
+export const CONTENT_SOURCE_LOCALE: LocaleCode = 'pt';
+export const UI_SOURCE_LOCALE: LocaleCode = 'en';
+
+export function isLocaleCode(value: unknown): value is LocaleCode {
+  return LOCALES.some(locale => locale.code === value);
+}
@@ -0,0 +1,736 @@
+import { LocaleCode } from './locales';
+
+// Interface strings. English is the source: every key is defined here, and the
+// other catalogs may leave keys out. {name} placeholders are filled in by Localization.t.
+const en = {
+  'language.label': 'Language',
+  'codes.label': 'Point codes',
+  'sidebar.title': 'Acupuncture Points',
+  'sidebar.intro': 'Click on a point to view details and see its location on the 3D model.',
+  'sidebar.datasetError': 'Could not load the acupoint dataset.',
+  'tools.edit': 'Edit points',
+  'tools.measure': 'Measure',
+  'tools.prescription': 'Prescription',
+  'tools.patients': 'Patients',
+  'tools.study': 'Study',
+  'tools.xray': 'X-ray',
+  'meridian.show': 'Show {name}',
+  'labels.show': 'Label the points of {name}',
+  'viewer.label': '3D body model with acupuncture points',
+  'viewer.help': 'Arrow keys pan, Shift with arrow keys rotates, plus and minus zoom. ' +
+    'Number keys 1 to {count} switch to the standard views. ' +
+    'N and P select the next and previous point of the meridian. Enter moves to the point in the list, slash to the search box.',
+  'loading.model': 'Loading body model...',
+  'loading.progress': 'Loading body model... {percent}%',
+  'loading.cancel': 'Cancel',
+  'loading.cancelled': 'Loading cancelled.',
+  'loading.error': 'Could not load the body model.',
+  'point.none': 'No point selected.',
+  'side.label': 'Side of the body',
+  'side.both': 'Both sides',
+  'side.left': 'Left side',
+  'side.right': 'Right side',
+  'prescription.add': 'Add to prescription',
+  'prescription.remove': 'Remove from prescription (no. {number})',
+  'view.toolbar': 'Standard views',
+  'view.announce': '{label} view.',
+  'view.anterior': 'Anterior',
+  'view.posterior': 'Posterior',
+  'view.left': 'Left lateral',
+  'view.right': 'Right lateral',
+  'view.superior': 'Superior',
+  'view.head': 'Head',
+  'view.hand': 'Hand',
+  'view.foot': 'Foot',
+  'legend.label': 'Meridians shown on the model',
+  'legend.hide': 'Click to hide',
+  'legend.show': 'Click to show',
+  'search.placeholder': 'Search: CV6, Qihai, Sea of Qi...',
+  'search.label': 'Search points',
+  'search.results': 'Search results',
+  'search.empty': 'No points found.',
+  'search.name': 'Name',
+  'search.code': 'Code',
+  'section.caracteristicas': 'Characteristics',
+  'section.funcoes': 'Energetic functions',
+  'section.indicacoes': 'Indications',
+  'section.localizacao': 'Location',
+  'section.puncao': 'Needling',
+  'section.precaucoes': 'Precautions',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'laterality.bilateral': 'Bilateral',
+  'laterality.left': 'Left',
+  'laterality.right': 'Right',
+  'authoring.title': 'Authoring',
+  'authoring.undo': 'Undo',
+  'authoring.undoTitle': 'Undo (Ctrl+Z)',
+  'authoring.redo': 'Redo',
+  'authoring.redoTitle': 'Redo (Ctrl+Shift+Z)',
+  'authoring.export': 'Export JSON',
+  'authoring.exit': 'Exit',
+  'authoring.snap': 'Snap to surface',
+  'authoring.help': 'Drag a marker across the body. Arrow keys move the selected point, ' +
+    '+ and - move it towards or away from the camera, Shift moves ten times further. ' +
+    'Comma locks the camera and period unlocks it.',
+  'authoring.meridian': 'Meridian of the new point',
+  'authoring.number': 'No.',
+  'authoring.numberLabel': 'Number of the new point',
+  'authoring.newPoint': 'New point',
+  'authoring.notPlaced': 'Not placed yet: click on the body to place this point.',
+  'authoring.position': 'Position: {position}',
+  'authoring.positionOnSurface': 'Position: {position} ({mesh}, triangle {triangle})',
+  'authoring.pinyin': 'Pinyin',
+  'authoring.name': 'Name',
+  'authoring.view': 'View',
+  'authoring.defaultView': '{view} (default)',
+  'authoring.sides': 'Sides',
+  'authoring.symmetry.bilateral': 'Bilateral (mirrored to the other side)',
+  'authoring.symmetry.midline': 'Midline',
+  'authoring.lines': '{field} (one per line)',
+  'authoring.images': 'Images',
+  'authoring.apply': 'Apply',
+  'authoring.updated': 'Updated {code}.',
+  'authoring.choosePoint': 'Choose a meridian and a point number.',
+  'authoring.added': 'Added {code}. Click on the body to place it.',
+  'authoring.exported': 'Exported acupoints.json. Replace src/data/acupoints.json with it to publish the changes.',
+  'measure.help': 'Click two points on the body to measure the distance over the skin.',
+  'measure.cun': 'Cun',
+  'measure.cunFrom': 'cun from',
+  'measure.code': 'Point code',
+  'measure.direction': 'Direction',
+  'measure.higher': 'towards higher numbers',
+  'measure.lower': 'towards lower numbers',
+  'measure.place': 'Place marker',
+  'measure.move': 'Move selected point here',
+  'measure.clear': 'Clear',
+  'measure.second': 'Click the second point.',
+  'measure.notConnected': 'These points are not connected over the surface.',
+  'measure.distance': '{cun} cun ({centimetres} cm), using {pair} = {pairCun} cun',
+  'measure.distanceUncalibrated': '{centimetres} cm (no cun calibration for this model)',
+  'measure.notPlaced': '{code} is not placed on the body.',
+  'measure.unknown': 'Unknown point: {code}',
+  'measure.enterCun': 'Enter a number of cun.',
+  'measure.noCalibration': 'No cun calibration for this model.',
+  'measure.pastEnd': '{cun} cun from {code} is past the end of the {meridian} channel.',
+  'measure.marker': 'Marker {cun} cun from {code}.',
+  'measure.nearest': 'Nearest point: {code}, about {cun} cun away.',
+  'measure.landmark.umbilicusPubis': 'Umbilicus – pubic symphysis',
+  'measure.landmark.xiphoidUmbilicus': 'Xiphisternal junction – umbilicus',
+  'measure.landmark.elbowWrist': 'Elbow crease – wrist crease',
+  'measure.landmark.kneeAnkle': 'Knee – lateral malleolus',
+  'xray.opacity': 'Skin opacity',
+  'xray.occluded': 'Show points behind the body, outlined',
+  'xray.reset': 'Reset',
+  'xray.sagittal': 'Sagittal cut',
+  'xray.sagittal.plus': 'Keep the left side',
+  'xray.sagittal.minus': 'Keep the right side',
+  'xray.transverse': 'Transverse cut',
+  'xray.transverse.plus': 'Keep the upper part',
+  'xray.transverse.minus': 'Keep the lower part',
+  'xray.coronal': 'Coronal cut',
+  'xray.coronal.plus': 'Keep the front',
+  'xray.coronal.minus': 'Keep the back',
+  'xray.position': '{name} position',
+  'xray.keep': '{name} side kept',
+  'prescription.name': 'Prescription name',
+  'prescription.namePlaceholder': 'Name, e.g. patient or protocol',
+  'prescription.addSelected': 'Add selected point',
+  'prescription.save': 'Save',
+  'prescription.print': 'Print',
+  'prescription.new': 'New',
+  'prescription.saved': 'Saved prescriptions',
+  'prescription.open': 'Open',
+  'prescription.noneSaved': 'No saved prescriptions',
+  'prescription.empty': 'No points yet. Select a point and add it.',
+  'prescription.side': 'Side for point {number}',
+  'prescription.moveUp': 'Move up',
+  'prescription.moveUpLabel': 'Move point {number} up',
+  'prescription.moveDown': 'Move down',
+  'prescription.moveDownLabel': 'Move point {number} down',
+  'prescription.removeItem': 'Remove',
+  'prescription.removeItemLabel': 'Remove point {number}',
+  'prescription.notes': 'Notes',
+  'prescription.notesLabel': 'Notes for point {number}',
+  'prescription.discard': 'Discard the unsaved changes to this prescription?',
+  'prescription.nameRequired': 'Give the prescription a name before saving.',
+  'prescription.savedStatus': 'Saved "{name}".',
+  'prescription.opened': 'Opened "{name}".',
+  'prescription.deleteConfirm': 'Delete the saved prescription "{name}"?',
+  'prescription.deleted': 'Deleted "{name}".',
+  'prescription.popupBlocked': 'The handout window was blocked; allow pop-ups for this site.',
+  'patients.title': 'Patient log',
+  'patients.storage': 'Stored only in this browser. Export a backup regularly.',
+  'patients.unavailable': 'The patient log is not available: this browser does not allow local storage here.',
+  'patients.encrypted': 'The patient log is encrypted.',
+  'patients.passphrase': 'Passphrase',
+  'patients.unlock': 'Unlock',
+  'patients.wrongPassphrase': 'Wrong passphrase.',
+  'patients.patient': 'Patient',
+  'patients.none': 'No patients yet',
+  'patients.newName': 'New patient name',
+  'patients.add': 'Add',
+  'patients.notes': 'Patient notes',
+  'patients.delete': 'Delete patient',
+  'patients.newSession': 'New session',
+  'patients.sessionDate': 'Session date',
+  'patients.tags': 'Symptom tags',
+  'patients.tagsPlaceholder': 'Symptom tags, separated by commas',
+  'patients.sessionNotes': 'Session notes',
+  'patients.points': 'Points: {points}',
+  'patients.noPoints': 'Points: none yet. Build a prescription or select a point.',
+  'patients.pointSide': '{code} ({side})',
+  'patients.record': 'Record session',
+  'patients.history': 'History',
+  'patients.filter': 'Filter by tag',
+  'patients.allSessions': 'All sessions',
+  'patients.noSessions': 'No sessions recorded.',
+  'patients.show': 'Show on model',
+  'patients.export': 'Export backup',
+  'patients.import': 'Import backup',
+  'patients.setPassphrase': 'Set passphrase',
+  'patients.changePassphrase': 'Change passphrase',
+  'patients.newPassphrase': 'New passphrase',
+  'patients.newPassphrasePlaceholder': 'New passphrase (empty removes it)',
+  'patients.repeatPassphrase': 'Repeat passphrase',
+  'patients.savePassphrase': 'Save passphrase',
+  'patients.passphraseMismatch': 'The passphrases do not match.',
+  'patients.lock': 'Lock',
+  'patients.added': 'Added {name}.',
+  'patients.notesSaved': 'Patient notes saved.',
+  'patients.deleteConfirm': 'Delete {name} and all their sessions?',
+  'patients.deleted': 'Deleted {name}.',
+  'patients.recorded': 'Session recorded.',
+  'patients.deleteSessionConfirm': 'Delete the session of {date}?',
+  'patients.encryptionRemoved': 'Encryption removed.',
+  'patients.encryptionSet': 'The patient log is now encrypted with the passphrase.',
+  'patients.exported': 'Exported a backup. It is not encrypted; keep it somewhere safe.',
+  'patients.exportedEncrypted': 'Exported an encrypted backup; it opens with the current passphrase.',
+  'patients.backupPassphrase': 'Passphrase of this backup',
+  'patients.imported': 'Imported {patients} patients and {sessions} sessions.',
+  'patients.error.locked': 'The patient log is encrypted; unlock it with its passphrase first.',
+  'patients.error.invalidJson': 'The file is not valid JSON.',
+  'patients.error.notBackup': 'The file is not a patient log backup.',
+  'patients.error.passphraseRequired': 'This backup is encrypted; enter its passphrase.',
+  'patients.error.wrongPassphrase': 'Wrong passphrase for this backup.',
+  'study.meridians': 'Meridians',
+  'study.questions': 'Questions',
+  'study.type.locate': 'Click where the point is',
+  'study.type.identify': 'Name the highlighted point',
+  'study.type.indication': 'Which point treats...',
+  'study.start': 'Start',
+  'study.next': 'Next question',
+  'study.reveal': 'Show answer',
+  'study.reset': 'Reset progress',
+  'study.resetConfirm': 'Forget the study progress of the chosen meridians and questions?',
+  'study.meridian': 'Meridian',
+  'study.new': 'New',
+  'study.learning': 'Learning',
+  'study.due': 'Due',
+  'study.correct': 'Correct',
+  'study.locate': 'Click on the body where {code} ({pinyin}) is.',
+  'study.identify': 'Which point is highlighted on the model?',
+  'study.indication': 'Which point is indicated for {indication}?',
+  'study.answer': 'The answer is {answer}.',
+  'study.distance': '{cun} cun ({centimetres} cm) from {code}.',
+  'study.distanceUncalibrated': '{centimetres} cm from {code}.',
+  'study.grade.again': 'Missed.',
+  'study.grade.hard': 'Hard.',
+  'study.grade.good': 'Good.',
+  'study.grade.easy': 'Excellent.',
+  'study.soon': 'It will come back shortly.',
+  'study.tomorrow': 'Next review tomorrow.',
+  'study.inDays': 'Next review in {days} days.',
+  'study.done': 'Nothing more to study now. Next review: {date}.',
+  'study.empty': 'No questions for this choice of meridians and questions.'
+};
+
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+const pt: MessageCatalog = {
+  'language.label': 'Idioma',
+  'codes.label': 'Códigos dos pontos',
+  'sidebar.title': 'Pontos de Acupuntura',
+  'sidebar.intro': 'Clique em um ponto para ver os detalhes e a sua localização no modelo 3D.',
+  'sidebar.datasetError': 'Não foi possível carregar os pontos de acupuntura.',
+  'tools.edit': 'Editar pontos',
+  'tools.measure': 'Medir',
+  'tools.prescription': 'Prescrição',
+  'tools.patients': 'Pacientes',
+  'tools.study': 'Estudar',
+  'tools.xray': 'Raio X',
+  'meridian.show': 'Mostrar {name}',
+  'labels.show': 'Rotular os pontos de {name}',
+  'viewer.label': 'Modelo 3D do corpo com os pontos de acupuntura',
+  'viewer.help': 'As setas movem a vista, Shift com as setas gira e mais e menos aproximam. ' +
+    'As teclas 1 a {count} mudam para as vistas padrão. ' +
+    'N e P selecionam o ponto seguinte e o anterior do meridiano. Enter vai ao ponto na lista e a barra à caixa de busca.',
+  'loading.model': 'Carregando o modelo do corpo...',
+  'loading.progress': 'Carregando o modelo do corpo... {percent}%',
+  'loading.cancel': 'Cancelar',
+  'loading.cancelled': 'Carregamento cancelado.',
+  'loading.error': 'Não foi possível carregar o modelo do corpo.',
+  'point.none': 'Nenhum ponto selecionado.',
+  'side.label': 'Lado do corpo',
+  'side.both': 'Ambos os lados',
+  'side.left': 'Lado esquerdo',
+  'side.right': 'Lado direito',
+  'prescription.add': 'Adicionar à prescrição',
+  'prescription.remove': 'Remover da prescrição (nº {number})',
+  'view.toolbar': 'Vistas padrão',
+  'view.announce': 'Vista {label}.',
+  'view.anterior': 'Anterior',
+  'view.posterior': 'Posterior',
+  'view.left': 'Lateral esquerda',
+  'view.right': 'Lateral direita',
+  'view.superior': 'Superior',
+  'view.head': 'Cabeça',
+  'view.hand': 'Mão',
+  'view.foot': 'Pé',
+  'legend.label': 'Meridianos exibidos no modelo',
+  'legend.hide': 'Clique para ocultar',
+  'legend.show': 'Clique para mostrar',
+  'search.placeholder': 'Buscar: VC6, Qihai, dor abdominal...',
+  'search.label': 'Buscar pontos',
+  'search.results': 'Resultados da busca',
+  'search.empty': 'Nenhum ponto encontrado.',
+  'search.name': 'Nome',
+  'search.code': 'Código',
+  'section.caracteristicas': 'Características',
+  'section.funcoes': 'Funções energéticas',
+  'section.indicacoes': 'Indicações',
+  'section.localizacao': 'Localização',
+  'section.puncao': 'Punção',
+  'section.precaucoes': 'Precauções',
+  'common.close': 'Fechar',
+  'common.delete': 'Excluir',
+  'laterality.bilateral': 'Bilateral',
+  'laterality.left': 'Esquerdo',
+  'laterality.right': 'Direito',
+  'authoring.title': 'Edição',
+  'authoring.undo': 'Desfazer',
+  'authoring.undoTitle': 'Desfazer (Ctrl+Z)',
+  'authoring.redo': 'Refazer',
+  'authoring.redoTitle': 'Refazer (Ctrl+Shift+Z)',
+  'authoring.export': 'Exportar JSON',
+  'authoring.exit': 'Sair',
+  'authoring.snap': 'Prender à superfície',
+  'authoring.help': 'Arraste um marcador sobre o corpo. As setas movem o ponto selecionado, ' +
+    '+ e - o aproximam ou afastam da câmera, e com Shift o passo é dez vezes maior. ' +
+    'A vírgula trava a câmera e o ponto a destrava.',
+  'authoring.meridian': 'Meridiano do novo ponto',
+  'authoring.number': 'Nº',
+  'authoring.numberLabel': 'Número do novo ponto',
+  'authoring.newPoint': 'Novo ponto',
+  'authoring.notPlaced': 'Ainda sem posição: clique no corpo para posicionar este ponto.',
+  'authoring.position': 'Posição: {position}',
+  'authoring.positionOnSurface': 'Posição: {position} ({mesh}, triângulo {triangle})',
+  'authoring.pinyin': 'Pinyin',
+  'authoring.name': 'Nome',
+  'authoring.view': 'Vista',
+  'authoring.defaultView': '{view} (padrão)',
+  'authoring.sides': 'Lados',
+  'authoring.symmetry.bilateral': 'Bilateral (espelhado no outro lado)',
+  'authoring.symmetry.midline': 'Linha média',
+  'authoring.lines': '{field} (um por linha)',
+  'authoring.images': 'Imagens',
+  'authoring.apply': 'Aplicar',
+  'authoring.updated': '{code} atualizado.',
+  'authoring.choosePoint': 'Escolha um meridiano e o número do ponto.',
+  'authoring.added': '{code} adicionado. Clique no corpo para posicioná-lo.',
+  'authoring.exported': 'acupoints.json exportado. Substitua src/data/acupoints.json por ele para publicar as alterações.',
+  'measure.help': 'Clique em dois pontos do corpo para medir a distância sobre a pele.',
+  'measure.cun': 'Cun',
+  'measure.cunFrom': 'cun a partir de',
+  'measure.code': 'Código do ponto',
+  'measure.direction': 'Direção',
+  'measure.higher': 'para os números maiores',
+  'measure.lower': 'para os números menores',
+  'measure.place': 'Colocar marcador',
+  'measure.move': 'Mover o ponto selecionado para cá',
+  'measure.clear': 'Limpar',
+  'measure.second': 'Clique no segundo ponto.',
+  'measure.notConnected': 'Estes pontos não se ligam pela superfície.',
+  'measure.distance': '{cun} cun ({centimetres} cm), pela medida {pair} = {pairCun} cun',
+  'measure.distanceUncalibrated': '{centimetres} cm (sem calibração do cun para este modelo)',
+  'measure.notPlaced': '{code} não está posicionado no corpo.',
+  'measure.unknown': 'Ponto desconhecido: {code}',
+  'measure.enterCun': 'Informe um número de cun.',
+  'measure.noCalibration': 'Sem calibração do cun para este modelo.',
+  'measure.pastEnd': '{cun} cun a partir de {code} passa do fim do canal {meridian}.',
+  'measure.marker': 'Marcador a {cun} cun de {code}.',
+  'measure.nearest': 'Ponto mais próximo: {code}, a cerca de {cun} cun.',
+  'measure.landmark.umbilicusPubis': 'Umbigo – sínfise púbica',
+  'measure.landmark.xiphoidUmbilicus': 'Junção xifoesternal – umbigo',
+  'measure.landmark.elbowWrist': 'Prega do cotovelo – prega do punho',
+  'measure.landmark.kneeAnkle': 'Joelho – maléolo lateral',
+  'xray.opacity': 'Opacidade da pele',
+  'xray.occluded': 'Mostrar os pontos atrás do corpo, contornados',
+  'xray.reset': 'Restaurar',
+  'xray.sagittal': 'Corte sagital',
+  'xray.sagittal.plus': 'Manter o lado esquerdo',
+  'xray.sagittal.minus': 'Manter o lado direito',
+  'xray.transverse': 'Corte transversal',
+  'xray.transverse.plus': 'Manter a parte superior',
+  'xray.transverse.minus': 'Manter a parte inferior',
+  'xray.coronal': 'Corte coronal',
+  'xray.coronal.plus': 'Manter a frente',
+  'xray.coronal.minus': 'Manter as costas',
+  'xray.position': '{name}: posição',
+  'xray.keep': '{name}: lado mantido',
+  'prescription.name': 'Nome da prescrição',
+  'prescription.namePlaceholder': 'Nome, p. ex. paciente ou protocolo',
+  'prescription.addSelected': 'Adicionar o ponto selecionado',
+  'prescription.save': 'Salvar',
+  'prescription.print': 'Imprimir',
+  'prescription.new': 'Nova',
+  'prescription.saved': 'Prescrições salvas',
+  'prescription.open': 'Abrir',
+  'prescription.noneSaved': 'Nenhuma prescrição salva',
+  'prescription.empty': 'Nenhum ponto ainda. Selecione um ponto e adicione-o.',
+  'prescription.side': 'Lado do ponto {number}',
+  'prescription.moveUp': 'Mover para cima',
+  'prescription.moveUpLabel': 'Mover o ponto {number} para cima',
+  'prescription.moveDown': 'Mover para baixo',
+  'prescription.moveDownLabel': 'Mover o ponto {number} para baixo',
+  'prescription.removeItem': 'Remover',
+  'prescription.removeItemLabel': 'Remover o ponto {number}',
+  'prescription.notes': 'Observações',
+  'prescription.notesLabel': 'Observações do ponto {number}',
+  'prescription.discard': 'Descartar as alterações não salvas desta prescrição?',
+  'prescription.nameRequired': 'Dê um nome à prescrição antes de salvar.',
+  'prescription.savedStatus': '"{name}" salva.',
+  'prescription.opened': '"{name}" aberta.',
+  'prescription.deleteConfirm': 'Excluir a prescrição salva "{name}"?',
+  'prescription.deleted': '"{name}" excluída.',
+  'prescription.popupBlocked': 'A janela do folheto foi bloqueada; permita pop-ups para este site.',
+  'patients.title': 'Registro de pacientes',
+  'patients.storage': 'Guardado apenas neste navegador. Exporte uma cópia de segurança regularmente.',
+  'patients.unavailable': 'O registro de pacientes não está disponível: este navegador não permite armazenamento local aqui.',
+  'patients.encrypted': 'O registro de pacientes está criptografado.',
+  'patients.passphrase': 'Senha',
+  'patients.unlock': 'Desbloquear',
+  'patients.wrongPassphrase': 'Senha incorreta.',
+  'patients.patient': 'Paciente',
+  'patients.none': 'Nenhum paciente ainda',
+  'patients.newName': 'Nome do novo paciente',
+  'patients.add': 'Adicionar',
+  'patients.notes': 'Observações do paciente',
+  'patients.delete': 'Excluir paciente',
+  'patients.newSession': 'Nova sessão',
+  'patients.sessionDate': 'Data da sessão',
+  'patients.tags': 'Sintomas',
+  'patients.tagsPlaceholder': 'Sintomas, separados por vírgulas',
+  'patients.sessionNotes': 'Observações da sessão',
+  'patients.points': 'Pontos: {points}',
+  'patients.noPoints': 'Pontos: nenhum ainda. Monte uma prescrição ou selecione um ponto.',
+  'patients.pointSide': '{code} ({side})',
+  'patients.record': 'Registrar sessão',
+  'patients.history': 'Histórico',
+  'patients.filter': 'Filtrar por sintoma',
+  'patients.allSessions': 'Todas as sessões',
+  'patients.noSessions': 'Nenhuma sessão registrada.',
+  'patients.show': 'Mostrar no modelo',
+  'patients.export': 'Exportar cópia',
+  'patients.import': 'Importar cópia',
+  'patients.setPassphrase': 'Definir senha',
+  'patients.changePassphrase': 'Trocar senha',
+  'patients.newPassphrase': 'Nova senha',
+  'patients.newPassphrasePlaceholder': 'Nova senha (vazia a remove)',
+  'patients.repeatPassphrase': 'Repita a senha',
+  'patients.savePassphrase': 'Salvar senha',
+  'patients.passphraseMismatch': 'As senhas não coincidem.',
+  'patients.lock': 'Bloquear',
+  'patients.added': '{name} adicionado.',
+  'patients.notesSaved': 'Observações do paciente salvas.',
+  'patients.deleteConfirm': 'Excluir {name} e todas as suas sessões?',
+  'patients.deleted': '{name} excluído.',
+  'patients.recorded': 'Sessão registrada.',
+  'patients.deleteSessionConfirm': 'Excluir a sessão de {date}?',
+  'patients.encryptionRemoved': 'Criptografia removida.',
+  'patients.encryptionSet': 'O registro de pacientes agora está criptografado com a senha.',
+  'patients.exported': 'Cópia exportada. Ela não está criptografada; guarde-a em lugar seguro.',
+  'patients.exportedEncrypted': 'Cópia criptografada exportada; ela abre com a senha atual.',
+  'patients.backupPassphrase': 'Senha desta cópia',
+  'patients.imported': '{patients} pacientes e {sessions} sessões importados.',
+  'patients.error.locked': 'O registro de pacientes está criptografado; desbloqueie-o primeiro com a senha.',
+  'patients.error.invalidJson': 'O arquivo não é um JSON válido.',
+  'patients.error.notBackup': 'O arquivo não é uma cópia de segurança do registro de pacientes.',
+  'patients.error.passphraseRequired': 'Esta cópia de segurança está criptografada; informe a senha.',
+  'patients.error.wrongPassphrase': 'Senha incorreta para esta cópia de segurança.',
+  'study.meridians': 'Meridianos',
+  'study.questions': 'Perguntas',
+  'study.type.locate': 'Clique onde fica o ponto',
+  'study.type.identify': 'Diga o ponto destacado',
+  'study.type.indication': 'Qual ponto trata...',
+  'study.start': 'Começar',
+  'study.next': 'Próxima pergunta',
+  'study.reveal': 'Mostrar a resposta',
+  'study.reset': 'Zerar o progresso',
+  'study.resetConfirm': 'Esquecer o progresso de estudo dos meridianos e perguntas escolhidos?',
+  'study.meridian': 'Meridiano',
+  'study.new': 'Novos',
+  'study.learning': 'Aprendendo',
+  'study.due': 'Para revisar',
+  'study.correct': 'Acertos',
+  'study.locate': 'Clique no corpo onde fica {code} ({pinyin}).',
+  'study.identify': 'Qual ponto está destacado no modelo?',
+  'study.indication': 'Qual ponto é indicado para {indication}?',
+  'study.answer': 'A resposta é {answer}.',
+  'study.distance': '{cun} cun ({centimetres} cm) de {code}.',
+  'study.distanceUncalibrated': '{centimetres} cm de {code}.',
+  'study.grade.again': 'Errou.',
+  'study.grade.hard': 'Difícil.',
+  'study.grade.good': 'Bom.',
+  'study.grade.easy': 'Excelente.',
+  'study.soon': 'Ele volta em breve.',
+  'study.tomorrow': 'Próxima revisão amanhã.',
+  'study.inDays': 'Próxima revisão em {days} dias.',
+  'study.done': 'Nada mais para estudar agora. Próxima revisão: {date}.',
+  'study.empty': 'Nenhuma pergunta para esta escolha de meridianos e perguntas.'
+};
+
+const zh: MessageCatalog = {
+  'language.label': '语言',
+  'codes.label': '穴位代码',
+  'sidebar.title': '穴位',
+  'sidebar.intro': '点击穴位查看详情及其在三维模型上的位置。',
+  'sidebar.datasetError': '无法加载穴位数据。',
+  'tools.edit': '编辑穴位',
+  'tools.measure': '测量',
+  'tools.prescription': '处方',
+  'tools.patients': '患者',
+  'tools.study': '学习',
+  'tools.xray': '透视',
+  'meridian.show': '显示{name}',
+  'labels.show': '标注{name}的穴位',
+  'viewer.label': '带有穴位的三维人体模型',
+  'viewer.help': '方向键平移，Shift 加方向键旋转，加号和减号缩放。数字键 1 至 {count} 切换到标准视图。' +
+    'N 和 P 选择本经的下一个和上一个穴位。Enter 跳到列表中的穴位，斜杠跳到搜索框。',
+  'loading.model': '正在加载人体模型…',
+  'loading.progress': '正在加载人体模型… {percent}%',
+  'loading.cancel': '取消',
+  'loading.cancelled': '已取消加载。',
+  'loading.error': '无法加载人体模型。',
+  'point.none': '未选择穴位。',
+  'side.label': '身体侧',
+  'side.both': '双侧',
+  'side.left': '左侧',
+  'side.right': '右侧',
+  'prescription.add': '加入处方',
+  'prescription.remove': '从处方中移除（第 {number} 个）',
+  'view.toolbar': '标准视图',
+  'view.announce': '{label}视图。',
+  'view.anterior': '前面',
+  'view.posterior': '后面',
+  'view.left': '左侧',
+  'view.right': '右侧',
+  'view.superior': '上面',
+  'view.head': '头部',
+  'view.hand': '手部',
+  'view.foot': '足部',
+  'legend.label': '模型上显示的经络',
+  'legend.hide': '点击隐藏',
+  'legend.show': '点击显示',
+  'search.placeholder': '搜索：CV6、气海、Qihai…',
+  'search.label': '搜索穴位',
+  'search.results': '搜索结果',
+  'search.empty': '未找到穴位。',
+  'search.name': '名称',
+  'search.code': '代码',
+  'section.caracteristicas': '特性',
+  'section.funcoes': '功能',
+  'section.indicacoes': '主治',
+  'section.localizacao': '定位',
+  'section.puncao': '刺法',
+  'section.precaucoes': '注意事项',
+  'common.close': '关闭',
+  'common.delete': '删除',
+  'laterality.bilateral': '双侧',
+  'laterality.left': '左',
+  'laterality.right': '右',
+  'authoring.title': '编辑',
+  'authoring.undo': '撤销',
+  'authoring.undoTitle': '撤销（Ctrl+Z）',
+  'authoring.redo': '重做',
+  'authoring.redoTitle': '重做（Ctrl+Shift+Z）',
+  'authoring.export': '导出 JSON',
+  'authoring.exit': '退出',
+  'authoring.snap': '吸附到体表',
+  'authoring.help': '在人体上拖动标记。方向键移动所选穴位，+ 和 - 使其靠近或远离相机，按住 Shift 移动距离加大十倍。' +
+    '逗号锁定相机，句点解锁。',
+  'authoring.meridian': '新穴位的经络',
+  'authoring.number': '编号',
+  'authoring.numberLabel': '新穴位的编号',
+  'authoring.newPoint': '新穴位',
+  'authoring.notPlaced': '尚未定位：点击人体放置此穴位。',
+  'authoring.position': '位置：{position}',
+  'authoring.positionOnSurface': '位置：{position}（{mesh}，三角形 {triangle}）',
+  'authoring.pinyin': '拼音',
+  'authoring.name': '名称',
+  'authoring.view': '视图',
+  'authoring.defaultView': '{view}（默认）',
+  'authoring.sides': '侧别',
+  'authoring.symmetry.bilateral': '双侧（镜像到另一侧）',
+  'authoring.symmetry.midline': '正中线',
+  'authoring.lines': '{field}（每行一项）',
+  'authoring.images': '图片',
+  'authoring.apply': '应用',
+  'authoring.updated': '已更新 {code}。',
+  'authoring.choosePoint': '请选择经络和穴位编号。',
+  'authoring.added': '已添加 {code}。点击人体放置该穴位。',
+  'authoring.exported': '已导出 acupoints.json。用它替换 src/data/acupoints.json 以发布更改。',
+  'measure.help': '点击人体上的两点，测量沿皮肤的距离。',
+  'measure.cun': '寸',
+  'measure.cunFrom': '寸，起点',
+  'measure.code': '穴位代码',
+  'measure.direction': '方向',
+  'measure.higher': '向编号增大的方向',
+  'measure.lower': '向编号减小的方向',
+  'measure.place': '放置标记',
+  'measure.move': '将所选穴位移到此处',
+  'measure.clear': '清除',
+  'measure.second': '请点击第二个点。',
+  'measure.notConnected': '这两点在体表上不相连。',
+  'measure.distance': '{cun} 寸（{centimetres} 厘米），按 {pair} = {pairCun} 寸',
+  'measure.distanceUncalibrated': '{centimetres} 厘米（此模型没有寸的校准）',
+  'measure.notPlaced': '{code} 未在人体上定位。',
+  'measure.unknown': '未知穴位：{code}',
+  'measure.enterCun': '请输入寸数。',
+  'measure.noCalibration': '此模型没有寸的校准。',
+  'measure.pastEnd': '距 {code} {cun} 寸已超出 {meridian} 经的终点。',
+  'measure.marker': '标记距 {code} {cun} 寸。',
+  'measure.nearest': '最近的穴位：{code}，约 {cun} 寸。',
+  'measure.landmark.umbilicusPubis': '脐中 – 耻骨联合',
+  'measure.landmark.xiphoidUmbilicus': '胸剑联合 – 脐中',
+  'measure.landmark.elbowWrist': '肘横纹 – 腕横纹',
+  'measure.landmark.kneeAnkle': '膝 – 外踝',
+  'xray.opacity': '皮肤不透明度',
+  'xray.occluded': '以轮廓显示身体后面的穴位',
+  'xray.reset': '重置',
+  'xray.sagittal': '矢状切面',
+  'xray.sagittal.plus': '保留左侧',
+  'xray.sagittal.minus': '保留右侧',
+  'xray.transverse': '横切面',
+  'xray.transverse.plus': '保留上部',
+  'xray.transverse.minus': '保留下部',
+  'xray.coronal': '冠状切面',
+  'xray.coronal.plus': '保留前面',
+  'xray.coronal.minus': '保留后面',
+  'xray.position': '{name}位置',
+  'xray.keep': '{name}保留的一侧',
+  'prescription.name': '处方名称',
+  'prescription.namePlaceholder': '名称，例如患者或方案',
+  'prescription.addSelected': '添加所选穴位',
+  'prescription.save': '保存',
+  'prescription.print': '打印',
+  'prescription.new': '新建',
+  'prescription.saved': '已保存的处方',
+  'prescription.open': '打开',
+  'prescription.noneSaved': '没有已保存的处方',
+  'prescription.empty': '尚无穴位。选择一个穴位并添加。',
+  'prescription.side': '第 {number} 个穴位的侧别',
+  'prescription.moveUp': '上移',
+  'prescription.moveUpLabel': '上移第 {number} 个穴位',
+  'prescription.moveDown': '下移',
+  'prescription.moveDownLabel': '下移第 {number} 个穴位',
+  'prescription.removeItem': '移除',
+  'prescription.removeItemLabel': '移除第 {number} 个穴位',
+  'prescription.notes': '备注',
+  'prescription.notesLabel': '第 {number} 个穴位的备注',
+  'prescription.discard': '放弃此处方未保存的更改？',
+  'prescription.nameRequired': '保存前请为处方命名。',
+  'prescription.savedStatus': '已保存“{name}”。',
+  'prescription.opened': '已打开“{name}”。',
+  'prescription.deleteConfirm': '删除已保存的处方“{name}”？',
+  'prescription.deleted': '已删除“{name}”。',
+  'prescription.popupBlocked': '讲义窗口被拦截；请允许此网站弹出窗口。',
+  'patients.title': '患者记录',
+  'patients.storage': '仅保存在此浏览器中。请定期导出备份。',
+  'patients.unavailable': '患者记录不可用：此浏览器在这里不允许本地存储。',
+  'patients.encrypted': '患者记录已加密。',
+  'patients.passphrase': '密码',
+  'patients.unlock': '解锁',
+  'patients.wrongPassphrase': '密码错误。',
+  'patients.patient': '患者',
+  'patients.none': '尚无患者',
+  'patients.newName': '新患者姓名',
+  'patients.add': '添加',
+  'patients.notes': '患者备注',
+  'patients.delete': '删除患者',
+  'patients.newSession': '新诊次',
+  'patients.sessionDate': '诊次日期',
+  'patients.tags': '症状标签',
+  'patients.tagsPlaceholder': '症状标签，用逗号分隔',
+  'patients.sessionNotes': '诊次备注',
+  'patients.points': '穴位：{points}',
+  'patients.noPoints': '穴位：尚无。请建立处方或选择一个穴位。',
+  'patients.pointSide': '{code}（{side}）',
+  'patients.record': '记录诊次',
+  'patients.history': '历史',
+  'patients.filter': '按标签筛选',
+  'patients.allSessions': '全部诊次',
+  'patients.noSessions': '尚无诊次记录。',
+  'patients.show': '在模型上显示',
+  'patients.export': '导出备份',
+  'patients.import': '导入备份',
+  'patients.setPassphrase': '设置密码',
+  'patients.changePassphrase': '更改密码',
+  'patients.newPassphrase': '新密码',
+  'patients.newPassphrasePlaceholder': '新密码（留空则移除）',
+  'patients.repeatPassphrase': '再次输入密码',
+  'patients.savePassphrase': '保存密码',
+  'patients.passphraseMismatch': '两次输入的密码不一致。',
+  'patients.lock': '锁定',
+  'patients.added': '已添加 {name}。',
+  'patients.notesSaved': '患者备注已保存。',
+  'patients.deleteConfirm': '删除 {name} 及其全部诊次？',
+  'patients.deleted': '已删除 {name}。',
+  'patients.recorded': '诊次已记录。',
+  'patients.deleteSessionConfirm': '删除 {date} 的诊次？',
+  'patients.encryptionRemoved': '已取消加密。',
+  'patients.encryptionSet': '患者记录现已用该密码加密。',
+  'patients.exported': '已导出备份。备份未加密，请妥善保管。',
+  'patients.exportedEncrypted': '已导出加密备份；用当前密码即可打开。',
+  'patients.backupPassphrase': '此备份的密码',
+  'patients.imported': '已导入 {patients} 位患者和 {sessions} 个诊次。',
+  'patients.error.locked': '患者记录已加密，请先用密码解锁。',
+  'patients.error.invalidJson': '该文件不是有效的 JSON。',
+  'patients.error.notBackup': '该文件不是患者记录的备份。',
+  'patients.error.passphraseRequired': '此备份已加密，请输入其密码。',
+  'patients.error.wrongPassphrase': '此备份的密码错误。',
+  'study.meridians': '经络',
+  'study.questions': '题型',
+  'study.type.locate': '点击穴位所在处',
+  'study.type.identify': '说出高亮的穴位',
+  'study.type.indication': '哪个穴位主治……',
+  'study.start': '开始',
+  'study.next': '下一题',
+  'study.reveal': '显示答案',
+  'study.reset': '重置进度',
+  'study.resetConfirm': '清除所选经络和题型的学习进度？',
+  'study.meridian': '经络',
+  'study.new': '未学',
+  'study.learning': '学习中',
+  'study.due': '待复习',
+  'study.correct': '正确率',
+  'study.locate': '请在人体上点击 {code}（{pinyin}）所在处。',
+  'study.identify': '模型上高亮的是哪个穴位？',
+  'study.indication': '哪个穴位主治{indication}？',
+  'study.answer': '答案是 {answer}。',
+  'study.distance': '距 {code} {cun} 寸（{centimetres} 厘米）。',
+  'study.distanceUncalibrated': '距 {code} {centimetres} 厘米。',
+  'study.grade.again': '答错。',
+  'study.grade.hard': '困难。',
+  'study.grade.good': '良好。',
+  'study.grade.easy': '优秀。',
+  'study.soon': '稍后会再次出现。',
+  'study.tomorrow': '明天复习。',
+  'study.inDays': '{days} 天后复习。',
+  'study.done': '目前没有要学习的内容。下次复习：{date}。',
+  'study.empty': '所选经络和题型没有题目。'
+};
+
+export const MESSAGES: { [locale in LocaleCode]: MessageCatalog } = { en, pt, zh };
@@ -0,0 +1,242 @@
+import {
+  Color,
+  FileLoader,
+  Loader,
+  LoaderUtils,
+  LoadingManager,
+  Material,
+  MeshPhongMaterial,
+  RepeatWrapping,
+  SRGBColorSpace,
+  Texture,
+  TextureLoader
+} from 'three';
+
+// Raw statements of one `newmtl` block
+interface MaterialDefinition {
+  name: string;
+  diffuse?: [number, number, number];
+  specular?: [number, number, number];
+  shininess?: number;
+  opacity?: number;
+  diffuseMap?: TextureOptions;
+  bumpMap?: TextureOptions;
+}
+
+interface TextureOptions {
+  url: string;
+  scale: [number, number];
+  offset: [number, number];
+  bumpMultiplier: number;
+}
+
+// Materials parsed from one .mtl file. Materials are created on first use and
+// textures are resolved relative to the .mtl location through the LoadingManager.
+export class MTLLibrary {
+  readonly url: string;
+  private definitions = new Map<string, MaterialDefinition>();
+  private materials = new Map<string, Material>();
+  private manager?: LoadingManager;
+
+  constructor(url: string, definitions: MaterialDefinition[], manager?: LoadingManager) {
+    this.url = url;
+    this.manager = manager;
+    for (const definition of definitions) {
+      this.definitions.set(definition.name, definition);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.definitions.has(name);
+  }
+
+  get names(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  create(name: string): Material | null {
+    const cached = this.materials.get(name);
+    if (cached) return cached;
+
+    const definition = this.definitions.get(name);
+    if (!definition) return null;
+
+    const material = new MeshPhongMaterial({ name });
+    material.userData.mtllib = this.url;
+
+    if (definition.diffuse) {
+      material.color.setRGB(...definition.diffuse, SRGBColorSpace);
+    }
+    if (definition.specular) {
+      material.specular = new Color().setRGB(...definition.specular, SRGBColorSpace);
+    }
+    if (definition.shininess !== undefined) {
+      material.shininess = definition.shininess;
+    }
+    if (definition.opacity !== undefined && definition.opacity < 1) {
+      material.opacity = definition.opacity;
+      material.transparent = true;
+    }
+    if (definition.diffuseMap) {
+      material.map = this.loadTexture(definition.diffuseMap);
+      material.map.colorSpace = SRGBColorSpace;
+    }
+    if (definition.bumpMap) {
+      material.bumpMap = this.loadTexture(definition.bumpMap);
+      material.bumpScale = definition.bumpMap.bumpMultiplier;
+    }
+
+    this.materials.set(name, material);
+    return material;
+  }
+
+  private loadTexture(options: TextureOptions): Texture {
+    const loader = new TextureLoader(this.manager);
+    const texture = loader.load(options.url);
+    texture.repeat.set(options.scale[0], options.scale[1]);
+    texture.offset.set(options.offset[0], options.offset[1]);
+    texture.wrapS = RepeatWrapping;
+    texture.wrapT = RepeatWrapping;
+    return texture;
+  }
+}
+
+export class MTLLoader extends Loader {
+  constructor(manager?: LoadingManager) {
+    super(manager);
+  }
+
+  load(
+    url: string,
+    onLoad: (library: MTLLibrary) => void,
+    onProgress?: (event: ProgressEvent) => void,
+    onError?: (err: unknown) => void
+  ): void {
+    const loader = new FileLoader(this.manager);
+    loader.setPath(this.path);
+    loader.setRequestHeader(this.requestHeader);
+    loader.setWithCredentials(this.withCredentials);
+
+    const fullUrl = this.path + url;
+    const resourcePath = this.resourcePath || LoaderUtils.extractUrlBase(fullUrl);
+
+    loader.load(
+      url,
+      (text) => {
+        try {
+          onLoad(this.parse(typeof text === 'string' ? text : new TextDecoder().decode(text), resourcePath, fullUrl));
+        } catch (e) {
+          if (onError) {
+            onError(e);
+          } else {
+            console.error(e);
+          }
+        }
+      },
+      onProgress,
+      onError
+    );
+  }
+
+  parse(text: string, resourcePath: string = '', url: string = ''): MTLLibrary {
+    const definitions: MaterialDefinition[] = [];
+    let current: MaterialDefinition | null = null;
+
+    for (let line of text.split('\n')) {
+      line = line.trim();
+
+      if (line.length === 0 || line.charAt(0) === '#') continue;
+
+      const tokens = line.split(/\s+/);
+      const keyword = tokens[0].toLowerCase();
+
+      if (keyword === 'newmtl') {
+        current = { name: line.substring(7).trim() };
+        definitions.push(current);
+        continue;
+      }
+      if (!current) continue;
+
+      switch (keyword) {
+        case 'kd':
+          current.diffuse = this.parseColor(tokens);
+          break;
+        case 'ks':
+          current.specular = this.parseColor(tokens);
+          break;
+        case 'ns':
+          current.shininess = parseFloat(tokens[1]);
+          break;
+        case 'd':
+          current.opacity = parseFloat(tokens[1]);
+          break;
+        case 'tr':
+          // Tr is the inverse of d
+          current.opacity = 1 - parseFloat(tokens[1]);
+          break;
+        case 'map_kd':
+          current.diffuseMap = this.parseTextureOptions(tokens.slice(1), resourcePath);
+          break;
+        case 'map_bump':
+        case 'bump':
+          current.bumpMap = this.parseTextureOptions(tokens.slice(1), resourcePath);
+          break;
+      }
+    }
+
+    return new MTLLibrary(url, definitions, this.manager);
+  }
+
+  private parseColor(tokens: string[]): [number, number, number] {
+    const r = parseFloat(tokens[1]);
+    // A single value means a grey level
+    const g = tokens.length > 2 ? parseFloat(tokens[2]) : r;
+    const b = tokens.length > 3 ? parseFloat(tokens[3]) : r;
+    return [r, g, b];
+  }
+
+  // Texture statements may carry options before the file name, e.g. `map_Bump -bm 0.5 skin_bump.png`
+  private parseTextureOptions(args: string[], resourcePath: string): TextureOptions {
+    const options: TextureOptions = { url: '', scale: [1, 1], offset: [0, 0], bumpMultiplier: 1 };
+    const rest: string[] = [];
+
+    // Option values are the numbers following the flag, but the last token is always the file name
+    const takeNumbers = (start: number, max: number): number[] => {
+      const values: number[] = [];
+      for (let j = start; j < args.length - 1 && values.length < max && !isNaN(parseFloat(args[j])); j++) {
+        values.push(parseFloat(args[j]));
+      }
+      return values;
+    };
+
+    for (let i = 0; i < args.length; i++) {
+      switch (args[i]) {
+        case '-bm': {
+          const [multiplier] = takeNumbers(i + 1, 1);
+          if (multiplier !== undefined) options.bumpMultiplier = multiplier;
+          i += multiplier !== undefined ? 1 : 0;
+          break;
+        }
+        case '-s': {
+          const values = takeNumbers(i + 1, 3);
+          options.scale = [values[0] ?? 1, values[1] ?? values[0] ?? 1];
+          i += values.length;
+          break;
+        }
+        case '-o': {
+          const values = takeNumbers(i + 1, 3);
+          options.offset = [values[0] ?? 0, values[1] ?? 0];
+          i += values.length;
+          break;
+        }
+        default:
+          rest.push(args[i]);
+      }
+    }
+
+    // File names may contain spaces
+    const file = rest.join(' ').replace(/\\/g, '/');
+    options.url = /^(?:[a-z]+:)?\/\//i.test(file) || file.startsWith('data:') ? file : resourcePath + file;
+    return options;
+  }
+}
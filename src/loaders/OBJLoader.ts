@@ -4,208 +4,265 @@ import {
   FileLoader,
   Group,
   Loader,
+  LoaderUtils,
   LoadingManager,
   Material,
   Mesh,
-  MeshPhongMaterial,
-  Vector3
+  MeshPhongMaterial
 } from 'three';
-
-interface OBJParseResult {
-  geometries: BufferGeometry[];
-  materials: Material[];
-  groups: Group[];
-}
-
-interface ParsedObject {
-  vertices: number[];
-  normals: number[];
-  uvs: number[];
-  name: string;
-  material: string;
-}
+import { MTLLibrary, MTLLoader } from './MTLLoader';
+import { OBJParseResult, OBJStreamParser, ParsedMesh } from './objParser';
+import type { OBJWorkerMessage, OBJWorkerRequest } from './OBJLoader.worker';
 
 export class OBJLoader extends Loader {
+  private materialLibraries: MTLLibrary[] = [];
+  private useWorker: boolean = typeof Worker !== 'undefined';
+  // Cancel callbacks of loads still in flight
+  private pending = new Set<() => void>();
+
   constructor(manager?: LoadingManager) {
     super(manager);
   }
 
+  // Use already loaded material libraries instead of the `mtllib` files named in the OBJ
+  setMaterials(libraries: MTLLibrary[]): this {
+    this.materialLibraries = libraries;
+    return this;
+  }
+
+  // Fetch and parse in a Web Worker (default when available) or on the main thread
+  setUseWorker(useWorker: boolean): this {
+    this.useWorker = useWorker && typeof Worker !== 'undefined';
+    return this;
+  }
+
+  // Cancels every load in flight; their onError receives an AbortError
+  abort(): this {
+    for (const cancel of Array.from(this.pending)) {
+      cancel();
+    }
+    this.pending.clear();
+    return this;
+  }
+
   load(
     url: string,
     onLoad: (group: Group) => void,
     onProgress?: (event: ProgressEvent) => void,
-    onError?: (event: ErrorEvent) => void
+    onError?: (err: unknown) => void
+  ): void {
+    const handleError = (e: unknown) => {
+      if (onError) {
+        onError(e);
+      } else {
+        console.error(e);
+      }
+    };
+
+    const basePath = LoaderUtils.extractUrlBase(this.path + url);
+    const handleResult = (parsed: OBJParseResult) => {
+      const libraries = this.materialLibraries.length > 0 ? [] : parsed.materialLibraries;
+      this.loadMaterialLibraries(libraries, basePath).then((loaded) => {
+        try {
+          onLoad(this.createGroupFromMeshes(parsed.meshes, this.materialLibraries.concat(loaded)));
+        } catch (e) {
+          handleError(e);
+        }
+      });
+    };
+
+    if (this.useWorker) {
+      this.loadInWorker(url, handleResult, onProgress, handleError);
+    } else {
+      this.loadOnMainThread(url, handleResult, onProgress, handleError);
+    }
+  }
+
+  parse(text: string): Group {
+    const parser = new OBJStreamParser(text.length);
+    parser.push(text);
+    return this.createGroupFromMeshes(parser.finish().meshes, this.materialLibraries);
+  }
+
+  private loadOnMainThread(
+    url: string,
+    onResult: (parsed: OBJParseResult) => void,
+    onProgress: ((event: ProgressEvent) => void) | undefined,
+    onError: (err: unknown) => void
   ): void {
     const loader = new FileLoader(this.manager);
     loader.setPath(this.path);
     loader.setRequestHeader(this.requestHeader);
     loader.setWithCredentials(this.withCredentials);
 
+    // FileLoader cannot be interrupted, so an aborted load just drops its result
+    let aborted = false;
+    const cancel = () => {
+      aborted = true;
+      onError(createAbortError(url));
+    };
+    this.pending.add(cancel);
+
     loader.load(
       url,
       (text) => {
+        if (aborted) return;
+        this.pending.delete(cancel);
+
+        let parsed: OBJParseResult;
         try {
-          const result = this.parse(typeof text === 'string' ? text : new TextDecoder().decode(text));
-          onLoad(result);
+          const source = typeof text === 'string' ? text : new TextDecoder().decode(text);
+          const parser = new OBJStreamParser(source.length);
+          parser.push(source);
+          parsed = parser.finish();
         } catch (e) {
-          if (onError) {
-            onError(new ErrorEvent('error', { error: e as Error }));
-          } else {
-            console.error(e);
-          }
+          onError(e);
+          return;
         }
+        onResult(parsed);
       },
-      onProgress,
-      onError
+      (event) => {
+        if (!aborted && onProgress) onProgress(event);
+      },
+      (error) => {
+        if (aborted) return;
+        this.pending.delete(cancel);
+        onError(error);
+      }
     );
   }
 
-  parse(text: string): Group {
-    const lines = text.split('\n');
-    const objects: ParsedObject[] = [];
-    let currentObject: ParsedObject = this.createNewObject();
-
-    const vertices: number[] = [];
-    const normals: number[] = [];
-    const uvs: number[] = [];
-
-    // Regular expressions for parsing
-    const vertexPattern = /^v\s+([\d|\.|\+|\-|e|E]+)\s+([\d|\.|\+|\-|e|E]+)\s+([\d|\.|\+|\-|e|E]+)/;
-    const normalPattern = /^vn\s+([\d|\.|\+|\-|e|E]+)\s+([\d|\.|\+|\-|e|E]+)\s+([\d|\.|\+|\-|e|E]+)/;
-    const uvPattern = /^vt\s+([\d|\.|\+|\-|e|E]+)\s+([\d|\.|\+|\-|e|E]+)/;
-    const facePattern = /^f\s+(-?\d+)\/(-?\d+)\/(-?\d+)\s+(-?\d+)\/(-?\d+)\/(-?\d+)\s+(-?\d+)\/(-?\d+)\/(-?\d+)(?:\s+(-?\d+)\/(-?\d+)\/(-?\d+))?/;
-
-    for (let line of lines) {
-      line = line.trim();
-
-      if (line.length === 0 || line.charAt(0) === '#') continue;
-
-      const vertexMatch = vertexPattern.exec(line);
-      const normalMatch = normalPattern.exec(line);
-      const uvMatch = uvPattern.exec(line);
-      const faceMatch = facePattern.exec(line);
-
-      if (vertexMatch) {
-        vertices.push(
-          parseFloat(vertexMatch[1]),
-          parseFloat(vertexMatch[2]),
-          parseFloat(vertexMatch[3])
-        );
-      } else if (normalMatch) {
-        normals.push(
-          parseFloat(normalMatch[1]),
-          parseFloat(normalMatch[2]),
-          parseFloat(normalMatch[3])
-        );
-      } else if (uvMatch) {
-        uvs.push(
-          parseFloat(uvMatch[1]),
-          parseFloat(uvMatch[2])
-        );
-      } else if (faceMatch) {
-        this.addFaceVertices(currentObject, faceMatch, vertices, normals, uvs);
-      } else if (line.startsWith('o ')) {
-        if (currentObject.vertices.length > 0) {
-          objects.push(currentObject);
-        }
-        currentObject = this.createNewObject();
-        currentObject.name = line.substring(2).trim();
-      } else if (line.startsWith('usemtl ')) {
-        currentObject.material = line.substring(7).trim();
-      }
-    }
+  private loadInWorker(
+    url: string,
+    onResult: (parsed: OBJParseResult) => void,
+    onProgress: ((event: ProgressEvent) => void) | undefined,
+    onError: (err: unknown) => void
+  ): void {
+    const resolvedUrl = this.manager.resolveURL(this.path + url);
+    const worker = new Worker(new URL('./OBJLoader.worker.ts', import.meta.url), { type: 'module' });
 
-    if (currentObject.vertices.length > 0) {
-      objects.push(currentObject);
-    }
+    const finish = () => {
+      this.pending.delete(cancel);
+      worker.terminate();
+    };
+    const fail = (error: unknown) => {
+      finish();
+      this.manager.itemError(resolvedUrl);
+      this.manager.itemEnd(resolvedUrl);
+      onError(error);
+    };
+    const cancel = () => fail(createAbortError(url));
+    this.pending.add(cancel);
+    this.manager.itemStart(resolvedUrl);
 
-    return this.createGroupFromObjects(objects);
-  }
+    worker.addEventListener('message', (event: MessageEvent<OBJWorkerMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          if (onProgress) {
+            onProgress(new ProgressEvent('progress', {
+              lengthComputable: message.total > 0,
+              loaded: message.loaded,
+              total: Math.max(message.total, message.loaded)
+            }));
+          }
+          break;
+        case 'result':
+          finish();
+          onResult(message.result);
+          this.manager.itemEnd(resolvedUrl);
+          break;
+        case 'error':
+          fail(new Error(message.message));
+          break;
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      event.preventDefault();
+      fail(new Error(`OBJLoader: worker failed: ${event.message}`));
+    });
 
-  private createNewObject(): ParsedObject {
-    return {
-      vertices: [],
-      normals: [],
-      uvs: [],
-      name: '',
-      material: ''
+    const request: OBJWorkerRequest = {
+      // The worker resolves relative URLs against its own script, so send an absolute one
+      url: new URL(resolvedUrl, document.baseURI).href,
+      headers: this.requestHeader,
+      withCredentials: this.withCredentials
     };
+    worker.postMessage(request);
   }
 
-  private addFaceVertices(
-    object: ParsedObject,
-    match: RegExpExecArray,
-    vertices: number[],
-    normals: number[],
-    uvs: number[]
-  ): void {
-    const indices = [];
-    for (let i = 1; i < match.length; i += 3) {
-      if (!match[i]) break;
-      
-      const vertexIndex = parseInt(match[i]) - 1;
-      const uvIndex = parseInt(match[i + 1]) - 1;
-      const normalIndex = parseInt(match[i + 2]) - 1;
-
-      indices.push(vertexIndex, uvIndex, normalIndex);
-    }
-
-    // Add vertices
-    for (let i = 0; i < indices.length; i += 3) {
-      const vertexIndex = indices[i] * 3;
-      object.vertices.push(
-        vertices[vertexIndex],
-        vertices[vertexIndex + 1],
-        vertices[vertexIndex + 2]
-      );
-
-      const uvIndex = indices[i + 1] * 2;
-      if (uvs.length > 0) {
-        object.uvs.push(
-          uvs[uvIndex],
-          uvs[uvIndex + 1]
-        );
-      }
+  // A missing or broken library only costs its materials, so failures are logged rather than fatal
+  private loadMaterialLibraries(names: string[], basePath: string): Promise<MTLLibrary[]> {
+    const mtlLoader = new MTLLoader(this.manager);
+    mtlLoader.setPath(basePath);
+    mtlLoader.setRequestHeader(this.requestHeader);
+    mtlLoader.setWithCredentials(this.withCredentials);
 
-      const normalIndex = indices[i + 2] * 3;
-      if (normals.length > 0) {
-        object.normals.push(
-          normals[normalIndex],
-          normals[normalIndex + 1],
-          normals[normalIndex + 2]
-        );
-      }
-    }
+    return Promise.all(
+      names.map((name) =>
+        new Promise<MTLLibrary | null>((resolve) => {
+          mtlLoader.load(name, resolve, undefined, (error) => {
+            console.warn(`OBJLoader: could not load material library "${name}"`, error);
+            resolve(null);
+          });
+        })
+      )
+    ).then((libraries) => libraries.filter((library): library is MTLLibrary => library !== null));
   }
 
-  private createGroupFromObjects(objects: ParsedObject[]): Group {
+  private createGroupFromMeshes(meshes: ParsedMesh[], libraries: MTLLibrary[]): Group {
     const group = new Group();
+    const fallbackMaterials = new Map<string, Material>();
 
-    for (const object of objects) {
-      const geometry = new BufferGeometry();
-
-      if (object.vertices.length > 0) {
-        geometry.setAttribute('position', new BufferAttribute(new Float32Array(object.vertices), 3));
+    const resolveMaterial = (name: string): Material => {
+      for (const library of libraries) {
+        const material = library.create(name);
+        if (material) return material;
       }
 
-      if (object.normals.length > 0) {
-        geometry.setAttribute('normal', new BufferAttribute(new Float32Array(object.normals), 3));
+      let material = fallbackMaterials.get(name);
+      if (!material) {
+        material = new MeshPhongMaterial({ name });
+        fallbackMaterials.set(name, material);
       }
+      return material;
+    };
+
+    for (const parsed of meshes) {
+      const geometry = new BufferGeometry();
+
+      geometry.setAttribute('position', new BufferAttribute(parsed.positions, 3));
+      geometry.setAttribute('normal', new BufferAttribute(parsed.normals, 3));
 
-      if (object.uvs.length > 0) {
-        geometry.setAttribute('uv', new BufferAttribute(new Float32Array(object.uvs), 2));
+      if (parsed.uvs) {
+        geometry.setAttribute('uv', new BufferAttribute(parsed.uvs, 2));
       }
 
-      const material = new MeshPhongMaterial({
-        name: object.material
-      });
+      const vertexCount = parsed.positions.length / 3;
+      const runs = parsed.materialGroups;
+
+      let material: Material | Material[];
+      if (runs.length > 1) {
+        // One geometry group per material run, so a single mesh carries several materials
+        material = runs.map((run, i) => {
+          const end = i + 1 < runs.length ? runs[i + 1].start : vertexCount;
+          geometry.addGroup(run.start, end - run.start, i);
+          return resolveMaterial(run.name);
+        });
+      } else {
+        material = resolveMaterial(runs[0].name);
+      }
 
       const mesh = new Mesh(geometry, material);
-      mesh.name = object.name;
+      mesh.name = parsed.name;
 
       group.add(mesh);
     }
 
     return group;
   }
-}
\ No newline at end of file
+}
+
+function createAbortError(url: string): DOMException {
+  return new DOMException(`OBJLoader: load of ${url} was aborted`, 'AbortError');
+}
@@ -0,0 +1,63 @@
+import { OBJStreamParser, OBJParseResult } from './objParser';
+
+// Fetches and parses an OBJ file off the main thread. The text is parsed as it
+// streams in and the resulting typed arrays are transferred back to the caller.
+
+export interface OBJWorkerRequest {
+  url: string;
+  headers: { [header: string]: string };
+  withCredentials: boolean;
+}
+
+export type OBJWorkerMessage =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'result'; result: OBJParseResult }
+  | { type: 'error'; message: string; status?: number };
+
+const scope = self as unknown as Worker;
+
+function post(message: OBJWorkerMessage, transfer: Transferable[] = []): void {
+  scope.postMessage(message, transfer);
+}
+
+async function run(request: OBJWorkerRequest): Promise<void> {
+  const response = await fetch(request.url, {
+    headers: request.headers,
+    credentials: request.withCredentials ? 'include' : 'same-origin'
+  });
+  if (!response.ok || !response.body) {
+    post({ type: 'error', message: `HTTP ${response.status} loading ${request.url}`, status: response.status });
+    return;
+  }
+
+  // Content-Length is the compressed size when the server gzips, so it is only a hint
+  const total = parseInt(response.headers.get('Content-Length') || '0', 10) || 0;
+  const parser = new OBJStreamParser(total);
+  const decoder = new TextDecoder();
+  const reader = response.body.getReader();
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    loaded += value.byteLength;
+    parser.push(decoder.decode(value, { stream: true }));
+    post({ type: 'progress', loaded, total });
+  }
+  parser.push(decoder.decode());
+
+  const result = parser.finish();
+  const transfer: Transferable[] = [];
+  for (const mesh of result.meshes) {
+    transfer.push(mesh.positions.buffer, mesh.normals.buffer);
+    if (mesh.uvs) transfer.push(mesh.uvs.buffer);
+  }
+  post({ type: 'result', result }, transfer);
+}
+
+scope.addEventListener('message', (event: MessageEvent<OBJWorkerRequest>) => {
+  run(event.data).catch((error) => {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  });
+});
@@ -0,0 +1,416 @@
+import { ShapeUtils, Vector2, Vector3 } from 'three';
+
+// Streaming OBJ parser shared by OBJLoader and its worker. Text is pushed in
+// chunks as it arrives and written straight into growable typed arrays, so the
+// result can be transferred between threads without copying.
+
+export interface MaterialGroup {
+  name: string;
+  // First vertex of the run, relative to its mesh
+  start: number;
+}
+
+export interface ParsedMesh {
+  name: string;
+  positions: Float32Array;
+  normals: Float32Array;
+  uvs: Float32Array | null;
+  materialGroups: MaterialGroup[];
+}
+
+export interface OBJParseResult {
+  meshes: ParsedMesh[];
+  materialLibraries: string[];
+}
+
+interface ObjectRange {
+  name: string;
+  start: number;
+  hasUVs: boolean;
+  // Starts are absolute vertex indices while parsing
+  materialGroups: MaterialGroup[];
+}
+
+// Resolved zero-based indices of one face corner; -1 when the corner has no uv or normal
+interface FaceVertex {
+  position: number;
+  uv: number;
+  normal: number;
+}
+
+class ArrayBuilder<T extends Float32Array | Int32Array> {
+  array: T;
+  length = 0;
+  private create: (size: number) => T;
+
+  constructor(create: (size: number) => T, capacity: number) {
+    this.create = create;
+    this.array = create(Math.max(capacity, 64));
+  }
+
+  push(value: number): void {
+    if (this.length === this.array.length) {
+      const grown = this.create(this.array.length * 2);
+      grown.set(this.array);
+      this.array = grown;
+    }
+    this.array[this.length++] = value;
+  }
+
+  push3(a: number, b: number, c: number): void {
+    this.push(a);
+    this.push(b);
+    this.push(c);
+  }
+
+  slice(start: number, end: number): T {
+    return this.array.slice(start, end) as T;
+  }
+}
+
+const floats = (size: number) => new Float32Array(size);
+const ints = (size: number) => new Int32Array(size);
+
+export class OBJStreamParser {
+  // Source data as declared by v, vn and vt
+  private vertices: ArrayBuilder<Float32Array>;
+  private normals: ArrayBuilder<Float32Array>;
+  private uvs: ArrayBuilder<Float32Array>;
+
+  // Emitted triangle-list data, one entry per face corner
+  private outPositions: ArrayBuilder<Float32Array>;
+  private outNormals: ArrayBuilder<Float32Array>;
+  private outUVs: ArrayBuilder<Float32Array>;
+  private outPositionIndices: ArrayBuilder<Int32Array>;
+  private outSmoothingGroups: ArrayBuilder<Int32Array>;
+  private missingNormals: ArrayBuilder<Int32Array>;
+
+  private objects: ObjectRange[] = [];
+  private materialLibraries: string[] = [];
+  private smoothingGroup = 0;
+  private remainder = '';
+  private lineNumber = 0;
+
+  // `sizeHint` is the expected text length, used to preallocate the arrays
+  constructor(sizeHint: number = 0) {
+    // Rough densities measured on exported anatomy models
+    const sourceFloats = sizeHint / 10;
+    const emittedVertices = sizeHint / 16;
+
+    this.vertices = new ArrayBuilder(floats, sourceFloats);
+    this.normals = new ArrayBuilder(floats, sourceFloats);
+    this.uvs = new ArrayBuilder(floats, sourceFloats / 2);
+    this.outPositions = new ArrayBuilder(floats, emittedVertices * 3);
+    this.outNormals = new ArrayBuilder(floats, emittedVertices * 3);
+    this.outUVs = new ArrayBuilder(floats, emittedVertices * 2);
+    this.outPositionIndices = new ArrayBuilder(ints, emittedVertices);
+    this.outSmoothingGroups = new ArrayBuilder(ints, emittedVertices);
+    this.missingNormals = new ArrayBuilder(ints, 0);
+
+    this.startObject('', '');
+  }
+
+  push(chunk: string): void {
+    const text = this.remainder + chunk;
+    let lineStart = 0;
+    let newline = text.indexOf('\n');
+
+    while (newline !== -1) {
+      // Continuation lines end with a backslash and are joined with the next one
+      if (text.charAt(newline - 1) === '\\' || (text.charAt(newline - 1) === '\r' && text.charAt(newline - 2) === '\\')) {
+        newline = text.indexOf('\n', newline + 1);
+        continue;
+      }
+      this.parseLine(text.substring(lineStart, newline));
+      lineStart = newline + 1;
+      newline = text.indexOf('\n', lineStart);
+    }
+
+    this.remainder = text.substring(lineStart);
+  }
+
+  finish(): OBJParseResult {
+    if (this.remainder.length > 0) {
+      this.parseLine(this.remainder);
+      this.remainder = '';
+    }
+
+    this.computeMissingNormals();
+
+    const vertexCount = this.outPositions.length / 3;
+    const meshes: ParsedMesh[] = [];
+
+    this.objects.forEach((object, i) => {
+      const end = i + 1 < this.objects.length ? this.objects[i + 1].start : vertexCount;
+      if (end === object.start) return;
+
+      // Drop runs without vertices and rebase the rest on the mesh
+      const materialGroups = object.materialGroups
+        .filter((run, j, all) => run.start < (j + 1 < all.length ? all[j + 1].start : end))
+        .map((run) => ({ name: run.name, start: run.start - object.start }));
+
+      meshes.push({
+        name: object.name,
+        positions: this.outPositions.slice(object.start * 3, end * 3),
+        normals: this.outNormals.slice(object.start * 3, end * 3),
+        uvs: object.hasUVs ? this.outUVs.slice(object.start * 2, end * 2) : null,
+        materialGroups
+      });
+    });
+
+    return { meshes, materialLibraries: this.materialLibraries };
+  }
+
+  private get currentObject(): ObjectRange {
+    return this.objects[this.objects.length - 1];
+  }
+
+  private startObject(name: string, material: string): void {
+    const start = this.outPositions.length / 3;
+    const current = this.objects[this.objects.length - 1];
+
+    // An object without faces is simply renamed
+    if (current && current.start === start) {
+      current.name = name;
+      return;
+    }
+    this.objects.push({ name, start, hasUVs: false, materialGroups: [{ name: material, start }] });
+  }
+
+  private parseLine(rawLine: string): void {
+    this.lineNumber += 1 + (rawLine.match(/\\\r?\n/g) || []).length;
+    const line = rawLine.replace(/\\\r?\n/g, ' ').trim();
+
+    if (line.length === 0 || line.charAt(0) === '#') return;
+
+    const tokens = line.split(/\s+/);
+    const keyword = tokens[0];
+
+    switch (keyword) {
+      case 'v':
+        this.vertices.push3(parseFloat(tokens[1]), parseFloat(tokens[2]), parseFloat(tokens[3]));
+        break;
+      case 'vn':
+        this.normals.push3(parseFloat(tokens[1]), parseFloat(tokens[2]), parseFloat(tokens[3]));
+        break;
+      case 'vt':
+        this.uvs.push(parseFloat(tokens[1]));
+        this.uvs.push(parseFloat(tokens[2] ?? '0'));
+        break;
+      case 'f':
+        this.addFace(tokens.slice(1));
+        break;
+      case 'o':
+      case 'g': {
+        const runs = this.currentObject.materialGroups;
+        this.startObject(line.substring(keyword.length).trim(), runs[runs.length - 1].name);
+        break;
+      }
+      case 's':
+        // "s off" and "s 0" both disable smoothing
+        this.smoothingGroup = tokens[1] === 'off' ? 0 : parseInt(tokens[1], 10) || 0;
+        break;
+      case 'usemtl':
+        this.setActiveMaterial(line.substring(7).trim());
+        break;
+      case 'mtllib':
+        // Several libraries may be listed on one line
+        this.materialLibraries.push(...tokens.slice(1));
+        break;
+    }
+  }
+
+  // A `usemtl` before any face of the current run just renames it; otherwise a new run starts
+  private setActiveMaterial(name: string): void {
+    const start = this.outPositions.length / 3;
+    const runs = this.currentObject.materialGroups;
+    const active = runs[runs.length - 1];
+
+    if (active.start === start) {
+      active.name = name;
+    } else if (active.name !== name) {
+      runs.push({ name, start });
+    }
+  }
+
+  // Resolves a 1-based OBJ index; negative values count back from the last element read so far
+  private resolveIndex(value: string, count: number, kind: string): number {
+    const index = parseInt(value, 10);
+    const resolved = index < 0 ? count + index : index - 1;
+
+    if (isNaN(index) || index === 0 || resolved < 0 || resolved >= count) {
+      throw new Error(`OBJLoader: invalid ${kind} index "${value}" on line ${this.lineNumber}`);
+    }
+    return resolved;
+  }
+
+  private addFace(corners: string[]): void {
+    if (corners.length < 3) {
+      throw new Error(`OBJLoader: face with fewer than 3 vertices on line ${this.lineNumber}`);
+    }
+
+    // Each corner is v, v/vt, v//vn or v/vt/vn
+    const face: FaceVertex[] = corners.map((corner) => {
+      const [v, vt, vn] = corner.split('/');
+      return {
+        position: this.resolveIndex(v, this.vertices.length / 3, 'vertex'),
+        uv: vt ? this.resolveIndex(vt, this.uvs.length / 2, 'texture') : -1,
+        normal: vn ? this.resolveIndex(vn, this.normals.length / 3, 'normal') : -1
+      };
+    });
+
+    const vertices = this.vertices.array;
+    const normals = this.normals.array;
+    const uvs = this.uvs.array;
+
+    for (const triangle of this.triangulate(face)) {
+      for (const corner of triangle) {
+        const vertexIndex = this.outPositions.length / 3;
+        const p = corner.position * 3;
+        this.outPositions.push3(vertices[p], vertices[p + 1], vertices[p + 2]);
+        this.outPositionIndices.push(corner.position);
+        this.outSmoothingGroups.push(this.smoothingGroup);
+
+        if (corner.uv >= 0) {
+          this.outUVs.push(uvs[corner.uv * 2]);
+          this.outUVs.push(uvs[corner.uv * 2 + 1]);
+          this.currentObject.hasUVs = true;
+        } else {
+          this.outUVs.push(0);
+          this.outUVs.push(0);
+        }
+
+        if (corner.normal >= 0) {
+          const n = corner.normal * 3;
+          this.outNormals.push3(normals[n], normals[n + 1], normals[n + 2]);
+        } else {
+          this.outNormals.push3(0, 0, 0);
+          this.missingNormals.push(vertexIndex);
+        }
+      }
+    }
+  }
+
+  // Triangles and quads are fanned; larger polygons are projected onto their
+  // best-fit plane and ear-clipped so concave outlines come out right.
+  private triangulate(face: FaceVertex[]): FaceVertex[][] {
+    if (face.length <= 4) {
+      const triangles: FaceVertex[][] = [];
+      for (let i = 1; i < face.length - 1; i++) {
+        triangles.push([face[0], face[i], face[i + 1]]);
+      }
+      return triangles;
+    }
+
+    const points = face.map((corner) => new Vector3().fromArray(this.vertices.array, corner.position * 3));
+
+    // Newell's method gives a stable normal for non-planar polygons
+    const normal = new Vector3();
+    for (let i = 0; i < points.length; i++) {
+      const current = points[i];
+      const next = points[(i + 1) % points.length];
+      normal.x += (current.y - next.y) * (current.z + next.z);
+      normal.y += (current.z - next.z) * (current.x + next.x);
+      normal.z += (current.x - next.x) * (current.y + next.y);
+    }
+    normal.normalize();
+
+    const tangent = new Vector3();
+    if (Math.abs(normal.x) > 0.9) tangent.set(0, 1, 0);
+    else tangent.set(1, 0, 0);
+    tangent.cross(normal).normalize();
+    const bitangent = new Vector3().crossVectors(normal, tangent);
+
+    const contour = points.map((point) => new Vector2(point.dot(tangent), point.dot(bitangent)));
+    if (ShapeUtils.isClockWise(contour)) {
+      contour.reverse();
+      face = face.slice().reverse();
+    }
+
+    return ShapeUtils.triangulateShape(contour, []).map((triangle) => triangle.map((i) => face[i]));
+  }
+
+  // Fills normals the file did not provide: flat per face when smoothing is off,
+  // otherwise averaged over faces sharing the vertex within the same object and smoothing group.
+  private computeMissingNormals(): void {
+    if (this.missingNormals.length === 0) return;
+
+    const positions = this.outPositions.array;
+    const positionIndices = this.outPositionIndices.array;
+    const smoothingGroups = this.outSmoothingGroups.array;
+    const objectStarts = this.objects.map((object) => object.start);
+
+    const objectOf = (vertexIndex: number): number => {
+      let low = 0;
+      let high = objectStarts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (objectStarts[mid] <= vertexIndex) low = mid;
+        else high = mid - 1;
+      }
+      return low;
+    };
+    const keyOf = (vertexIndex: number): string =>
+      `${objectOf(vertexIndex)}:${positionIndices[vertexIndex]}:${smoothingGroups[vertexIndex]}`;
+
+    const a = new Vector3();
+    const b = new Vector3();
+    const c = new Vector3();
+    const faceNormal = new Vector3();
+    const accumulated = new Map<string, Vector3>();
+    const faceNormals = new Map<number, Vector3>();
+
+    // Only faces touching a missing normal matter
+    for (let m = 0; m < this.missingNormals.length; m++) {
+      const face = Math.floor(this.missingNormals.array[m] / 3);
+      if (faceNormals.has(face)) continue;
+
+      a.fromArray(positions, face * 9);
+      b.fromArray(positions, face * 9 + 3);
+      c.fromArray(positions, face * 9 + 6);
+      // Area-weighted: the cross product is left unnormalised
+      faceNormal.subVectors(c, b).cross(a.sub(b));
+      faceNormals.set(face, faceNormal.clone());
+    }
+
+    // Smoothed normals also need every face of the group around the vertex
+    const vertexCount = this.outPositions.length / 3;
+    const wanted = new Set<string>();
+    for (let m = 0; m < this.missingNormals.length; m++) {
+      const vertexIndex = this.missingNormals.array[m];
+      if (smoothingGroups[vertexIndex] !== 0) wanted.add(keyOf(vertexIndex));
+    }
+    if (wanted.size > 0) {
+      for (let vertexIndex = 0; vertexIndex < vertexCount; vertexIndex++) {
+        if (smoothingGroups[vertexIndex] === 0) continue;
+        const key = keyOf(vertexIndex);
+        if (!wanted.has(key)) continue;
+
+        const face = Math.floor(vertexIndex / 3);
+        let normal = faceNormals.get(face);
+        if (!normal) {
+          a.fromArray(positions, face * 9);
+          b.fromArray(positions, face * 9 + 3);
+          c.fromArray(positions, face * 9 + 6);
+          normal = new Vector3().subVectors(c, b).cross(a.sub(b));
+          faceNormals.set(face, normal);
+        }
+
+        const sum = accumulated.get(key);
+        if (sum) sum.add(normal);
+        else accumulated.set(key, normal.clone());
+      }
+    }
+
+    const normal = new Vector3();
+    for (let m = 0; m < this.missingNormals.length; m++) {
+      const vertexIndex = this.missingNormals.array[m];
+      if (smoothingGroups[vertexIndex] === 0) {
+        normal.copy(faceNormals.get(Math.floor(vertexIndex / 3))!);
+      } else {
+        normal.copy(accumulated.get(keyOf(vertexIndex))!);
+      }
+      normal.normalize().toArray(this.outNormals.array, vertexIndex * 3);
+    }
+  }
+}
@@ -1,6 +1,82 @@
 import * as THREE from 'three';
 import { OrbitControls } from './controls/OrbitControls';
+import { PointDragControls } from './controls/PointDragControls';
+import { PointPicker } from './controls/PointPicker';
+import { SurfacePicker } from './controls/SurfacePicker';
 import $ from 'jquery';
+import {
+  Acupoint,
+  AcupointAnchor,
+  AcupointDataset,
+  AnchorView,
+  CONTENT_SECTIONS,
+  Laterality,
+  LATERALITIES
+} from './data/AcupointDataset';
+import { ContentTranslations } from './data/ContentTranslations';
+import { isNomenclatureSystem, NOMENCLATURE_SYSTEMS } from './data/nomenclature';
+import { LEGACY_BODY_OFFSET_Y } from './data/legacyImporter';
+import { Localization } from './i18n/Localization';
+import { isLocaleCode, LOCALES } from './i18n/locales';
+import { OBJLoader } from './loaders/OBJLoader';
+import { CunScale } from './measure/CunScale';
+import { MeasureOverlay } from './scene/MeasureOverlay';
+import { MeridianChannels } from './scene/MeridianChannels';
+import { OcclusionMap } from './scene/OcclusionMap';
+import { meridianColorCss } from './scene/meridianColors';
+import { modelProfileFor } from './scene/modelProfiles';
+import { PointBadges } from './scene/PointBadges';
+import { onSide, PointInstance, PointMarkers } from './scene/PointMarkers';
+import { otherSide, SagittalMirror } from './scene/SagittalMirror';
+import { SurfaceAnchorResolver, SurfacePlacement } from './scene/SurfaceAnchors';
+import { resolveViewPreset } from './scene/ViewPresets';
+import { DEFAULT_XRAY_SETTINGS, XRaySettings, XRayView } from './scene/XRayView';
+import { PointSearchIndex } from './search/PointSearchIndex';
+import { AppRoute, HashRouter } from './state/AppRoute';
+import { AuthoringSession } from './state/AuthoringSession';
+import { PatientStore, TreatmentSession } from './state/PatientStore';
+import { PrescriptionDraft, PrescriptionItem } from './state/Prescription';
+import { PrescriptionStore } from './state/PrescriptionStore';
+import { SelectionChangeEvent, SelectionModel } from './state/SelectionModel';
+import { StudyStore } from './state/StudyStore';
+import { QuizQuestion } from './study/StudySession';
+import { AuthoringPanel } from './ui/AuthoringPanel';
+import { LiveAnnouncer } from './ui/LiveAnnouncer';
+import { cunLandmarkLabel, MeasurePanel } from './ui/MeasurePanel';
+import { PatientLogPanel } from './ui/PatientLogPanel';
+import { LabelAnchor, PointLabels } from './ui/PointLabels';
+import { printHandout } from './ui/PrescriptionHandout';
+import { PrescriptionPanel } from './ui/PrescriptionPanel';
+import { MeridianLegend } from './ui/MeridianLegend';
+import { SearchBox } from './ui/SearchBox';
+import { StudyPanel } from './ui/StudyPanel';
+import { viewPresetLabel, ViewToolbar } from './ui/ViewToolbar';
+import { XRayPanel } from './ui/XRayPanel';
+
+const DATASET_URL = new URL('./data/acupoints.json', import.meta.url).href;
+const TRANSLATIONS_URL = new URL('./data/translations.json', import.meta.url).href;
+const MODEL_URL = new URL('./three/modelo/corpo.obj', import.meta.url).href;
+// Key of the model's profile in modelProfiles.ts; the built URL carries a content hash
+const MODEL_ID = 'corpo';
+
+// Height of the body in world units once fitted to the view
+const BODY_HEIGHT = 1.7;
+// Authoring key nudge in legacy units, the step acu_pos.html used
+const NUDGE_STEP = 0.1;
+// Wait for the camera to settle before writing it to the URL
+const ROUTE_CAMERA_DELAY = 300;
+// Camera distance in metres when framing a point along its surface normal
+const FOCUS_DISTANCE = 1.2;
+// Time on each point when replaying a session, long enough for the camera to arrive
+const REPLAY_STEP = 2500;
+
+// Direction from a point towards the camera for each view; the body faces +z
+const VIEW_DIRECTIONS: { [view in AnchorView]: THREE.Vector3 } = {
+  anterior: new THREE.Vector3(0, 0, 1),
+  posterior: new THREE.Vector3(0, 0, -1),
+  left: new THREE.Vector3(1, 0, 0),
+  right: new THREE.Vector3(-1, 0, 0)
+};
 
 class AcupunctureApp {
   private scene: THREE.Scene;
@@ -8,6 +84,83 @@ class AcupunctureApp {
   private renderer: THREE.WebGLRenderer;
   private controls: OrbitControls;
   private humanModel: THREE.Group | null = null;
+  // Legacy scene frame: holds the body and anything positioned from dataset anchors
+  private bodyRoot = new THREE.Group();
+  private bodyMaterial = new THREE.MeshPhongMaterial({
+    color: 0xf1c7a8,
+    side: THREE.DoubleSide,
+    transparent: true,
+    opacity: DEFAULT_XRAY_SETTINGS.opacity
+  });
+  private dataset: AcupointDataset | null = null;
+  private selection = new SelectionModel();
+  private markers = new PointMarkers();
+  private channels = new MeridianChannels();
+  private hiddenMeridians = new Set<string>();
+  private legend: MeridianLegend;
+  private viewToolbar: ViewToolbar;
+  // Interface language and the translations of the point content
+  private i18n = new Localization();
+  private translations = ContentTranslations.empty();
+  private searchBox: SearchBox;
+  private searchActive = false;
+  // URL state: the view of the current link, and a guard so applying a route does not write it back
+  private router = new HashRouter();
+  private routeView: AnchorView | null = null;
+  private applyingRoute = false;
+  private modelSettled = false;
+  private initialRouteApplied = false;
+  private cameraRouteTimer = 0;
+  // Anchors resolved on the body surface, in the bodyRoot frame
+  private placements = new Map<string, SurfacePlacement>();
+  // The other side of bilateral points, mirrored from their placement
+  private mirroredPlacements = new Map<string, SurfacePlacement>();
+  private sagittal = new SagittalMirror();
+  private resolver: SurfaceAnchorResolver | null = null;
+  private picker: PointPicker;
+  private tooltip: HTMLElement;
+  // Codes over the markers, hidden behind the body by its depth as seen from the camera
+  private pointLabels: PointLabels;
+  private occlusion = new OcclusionMap();
+  // Authoring mode; the session outlives the panel so leaving the mode keeps the edits
+  private authoring: AuthoringSession | null = null;
+  private authoringPanel: AuthoringPanel | null = null;
+  private dragControls: PointDragControls;
+  private snapToSurface = true;
+  private nudging = false;
+  private announcer = new LiveAnnouncer();
+  private modelProfile = modelProfileFor(MODEL_ID);
+  private viewPresets = this.modelProfile.viewPresets;
+  // Bounds of the model in the legacy frame, for placing view presets
+  private modelBounds: THREE.Box3 | null = null;
+  // Measurement tool: ruler ends on the surface, the marker placed along a meridian,
+  // and the cun calibration, measured on first use and again after edits
+  private measurePanel: MeasurePanel | null = null;
+  private measureOverlay = new MeasureOverlay();
+  private surfacePicker: SurfacePicker;
+  private rulerEnds: SurfacePlacement[] = [];
+  private walkTarget: SurfacePlacement | null = null;
+  private cunScale: CunScale | null = null;
+  // Prescription builder; the draft is kept while the panel is closed
+  private prescription = new PrescriptionDraft();
+  private prescriptionStore = new PrescriptionStore();
+  private prescriptionPanel: PrescriptionPanel | null = null;
+  private prescriptionBadges = new PointBadges();
+  // Patient log, opened on first use; a replayed session takes over the prescription markers
+  private patientStore: PatientStore | null = null;
+  private patientLogPanel: PatientLogPanel | null = null;
+  private replayItems: PrescriptionItem[] | null = null;
+  private replayTimer = 0;
+
+  private studyStore = new StudyStore();
+  private studyPanel: StudyPanel | null = null;
+  private studyQuestion: QuizQuestion | null = null;
+  private studyRevealed = false;
+  // Side of a bilateral point a locate answer was scored against
+  private studySide: Laterality = 'bilateral';
+  // Skin opacity and clipping planes; the view goes back to normal when the panel closes
+  private xray = new XRayView();
+  private xrayPanel: XRayPanel | null = null;
 
   constructor(container: HTMLElement) {
     // Initialize scene
@@ -24,23 +177,118 @@ class AcupunctureApp {
     this.camera.position.set(0, 1.5, 3);
 
     // Initialize renderer
-    this.renderer = new THREE.WebGLRenderer({ antialias: true });
+    // The stencil buffer caps the cross-sections of clipped bodies
+    this.renderer = new THREE.WebGLRenderer({ antialias: true, stencil: true });
+    this.renderer.localClippingEnabled = true;
     this.renderer.setSize(container.clientWidth, container.clientHeight);
     this.renderer.setPixelRatio(window.devicePixelRatio);
     container.appendChild(this.renderer.domElement);
 
+    // The canvas takes keyboard focus; the help text is read when it does
+    const canvas = this.renderer.domElement;
+    const help = document.createElement('p');
+    help.id = 'viewer-help';
+    help.className = 'visually-hidden';
+    container.appendChild(help);
+    container.appendChild(this.announcer.element);
+    canvas.tabIndex = 0;
+    canvas.setAttribute('role', 'application');
+    canvas.setAttribute('aria-describedby', help.id);
+    this.updateViewerLabels();
+
     // Initialize controls
     this.controls = new OrbitControls(this.camera, this.renderer.domElement);
     this.controls.enableDamping = true;
     this.controls.dampingFactor = 0.05;
-    this.controls.minDistance = 1;
+    // Close enough for the hand and foot presets
+    this.controls.minDistance = 0.3;
     this.controls.maxDistance = 10;
+    this.controls.listenToKeyEvents(this.renderer.domElement);
 
     // Add lights
     this.setupLights();
 
     // Load human model
-    this.loadHumanModel();
+    this.scene.add(this.bodyRoot);
+    this.bodyRoot.add(this.markers);
+    this.bodyRoot.add(this.channels);
+    this.bodyRoot.add(this.measureOverlay);
+    this.bodyRoot.add(this.prescriptionBadges);
+    this.bodyRoot.add(this.xray);
+    this.prescription.addEventListener('change', () => this.onPrescriptionChange());
+    this.loadHumanModel(container);
+
+    this.pointLabels = new PointLabels(this.i18n, (pointId, side) => this.markers.isShown(pointId, side));
+    container.appendChild(this.pointLabels.element);
+
+    // Pointer picking of point markers
+    this.tooltip = document.createElement('div');
+    this.tooltip.id = 'point-tooltip';
+    container.appendChild(this.tooltip);
+
+    this.legend = new MeridianLegend(this.i18n, (meridianId, visible) => this.setMeridianVisible(meridianId, visible));
+    container.appendChild(this.legend.element);
+
+    this.viewToolbar = new ViewToolbar(this.viewPresets, this.i18n, (presetId) => this.showViewPreset(presetId));
+    container.appendChild(this.viewToolbar.element);
+
+    this.searchBox = new SearchBox({
+      i18n: this.i18n,
+      onSelect: (pointId) => this.selection.select(pointId, 'sidebar'),
+      onResultsChange: (active) => {
+        this.searchActive = active;
+        // Only the points found stay on the model
+        this.markers.setFilter(active ? this.searchBox.resultIds : null);
+        $('#point-lists').toggle(!active);
+        this.syncSidebar(this.selection.pointId ? this.dataset?.get(this.selection.pointId) : undefined, false);
+      }
+    });
+
+    this.picker = new PointPicker(this.camera, this.renderer.domElement, (raycaster) => this.markers.pick(raycaster));
+    this.picker.addEventListener('hover', (event) => this.onPointHover(event.pointId, event.clientX, event.clientY, event.laterality));
+    this.picker.addEventListener('pick', (event) => this.selection.select(event.pointId, 'viewer', event.laterality));
+    this.selection.addEventListener('change', (event) => this.onSelectionChange(event));
+    this.i18n.addEventListener('change', () => this.onLocaleChange());
+
+    // Dragging points in authoring mode
+    this.dragControls = new PointDragControls(
+      this.camera,
+      this.renderer.domElement,
+      (raycaster) => this.markers.pick(raycaster),
+      () => this.humanModel,
+      (point) => this.xray.isClipped(point)
+    );
+    this.dragControls.addEventListener('dragstart', (event) => this.onDragStart(event.pointId));
+    this.dragControls.addEventListener('drag', (event) => this.onDrag(event.pointId, event.point));
+    this.dragControls.addEventListener('dragend', () => this.onDragEnd());
+    this.dragControls.addEventListener('place', (event) => this.onPlace(event.point));
+
+    this.surfacePicker = new SurfacePicker(
+      this.camera,
+      this.renderer.domElement,
+      () => this.humanModel,
+      (point) => this.xray.isClipped(point)
+    );
+    this.surfacePicker.addEventListener('pick', (event) => {
+      if (this.studyPanel) {
+        this.onStudyPick(event.point);
+      } else {
+        this.onRulerPick(event.point);
+      }
+    });
+    window.addEventListener('keydown', (event) => this.onAuthoringKeyDown(event));
+    window.addEventListener('keyup', (event) => this.onAuthoringKeyUp(event));
+    window.addEventListener('keydown', (event) => this.onNavigationKeyDown(event));
+    window.addEventListener('beforeunload', (event) => {
+      if (this.authoring?.dirty) event.preventDefault();
+    });
+
+    // Deep links: back/forward and edited links restore the state they describe
+    this.router.addEventListener('change', (event) => this.applyRoute(event.route));
+    this.controls.addEventListener('change', () => {
+      window.clearTimeout(this.cameraRouteTimer);
+      this.cameraRouteTimer = window.setTimeout(() => this.updateRoute(true), ROUTE_CAMERA_DELAY);
+    });
 
     // Add grid helper for reference
     const gridHelper = new THREE.GridHelper(10, 10);
@@ -71,155 +319,1370 @@ class AcupunctureApp {
     this.scene.add(hemisphereLight);
   }
 
-  private loadHumanModel(): void {
-    // Create a simple placeholder model (sphere) until we load the actual model
-    const geometry = new THREE.SphereGeometry(1, 32, 32);
-    const material = new THREE.MeshPhongMaterial({ 
-      color: 0xffaa00,
-      wireframe: false,
-      transparent: true,
-      opacity: 0.7
+  private loadHumanModel(container: HTMLElement): void {
+    const overlay = document.createElement('div');
+    overlay.id = 'loading-overlay';
+    overlay.innerHTML = '<div class="loading-label"></div><div class="progress"><div class="progress-bar"></div></div>' +
+      '<button type="button" class="btn btn-outline-secondary btn-sm loading-cancel"></button>';
+    container.appendChild(overlay);
+
+    const $label = $(overlay).find('.loading-label').text(this.i18n.t('loading.model'));
+    const $bar = $(overlay).find('.progress-bar');
+
+    const loader = new OBJLoader();
+    $(overlay).find('.loading-cancel').text(this.i18n.t('loading.cancel')).on('click', () => loader.abort());
+    loader.load(
+      MODEL_URL,
+      (object) => {
+        // corpo.obj was placed 95 units down in the legacy scene; the dataset anchors use that frame
+        object.position.y = LEGACY_BODY_OFFSET_Y;
+        object.traverse((child) => {
+          if (child instanceof THREE.Mesh) {
+            // Keep materials defined by the model's .mtl; anything else gets the default skin
+            const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+            const resolved = materials.map((material) => (material.userData.mtllib ? material : this.bodyMaterial));
+            child.material = Array.isArray(child.material) ? resolved : resolved[0];
+          }
+        });
+
+        this.humanModel = object;
+        this.bodyRoot.add(object);
+        this.fitBodyToView();
+        this.xray.setModel(object, this.modelBounds || new THREE.Box3());
+        this.occlusion.setModel(object);
+        this.sagittal = SagittalMirror.fromModel(object, this.bodyRoot);
+        this.resolver = new SurfaceAnchorResolver(object, this.bodyRoot);
+        this.resolveAnchors();
+        overlay.remove();
+        this.modelSettled = true;
+        this.applyInitialRoute();
+      },
+      (event) => {
+        if (event.lengthComputable) {
+          const percent = Math.round((event.loaded / event.total) * 100);
+          $bar.css('width', `${percent}%`);
+          $label.text(this.i18n.t('loading.progress', { percent }));
+        }
+      },
+      (error) => {
+        this.modelSettled = true;
+        this.applyInitialRoute();
+        overlay.classList.add('error');
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          $label.text(this.i18n.t('loading.cancelled'));
+          return;
+        }
+        console.error(error);
+        $label.text(this.i18n.t('loading.error'));
+      }
+    );
+  }
+
+  // Scale and center the legacy frame so the body stands on the grid at BODY_HEIGHT.
+  // Points are children of bodyRoot, so they move with the body.
+  private fitBodyToView(): void {
+    if (!this.humanModel) return;
+
+    this.bodyRoot.scale.setScalar(1);
+    this.bodyRoot.position.set(0, 0, 0);
+    this.bodyRoot.updateMatrixWorld(true);
+
+    const box = new THREE.Box3().setFromObject(this.humanModel);
+    this.modelBounds = box.clone();
+    const size = box.getSize(new THREE.Vector3());
+    const center = box.getCenter(new THREE.Vector3());
+    const scale = BODY_HEIGHT / size.y;
+
+    this.bodyRoot.scale.setScalar(scale);
+    this.bodyRoot.position.set(-center.x * scale, -box.min.y * scale, -center.z * scale);
+    this.bodyRoot.updateMatrixWorld(true);
+
+    this.controls.target.set(0, BODY_HEIGHT / 2, 0);
+    this.controls.update();
+  }
+
+  // The model and the dataset load independently; whichever arrives last places the markers
+  private resolveAnchors(): void {
+    if (!this.dataset) return;
+
+    this.placements.clear();
+    this.mirroredPlacements.clear();
+    this.cunScale = null;
+    const resolver = this.resolver;
+    if (resolver) {
+      this.dataset.points.forEach(point => {
+        if (!point.anchor) return;
+
+        const placement = resolver.resolve(point.anchor);
+        if (!placement) return;
+        if (placement.projected && point.anchor.surface) {
+          console.warn(`Surface anchor of ${point.id} does not match the model; projected its legacy position`);
+        }
+        this.placements.set(point.id, placement);
+
+        const mirrored = point.symmetry === 'bilateral' ? this.sagittal.mirror(placement, resolver) : null;
+        if (mirrored) this.mirroredPlacements.set(point.id, mirrored);
+      });
+    }
+
+    const instances = new Map<string, PointInstance[]>();
+    this.dataset.points.forEach(point => instances.set(point.id, this.getInstances(point)));
+    this.markers.setPoints(this.dataset.points, instances);
+    const anchors = new Map<string, LabelAnchor[]>();
+    this.dataset.points.forEach(point => anchors.set(point.id, this.getLabelAnchors(point, instances.get(point.id) || [])));
+    this.pointLabels.setPoints(this.dataset.points, anchors);
+    this.updatePrescriptionMarkers();
+    this.channels.setChannels(
+      this.dataset,
+      (pointId) => this.getPointPosition(pointId),
+      resolver,
+      (pointId) => this.getMirroredPosition(pointId)
+    );
+  }
+
+  // Where the markers of a point go: its position and, for bilateral points, the
+  // mirrored one on the other side of the body
+  private getInstances(point: Acupoint): PointInstance[] {
+    const position = this.getPointPosition(point.id);
+    return position ? this.instancesAt(point, position, this.getMirroredPosition(point.id)) : [];
+  }
+
+  // Labels go where the markers are; the normal hides them on the far side of the body
+  private getLabelAnchors(point: Acupoint, instances: PointInstance[]): LabelAnchor[] {
+    return instances.map(instance => {
+      const placement = this.getPlacement(point.id, instance.side || 'bilateral');
+      return { ...instance, normal: placement ? placement.normal.clone() : null };
     });
-    const humanPlaceholder = new THREE.Mesh(geometry, material);
-    this.scene.add(humanPlaceholder);
+  }
 
-    // Load the actual human model
-    const loader = new THREE.ObjectLoader();
-    
-    // In a real application, you would load an actual model:
-    // loader.load('models/human.json', (object) => {
-    //   this.scene.remove(humanPlaceholder);
-    //   this.humanModel = object;
-    //   this.scene.add(object);
-    // });
-  }
-
-  private loadSidebarContent(): void {
-    // Sample acupuncture points data
-    const acupuncturePoints = [
-      { id: 'LI4', name: 'Hegu', description: 'Located on the hand between the thumb and index finger.' },
-      { id: 'ST36', name: 'Zusanli', description: 'Located below the knee, about 3 inches down from the kneecap.' },
-      { id: 'LV3', name: 'Taichong', description: 'Located on the foot, in the depression between the first and second metatarsal bones.' },
-      { id: 'GB20', name: 'Fengchi', description: 'Located at the base of the skull, in the depression between the two large vertical neck muscles.' },
-      { id: 'SP6', name: 'Sanyinjiao', description: 'Located on the inside of the lower leg, about 3 inches above the ankle.' }
+  private instancesAt(point: Acupoint, position: THREE.Vector3, mirrored: THREE.Vector3 | null): PointInstance[] {
+    if (point.symmetry === 'midline') return [{ side: null, position }];
+
+    const side = this.sagittal.sideOf(position);
+    return [{ side, position }, ...(mirrored ? [{ side: otherSide(side), position: mirrored }] : [])];
+  }
+
+  // The other side's instance of a bilateral point; null for midline points
+  private getMirroredPosition(pointId: string): THREE.Vector3 | null {
+    const point = this.dataset?.get(pointId);
+    if (!point || point.symmetry !== 'bilateral') return null;
+
+    const mirrored = this.mirroredPlacements.get(pointId);
+    if (mirrored) return mirrored.position.clone();
+    const position = this.getPointPosition(pointId);
+    return position ? this.sagittal.reflect(position) : null;
+  }
+
+  // Reflected across the sagittal plane and put back on the skin once the body has loaded
+  private mirrorPosition(position: THREE.Vector3): THREE.Vector3 {
+    const reflected = this.sagittal.reflect(position);
+    return this.resolver?.project(reflected)?.position ?? reflected;
+  }
+
+  // Placement of one side of a point; 'bilateral' gives the side the dataset places it on
+  private getPlacement(pointId: string, laterality: Laterality = 'bilateral'): SurfacePlacement | undefined {
+    const placement = this.placements.get(pointId);
+    if (!placement || laterality === 'bilateral' || this.sagittal.sideOf(placement.position) === laterality) return placement;
+    return this.mirroredPlacements.get(pointId);
+  }
+
+  // Placements of every instance of a point that belongs to the laterality
+  private getPlacements(pointId: string, laterality: Laterality): SurfacePlacement[] {
+    const placement = this.placements.get(pointId);
+    if (!placement) return [];
+
+    const mirrored = this.mirroredPlacements.get(pointId);
+    const side = this.sagittal.sideOf(placement.position);
+    return [
+      ...(onSide(laterality, side) ? [placement] : []),
+      ...(mirrored && onSide(laterality, otherSide(side)) ? [mirrored] : [])
     ];
+  }
+
+  // Position of a point in the legacy frame: on the surface when resolved, else the legacy anchor
+  private getPointPosition(pointId: string): THREE.Vector3 | null {
+    const placement = this.placements.get(pointId);
+    if (placement) return placement.position.clone();
+
+    const anchor = this.dataset?.get(pointId)?.anchor;
+    return anchor ? new THREE.Vector3().fromArray(anchor.position) : null;
+  }
+
+  // Shows or hides a channel and its points everywhere: viewer, legend and sidebar
+  private setMeridianVisible(meridianId: string, visible: boolean): void {
+    if (visible) {
+      this.hiddenMeridians.delete(meridianId);
+    } else {
+      this.hiddenMeridians.add(meridianId);
+    }
+
+    this.channels.setMeridianVisible(meridianId, visible);
+    this.markers.setMeridianVisible(meridianId, visible);
+    if (this.dataset) {
+      this.legend.render(this.dataset.meridians, this.hiddenMeridians);
+    }
+    $('#content').find(`input[data-meridian-id="${meridianId}"]`).prop('checked', visible);
+    $('#content').find(`ul[data-meridian-id="${meridianId}"]`).toggleClass('hidden-meridian', !visible);
+    this.updateRoute(true);
+  }
+
+  private showMeridianOf(point: Acupoint): void {
+    if (this.hiddenMeridians.has(point.meridian)) {
+      this.setMeridianVisible(point.meridian, true);
+    }
+  }
+
+  private async loadSidebarContent(): Promise<void> {
+    const $content = $('#content');
+
+    // Without translations the content is shown in Portuguese
+    const translations = ContentTranslations.load(TRANSLATIONS_URL).catch((error) => {
+      console.warn('Could not load the point translations', error);
+      return ContentTranslations.empty();
+    });
+
+    try {
+      this.dataset = await AcupointDataset.load(DATASET_URL);
+    } catch (error) {
+      console.error(error);
+      $content.empty();
+      $content.append($('<h2></h2>').text(this.i18n.t('sidebar.title')));
+      $content.append($('<p class="text-danger"></p>').text(this.i18n.t('sidebar.datasetError')));
+      return;
+    }
+
+    this.translations = await translations;
+    this.i18n.setContent(this.translations);
+    this.resolveAnchors();
+    this.renderSidebar();
+    this.legend.render(this.dataset.meridians, this.hiddenMeridians);
+    this.applyInitialRoute();
+  }
+
+  // The link the page was opened with needs both the dataset and the fitted body
+  private applyInitialRoute(): void {
+    if (this.initialRouteApplied || !this.dataset || !this.modelSettled) return;
+
+    this.initialRouteApplied = true;
+    this.applyRoute(this.router.route);
+  }
+
+  private applyRoute(route: AppRoute): void {
+    const dataset = this.dataset;
+    if (!dataset) return;
+
+    this.applyingRoute = true;
+    dataset.meridians.forEach(meridian => {
+      this.setMeridianVisible(meridian.id, !route.meridians || route.meridians.includes(meridian.id));
+    });
+
+    const point = route.point ? dataset.findByCode(route.point) : undefined;
+    if (route.point && !point) {
+      console.warn(`Unknown point in link: ${route.point}`);
+    }
+    this.routeView = point ? route.view : null;
+    const laterality = point?.symmetry === 'bilateral' && route.side ? route.side : 'bilateral';
+    this.selection.select(point ? point.id : null, 'api', laterality);
+
+    if (route.camera) {
+      this.controls.flyTo(
+        new THREE.Vector3().fromArray(route.camera.position),
+        new THREE.Vector3().fromArray(route.camera.target)
+      );
+    } else if (point) {
+      this.focusPoint(point, route.view, laterality);
+    }
+    this.applyingRoute = false;
+  }
+
+  private currentRoute(): AppRoute {
+    const point = this.selection.pointId ? this.dataset?.get(this.selection.pointId) : undefined;
+    const meridians = this.dataset && this.hiddenMeridians.size > 0
+      ? this.dataset.meridians.map(meridian => meridian.id).filter(id => !this.hiddenMeridians.has(id))
+      : null;
+
+    return {
+      // Always the dataset's code: a prefix can mean another channel in another system
+      // (French IG is the small intestine), so only typed links are read as any system
+      point: point ? point.code.replace(/[^A-Za-z0-9]/g, '') : null,
+      side: point && this.selection.laterality !== 'bilateral' ? this.selection.laterality : null,
+      view: point ? this.routeView : null,
+      meridians,
+      camera: this.initialRouteApplied ? {
+        position: this.camera.position.toArray(),
+        target: this.controls.target.toArray()
+      } : null
+    };
+  }
+
+  // Selecting a point adds a history entry; camera moves and filters rewrite the current one
+  private updateRoute(replace: boolean): void {
+    if (this.applyingRoute || !this.initialRouteApplied) return;
+
+    if (replace) {
+      this.router.replace(this.currentRoute());
+    } else {
+      this.router.push(this.currentRoute());
+    }
+  }
+
+  private renderSidebar(): void {
+    const dataset = this.dataset;
+    if (!dataset) return;
 
-    // Create sidebar content
     const $content = $('#content');
+
+    // Create sidebar content; the search box and authoring panel are kept, so take
+    // them out before empty() strips their event handlers
+    $(this.searchBox.element).detach();
+    if (this.authoringPanel) {
+      $(this.authoringPanel.element).detach();
+    }
+    if (this.measurePanel) {
+      $(this.measurePanel.element).detach();
+    }
+    if (this.prescriptionPanel) {
+      $(this.prescriptionPanel.element).detach();
+    }
+    if (this.patientLogPanel) {
+      $(this.patientLogPanel.element).detach();
+    }
+    if (this.studyPanel) {
+      $(this.studyPanel.element).detach();
+    }
+    if (this.xrayPanel) {
+      $(this.xrayPanel.element).detach();
+    }
     $content.empty();
 
+    // Display settings: language and the system point codes are written in
+    const $language = $('<select class="form-select form-select-sm w-auto"></select>')
+      .attr('aria-label', this.i18n.t('language.label'));
+    LOCALES.forEach(locale => $language.append($('<option></option>').val(locale.code).attr('lang', locale.code).text(locale.label)));
+    $language.val(this.i18n.locale);
+    $language.on('change', () => {
+      const locale = $language.val();
+      if (isLocaleCode(locale)) this.i18n.setLocale(locale);
+    });
+    const $codes = $('<select class="form-select form-select-sm w-auto"></select>')
+      .attr('aria-label', this.i18n.t('codes.label'))
+      .attr('title', this.i18n.t('codes.label'));
+    NOMENCLATURE_SYSTEMS.forEach(system => $codes.append($('<option></option>').val(system.id).text(`${system.label} (${system.example})`)));
+    $codes.val(this.i18n.codeSystem);
+    $codes.on('change', () => {
+      const system = $codes.val();
+      if (isNomenclatureSystem(system)) this.i18n.setCodeSystem(system);
+    });
+    $content.append($('<div class="d-flex gap-1 mb-2"></div>').append($language, $codes));
+
     // Add title
-    $content.append('<h2>Acupuncture Points</h2>');
-    $content.append('<p>Click on a point to view details and see its location on the 3D model.</p>');
+    $content.append($('<h2></h2>').text(this.i18n.t('sidebar.title')));
+    $content.append($('<p></p>').text(this.i18n.t('sidebar.intro')));
+    $content.append(this.searchBox.element);
 
-    // Create list of points
-    const $pointsList = $('<ul class="page-sidebar-menu"></ul>');
-    
-    acupuncturePoints.forEach(point => {
-      const $pointItem = $(`
-        <li>
-          <a href="#" data-point-id="${point.id}">
-            <i class="fa fa-dot-circle-o"></i>
-            <span>${point.id} - ${point.name}</span>
-          </a>
-        </li>
-      `);
-      
-      $pointItem.on('click', (e) => {
-        e.preventDefault();
-        this.highlightPoint(point.id);
-        
-        // Show point details
-        $('#point-details').remove();
-        const $details = $(`
-          <div id="point-details" class="acuponto">
-            <h3>${point.id} - ${point.name}</h3>
-            <p>${point.description}</p>
-          </div>
+    const $tools = $('<div class="btn-toolbar gap-1 mb-3"></div>');
+    if (!this.authoringPanel) {
+      const $author = $('<button type="button" class="btn btn-outline-secondary btn-sm"></button>').text(this.i18n.t('tools.edit'));
+      $author.on('click', () => this.setAuthoring(true));
+      $tools.append($author);
+    }
+    if (!this.measurePanel) {
+      const $measure = $('<button type="button" class="btn btn-outline-secondary btn-sm"></button>').text(this.i18n.t('tools.measure'));
+      $measure.on('click', () => this.setMeasuring(true));
+      $tools.append($measure);
+    }
+    if (!this.prescriptionPanel) {
+      const $prescribe = $('<button type="button" class="btn btn-outline-secondary btn-sm"></button>').text(this.i18n.t('tools.prescription'));
+      $prescribe.on('click', () => this.setPrescribing(true));
+      $tools.append($prescribe);
+    }
+    if (!this.patientLogPanel) {
+      const $patients = $('<button type="button" class="btn btn-outline-secondary btn-sm"></button>').text(this.i18n.t('tools.patients'));
+      $patients.on('click', () => this.setPatientLog(true));
+      $tools.append($patients);
+    }
+    if (!this.studyPanel) {
+      const $study = $('<button type="button" class="btn btn-outline-secondary btn-sm"></button>').text(this.i18n.t('tools.study'));
+      $study.on('click', () => this.setStudying(true));
+      $tools.append($study);
+    }
+    if (!this.xrayPanel) {
+      const $xray = $('<button type="button" class="btn btn-outline-secondary btn-sm"></button>').text(this.i18n.t('tools.xray'));
+      $xray.on('click', () => this.setXRay(true));
+      $tools.append($xray);
+    }
+    if ($tools.children().length > 0) {
+      $content.append($tools);
+    }
+    if (this.xrayPanel) {
+      $content.append(this.xrayPanel.element);
+    }
+    if (this.studyPanel) {
+      $content.append(this.studyPanel.element);
+    }
+    if (this.patientLogPanel) {
+      $content.append(this.patientLogPanel.element);
+    }
+    if (this.prescriptionPanel) {
+      $content.append(this.prescriptionPanel.element);
+    }
+    if (this.measurePanel) {
+      $content.append(this.measurePanel.element);
+    }
+    if (this.authoringPanel) {
+      $content.append(this.authoringPanel.element);
+    }
+
+    // Create one list per meridian; search results replace them while a query is typed
+    const $lists = $('<div id="point-lists"></div>');
+    $content.append($lists);
+    dataset.meridians.forEach(meridian => {
+      const points = dataset.byMeridian(meridian.id);
+      if (points.length === 0) return;
+
+      const visible = !this.hiddenMeridians.has(meridian.id);
+      const fullName = this.i18n.meridianFullName(meridian);
+      const $toggle = $('<input type="checkbox" class="form-check-input me-2">')
+        .attr('data-meridian-id', meridian.id)
+        .attr('title', this.i18n.t('meridian.show', { name: fullName }))
+        .prop('checked', visible);
+      $toggle.attr('aria-label', this.i18n.t('meridian.show', { name: fullName }));
+      $toggle.on('change', (e) => this.setMeridianVisible(meridian.id, (e.target as HTMLInputElement).checked));
+
+      const $heading = $('<h4 class="meridian-heading"></h4>').attr('id', `meridian-heading-${meridian.id}`);
+      $heading.append($toggle, $('<span class="swatch"></span>').css('background-color', meridianColorCss(meridian.id)));
+      $heading.append($('<span></span>').text(fullName));
+      const labelled = this.pointLabels.isMeridianVisible(meridian.id);
+      const $labels = $('<button type="button" class="btn btn-link btn-sm meridian-labels"></button>')
+        .attr('title', this.i18n.t('labels.show', { name: fullName }))
+        .attr('aria-label', this.i18n.t('labels.show', { name: fullName }))
+        .attr('aria-pressed', String(labelled))
+        .append('<i class="fa fa-tag" aria-hidden="true"></i>');
+      $labels.on('click', () => {
+        const visible = !this.pointLabels.isMeridianVisible(meridian.id);
+        this.pointLabels.setMeridianVisible(meridian.id, visible);
+        $labels.attr('aria-pressed', String(visible));
+      });
+      $heading.append($labels);
+      $lists.append($heading);
+
+      const $pointsList = $('<ul class="page-sidebar-menu"></ul>')
+        .attr('data-meridian-id', meridian.id)
+        .attr('aria-labelledby', `meridian-heading-${meridian.id}`)
+        .toggleClass('hidden-meridian', !visible);
+
+      points.forEach(point => {
+        const $pointItem = $(`
+          <li>
+            <a href="#" data-point-id="${point.id}">
+              <i class="fa fa-dot-circle-o" aria-hidden="true"></i>
+              <span></span>
+            </a>
+          </li>
         `);
-        $content.append($details);
+        $pointItem.find('span').text(this.i18n.pointLabel(point));
+
+        $pointItem.children('a').on('click', (e) => {
+          e.preventDefault();
+          this.selection.select(point.id, 'sidebar');
+        });
+        $pointItem.children('a').on('keydown', (e) => this.onPointListKeyDown(e.originalEvent as KeyboardEvent));
+
+        $pointsList.append($pointItem);
       });
-      
-      $pointsList.append($pointItem);
+
+      $lists.append($pointsList);
     });
-    
-    $content.append($pointsList);
-
-    // Initialize sidebar menu behavior
-    if (typeof $.fn.on === 'function') {
-      $('.page-sidebar-menu').on('click', 'li > a', function(e) {
-        const $this = $(this);
-        const $parent = $this.parent().parent();
-        
-        $parent.find('li.active').removeClass('active');
-        $this.parent().addClass('active');
-        
-        e.preventDefault();
+
+    this.searchBox.setIndex(new PointSearchIndex(dataset.points, this.translations));
+    this.syncSidebar(this.selection.pointId ? dataset.get(this.selection.pointId) : undefined);
+  }
+
+  private setAuthoring(enabled: boolean): void {
+    if (!this.dataset || enabled === (this.authoringPanel !== null)) return;
+
+    if (enabled) {
+      if (!this.authoring) {
+        this.authoring = new AuthoringSession(this.dataset);
+        this.authoring.addEventListener('change', () => this.onAuthoringChange());
+      }
+      this.authoringPanel = new AuthoringPanel({
+        session: this.authoring,
+        meridians: this.dataset.meridians,
+        i18n: this.i18n,
+        onSelect: (pointId) => this.selection.select(pointId, 'api'),
+        onSnapChange: (snap) => {
+          this.snapToSurface = snap;
+        },
+        onClose: () => this.setAuthoring(false)
       });
+    } else {
+      this.authoringPanel = null;
+      this.controls.enabled = true;
     }
+
+    this.dragControls.enabled = enabled;
+    this.updatePlacing();
+    this.renderSidebar();
   }
 
-  private highlightPoint(pointId: string): void {
-    console.log(`Highlighting point: ${pointId}`);
-    // In a real application, you would:
-    // 1. Find the point on the 3D model
-    // 2. Create a highlight effect (glow, color change, etc.)
-    // 3. Move the camera to focus on that point
-    
-    // For this example, we'll just create a small sphere at a position based on the point ID
-    const existingHighlight = this.scene.getObjectByName('pointHighlight');
-    if (existingHighlight) {
-      this.scene.remove(existingHighlight);
+  // Edits replace the dataset, so the sidebar and markers are rebuilt from it
+  private onAuthoringChange(): void {
+    if (!this.authoring) return;
+
+    this.dataset = this.authoring.toDataset();
+    this.resolveAnchors();
+    this.renderSidebar();
+
+    // Undoing the addition of the selected point removes it
+    const selected = this.selection.pointId;
+    if (selected && !this.dataset.get(selected)) {
+      this.selection.clear();
     }
-    
-    // Generate a position based on the point ID (just for demonstration)
-    const position = new THREE.Vector3(
-      (pointId.charCodeAt(0) % 10) * 0.2 - 1,
-      (pointId.charCodeAt(1) % 10) * 0.2 - 1,
-      (pointId.charCodeAt(2) % 10) * 0.2 - 1
-    );
-    
-    const highlightGeometry = new THREE.SphereGeometry(0.1, 16, 16);
-    const highlightMaterial = new THREE.MeshBasicMaterial({ color: 0xff0000 });
-    const highlight = new THREE.Mesh(highlightGeometry, highlightMaterial);
-    highlight.name = 'pointHighlight';
-    highlight.position.copy(position);
-    this.scene.add(highlight);
-    
-    // Animate camera to focus on the point
-    this.animateCameraToPosition(position);
   }
 
-  private animateCameraToPosition(position: THREE.Vector3): void {
-    // Simple animation to move the camera focus to the point
-    const startPosition = this.controls.target.clone();
-    const endPosition = position.clone();
-    const duration = 1000; // ms
-    const startTime = Date.now();
-    
-    const animate = () => {
-      const elapsed = Date.now() - startTime;
-      const progress = Math.min(elapsed / duration, 1);
-      
-      // Ease function (ease-out)
-      const easeProgress = 1 - Math.pow(1 - progress, 3);
-      
-      // Interpolate position
-      const currentPosition = new THREE.Vector3().lerpVectors(
-        startPosition,
-        endPosition,
-        easeProgress
-      );
-      
-      // Update controls target
-      this.controls.target.copy(currentPosition);
-      
-      if (progress < 1) {
-        requestAnimationFrame(animate);
+  // Points without coordinates are placed by clicking on the body
+  private updatePlacing(): void {
+    const selected = this.selection.pointId ? this.authoring?.getPoint(this.selection.pointId) : undefined;
+    this.dragControls.placing = this.authoringPanel !== null && !!selected && !selected.anchor;
+    // Arrow and +/- keys nudge the selected point while authoring
+    this.controls.enableKeys = this.authoringPanel === null || !selected;
+  }
+
+  private onDragStart(pointId: string): void {
+    this.controls.enabled = false;
+    this.selection.select(pointId, 'viewer');
+    this.authoring?.beginEdit(pointId);
+  }
+
+  private onDrag(pointId: string, worldPoint: THREE.Vector3): void {
+    if (!this.authoring) return;
+
+    const point = this.authoring.getPoint(pointId);
+    const previous = point?.anchor || null;
+    let local = this.bodyRoot.worldToLocal(worldPoint.clone());
+    // Dragging the mirrored marker of a bilateral point moves the placed one with it
+    if (point?.symmetry === 'bilateral' && previous) {
+      const placedSide = this.sagittal.sideOf(new THREE.Vector3().fromArray(previous.position));
+      if (this.sagittal.sideOf(local) !== placedSide) local = this.sagittal.reflect(local);
+    }
+    const anchor = this.createAnchor(local, previous, this.snapToSurface);
+    this.authoring.previewAnchor(pointId, anchor);
+    this.previewMarkers(pointId, anchor);
+  }
+
+  // Markers follow an anchor being edited before the dataset is rebuilt
+  private previewMarkers(pointId: string, anchor: AcupointAnchor): void {
+    const point = this.authoring?.getPoint(pointId);
+    if (!point) return;
+
+    const position = new THREE.Vector3().fromArray(anchor.position);
+    const mirrored = point.symmetry === 'bilateral' ? this.mirrorPosition(position) : null;
+    const instances = this.instancesAt(point, position, mirrored);
+    this.markers.setInstances(pointId, instances);
+    this.pointLabels.setInstances(pointId, instances);
+  }
+
+  private onDragEnd(): void {
+    this.controls.enabled = true;
+    this.authoring?.endEdit();
+  }
+
+  private onPlace(worldPoint: THREE.Vector3): void {
+    const pointId = this.selection.pointId;
+    if (!this.authoring || !pointId) return;
+
+    const local = this.bodyRoot.worldToLocal(worldPoint.clone());
+    this.authoring.setAnchor(pointId, this.createAnchor(local, null, this.snapToSurface));
+  }
+
+  private setPrescribing(enabled: boolean): void {
+    if (enabled === (this.prescriptionPanel !== null)) return;
+
+    this.prescriptionPanel = enabled
+      ? new PrescriptionPanel({
+        draft: this.prescription,
+        store: this.prescriptionStore,
+        getPoint: (pointId) => this.dataset?.get(pointId),
+        i18n: this.i18n,
+        getSelectedPointId: () => this.selection.pointId,
+        onSelect: (pointId) => this.selection.select(pointId, 'sidebar'),
+        onPrint: () => this.printPrescription(),
+        onClose: () => this.setPrescribing(false)
+      })
+      : null;
+
+    this.updatePrescriptionMarkers();
+    this.renderSidebar();
+  }
+
+  private onPrescriptionChange(): void {
+    this.prescriptionPanel?.render();
+    this.patientLogPanel?.updateSessionPoints();
+    this.updatePrescriptionMarkers();
+    // The details of the selected point offer to add or remove it
+    this.syncSidebar(this.selection.pointId ? this.dataset?.get(this.selection.pointId) : undefined, false);
+  }
+
+  // Prescription points are highlighted and numbered while the builder is open, or
+  // the points of a replayed session. A study question highlights its point instead.
+  private updatePrescriptionMarkers(): void {
+    const question = this.studyQuestion;
+    if (question) {
+      const shown = question.type === 'identify' || this.studyRevealed;
+      this.markers.setHighlighted(shown ? [{ pointId: question.point.id, laterality: 'bilateral' }] : []);
+      this.prescriptionBadges.setBadges([]);
+      return;
+    }
+
+    const items = this.replayItems || (this.prescriptionPanel ? this.prescription.items : []);
+    this.markers.setHighlighted(items);
+    this.prescriptionBadges.setBadges(items.flatMap((item, i) => {
+      return this.getPlacements(item.pointId, item.laterality)
+        .map(placement => ({ position: placement.position, normal: placement.normal, label: String(i + 1) }));
+    }));
+  }
+
+  private printPrescription(): void {
+    if (!this.dataset || this.prescription.items.length === 0) return;
+
+    if (!printHandout(this.prescription.current, this.dataset, this.i18n)) {
+      this.prescriptionPanel?.showStatus(this.i18n.t('prescription.popupBlocked'), true);
+    }
+  }
+
+  private async setPatientLog(enabled: boolean): Promise<void> {
+    if (enabled === (this.patientLogPanel !== null)) return;
+
+    if (enabled) {
+      if (!this.patientStore) {
+        try {
+          this.patientStore = await PatientStore.open();
+        } catch (error) {
+          console.error(error);
+          this.announcer.announce(this.i18n.t('patients.unavailable'));
+          return;
+        }
+        // Opened twice while waiting for the database
+        if (this.patientLogPanel) return;
+      }
+      this.patientLogPanel = new PatientLogPanel({
+        store: this.patientStore,
+        getPoint: (pointId) => this.dataset?.get(pointId),
+        i18n: this.i18n,
+        getSessionItems: () => this.getSessionItems(),
+        onReplay: (session) => this.replaySession(session),
+        onClose: () => this.setPatientLog(false)
+      });
+    } else {
+      this.stopReplay();
+      this.patientLogPanel = null;
+    }
+
+    this.renderSidebar();
+  }
+
+  private getSessionItems(): PrescriptionItem[] {
+    if (this.prescription.items.length > 0) return this.prescription.items;
+    const pointId = this.selection.pointId;
+    return pointId ? [{ pointId, laterality: this.selection.laterality, notes: '' }] : [];
+  }
+
+  // Number the session's points on the model and visit them in order
+  private replaySession(session: TreatmentSession): void {
+    this.stopReplay();
+    const items = session.items.filter(item => this.dataset?.get(item.pointId));
+    if (items.length === 0) return;
+
+    this.replayItems = items;
+    this.updatePrescriptionMarkers();
+
+    let step = 0;
+    const visit = () => {
+      this.selection.select(items[step].pointId, 'api', items[step].laterality);
+      step++;
+      if (step < items.length) {
+        this.replayTimer = window.setTimeout(visit, REPLAY_STEP);
       }
     };
-    
-    animate();
+    visit();
+  }
+
+  private stopReplay(): void {
+    window.clearTimeout(this.replayTimer);
+    if (this.replayItems) {
+      this.replayItems = null;
+      this.updatePrescriptionMarkers();
+    }
+  }
+
+  private setMeasuring(enabled: boolean): void {
+    if (enabled === (this.measurePanel !== null)) return;
+
+    if (enabled) {
+      // Both tools take clicks on the body
+      this.setStudying(false);
+      this.measurePanel = new MeasurePanel({
+        i18n: this.i18n,
+        onWalk: (code, cun, direction) => this.placeWalkMarker(code, cun, direction),
+        onMoveSelected: () => this.moveSelectedToWalkTarget(),
+        onClear: () => this.clearMeasurement(),
+        onClose: () => this.setMeasuring(false)
+      });
+      this.updateMeasurePanel(this.selection.pointId ? this.dataset?.get(this.selection.pointId) : undefined);
+    } else {
+      this.measurePanel = null;
+      this.clearMeasurement();
+    }
+
+    // Clicks on the body measure instead of selecting points
+    this.surfacePicker.enabled = enabled;
+    this.picker.enabled = !enabled;
+    this.onPointHover(null, 0, 0);
+    this.renderSidebar();
+  }
+
+  private setXRay(enabled: boolean): void {
+    if (enabled === (this.xrayPanel !== null)) return;
+
+    if (enabled) {
+      this.xrayPanel = new XRayPanel({
+        i18n: this.i18n,
+        onChange: (settings) => this.applyXRay(settings),
+        onOccludedChange: (visible) => this.markers.setOccludedVisible(visible),
+        onClose: () => this.setXRay(false)
+      });
+    } else {
+      this.xrayPanel = null;
+      this.applyXRay(DEFAULT_XRAY_SETTINGS);
+      this.markers.setOccludedVisible(true);
+    }
+
+    this.renderSidebar();
+  }
+
+  // Labels hide behind the body as it is drawn, cut or not
+  private applyXRay(settings: XRaySettings): void {
+    this.xray.apply(settings);
+    this.occlusion.setClippingPlanes(this.xray.clippingPlanes);
+  }
+
+  private setStudying(enabled: boolean): void {
+    if (!this.dataset || enabled === (this.studyPanel !== null)) return;
+
+    if (enabled) {
+      this.setMeasuring(false);
+      this.studyPanel = new StudyPanel({
+        dataset: this.dataset,
+        store: this.studyStore,
+        i18n: this.i18n,
+        isPlaced: (pointId) => this.placements.has(pointId),
+        onQuestion: (question) => this.showQuestion(question),
+        onReveal: (question) => this.revealAnswer(question),
+        onClose: () => this.setStudying(false)
+      });
+    } else {
+      this.studyPanel = null;
+      this.showQuestion(null);
+    }
+
+    this.renderSidebar();
+  }
+
+  // Set the viewer up for a study question. Until it is answered, names stay hidden:
+  // no tooltips, no details and, for locate questions, no markers.
+  private showQuestion(question: QuizQuestion | null): void {
+    this.studyQuestion = question;
+    this.studyRevealed = false;
+    this.studySide = 'bilateral';
+    this.measureOverlay.reset();
+    this.markers.visible = question?.type !== 'locate';
+    this.pointLabels.enabled = question === null;
+    this.surfacePicker.enabled = question?.type === 'locate';
+    this.picker.enabled = question === null;
+    this.onPointHover(null, 0, 0);
+    if (question && this.selection.pointId) {
+      this.selection.clear();
+    }
+    if (question?.type === 'identify') {
+      this.showMeridianOf(question.point);
+    }
+    this.updatePrescriptionMarkers();
+
+    // Locate questions show the side of the body the point is on; identify questions the point itself
+    if (question?.type === 'locate') {
+      this.showViewPreset(question.point.anchor?.view || 'anterior');
+    } else if (question?.type === 'identify') {
+      this.focusPoint(question.point);
+    }
+  }
+
+  private revealAnswer(question: QuizQuestion): void {
+    this.studyRevealed = true;
+    this.markers.visible = true;
+    this.pointLabels.enabled = true;
+    this.surfacePicker.enabled = false;
+    this.picker.enabled = true;
+    this.showMeridianOf(question.point);
+    this.updatePrescriptionMarkers();
+    this.focusPoint(question.point, null, question.type === 'locate' ? this.studySide : 'bilateral');
+  }
+
+  // Scores a locate answer by the distance over the skin from the click to the point,
+  // on the side clicked for bilateral points
+  private onStudyPick(worldPoint: THREE.Vector3): void {
+    const resolver = this.resolver;
+    const question = this.studyQuestion;
+    const placement = resolver ? resolver.project(this.bodyRoot.worldToLocal(worldPoint.clone())) : null;
+    if (!this.studyPanel?.awaitingLocation || !resolver || !question || !placement) return;
+
+    this.studySide = question.point.symmetry === 'bilateral' ? this.sagittal.sideOf(placement.position) : 'bilateral';
+    const target = this.getPlacement(question.point.id, this.studySide);
+    if (!target) return;
+
+    // Straight across when the surface does not connect them, e.g. a click on the trunk for an arm point
+    const path = resolver.geodesic(placement.surface, target.surface);
+    const length = path ? path.length : placement.position.distanceTo(target.position);
+    this.measureOverlay.setEnds([placement.position, target.position]);
+    this.measureOverlay.setPath(path ? path.points : null);
+
+    const middle = placement.position.clone().lerp(target.position, 0.5);
+    this.studyPanel.answerLocation({
+      cun: this.getCunScale()?.toCun(length, middle) ?? null,
+      centimetres: length * this.bodyRoot.scale.x * 100
+    });
+  }
+
+  private updateMeasurePanel(point: Acupoint | undefined): void {
+    if (!this.measurePanel) return;
+
+    if (point) {
+      this.measurePanel.setCode(this.i18n.pointCode(point));
+    }
+    this.measurePanel.setCanMove(this.walkTarget !== null && this.authoringPanel !== null && point !== undefined);
+  }
+
+  private clearMeasurement(): void {
+    this.rulerEnds = [];
+    this.walkTarget = null;
+    this.measureOverlay.reset();
+    this.measurePanel?.showMeasurement('');
+    this.measurePanel?.showWalk('');
+    this.measurePanel?.setCanMove(false);
+  }
+
+  // Calibrated from the landmark points as placed now
+  private getCunScale(): CunScale | null {
+    const resolver = this.resolver;
+    const dataset = this.dataset;
+    if (!resolver || !dataset) return null;
+
+    if (!this.cunScale) {
+      this.cunScale = CunScale.calibrate(
+        this.modelProfile.cunLandmarks,
+        (code) => {
+          const point = dataset.findByCode(code);
+          return (point && this.placements.get(point.id)?.surface) || null;
+        },
+        (from, to) => resolver.geodesic(from, to)
+      );
+    }
+    return this.cunScale;
+  }
+
+  // Every other click starts a new ruler
+  private onRulerPick(worldPoint: THREE.Vector3): void {
+    const resolver = this.resolver;
+    const placement = resolver ? resolver.project(this.bodyRoot.worldToLocal(worldPoint.clone())) : null;
+    if (!resolver || !placement || !this.measurePanel) return;
+
+    if (this.rulerEnds.length >= 2) {
+      this.rulerEnds = [];
+    }
+    this.rulerEnds.push(placement);
+    this.measureOverlay.setEnds(this.rulerEnds.map(end => end.position));
+    this.measureOverlay.setPath(null);
+
+    if (this.rulerEnds.length < 2) {
+      this.measurePanel.showMeasurement(this.i18n.t('measure.second'));
+      return;
+    }
+
+    const [from, to] = this.rulerEnds;
+    const path = resolver.geodesic(from.surface, to.surface);
+    if (!path) {
+      this.measurePanel.showMeasurement(this.i18n.t('measure.notConnected'), true);
+      return;
+    }
+    this.measureOverlay.setPath(path.points);
+
+    const centimetres = path.length * this.bodyRoot.scale.x * 100;
+    const middle = from.position.clone().lerp(to.position, 0.5);
+    const scale = this.getCunScale();
+    const cun = scale ? scale.toCun(path.length, middle) : null;
+    const calibration = scale ? scale.calibrationAt(middle) : null;
+
+    const message = cun !== null && calibration
+      ? this.i18n.t('measure.distance', {
+        cun: cun.toFixed(1),
+        centimetres: centimetres.toFixed(1),
+        pair: cunLandmarkLabel(calibration.pair, this.i18n),
+        pairCun: calibration.pair.cun
+      })
+      : this.i18n.t('measure.distanceUncalibrated', { centimetres: centimetres.toFixed(1) });
+    this.measurePanel.showMeasurement(message);
+    this.announcer.announce(message);
+  }
+
+  // Marker a number of cun from a point along its meridian's channel
+  private placeWalkMarker(code: string, cun: number, direction: number): void {
+    const panel = this.measurePanel;
+    const dataset = this.dataset;
+    if (!panel || !dataset || !this.resolver) return;
+
+    const point = dataset.findByCode(code);
+    const placement = point ? this.placements.get(point.id) : undefined;
+    if (!point || !placement) {
+      panel.showWalk(point ? this.i18n.t('measure.notPlaced', { code: this.i18n.pointCode(point) }) : this.i18n.t('measure.unknown', { code }), true);
+      return;
+    }
+    if (!isFinite(cun) || cun < 0) {
+      panel.showWalk(this.i18n.t('measure.enterCun'), true);
+      return;
+    }
+
+    const units = this.getCunScale()?.toUnits(cun, placement.position) ?? null;
+    if (units === null) {
+      panel.showWalk(this.i18n.t('measure.noCalibration'), true);
+      return;
+    }
+
+    const along = this.channels.walk(point.meridian, placement.position, units * direction);
+    const target = along ? this.resolver.project(along) : null;
+    if (!target) {
+      panel.showWalk(this.i18n.t('measure.pastEnd', { cun, code: this.i18n.pointCode(point), meridian: point.meridian }), true);
+      this.measureOverlay.setMarker(null);
+      this.walkTarget = null;
+      this.updateMeasurePanel(point);
+      return;
+    }
+
+    this.walkTarget = target;
+    this.measureOverlay.setMarker(target.position);
+
+    // The point nearest to the marker on the same meridian, to check a location against
+    let nearest: Acupoint | null = null;
+    let nearestDistance = Infinity;
+    for (const candidate of dataset.byMeridian(point.meridian)) {
+      const candidatePlacement = this.placements.get(candidate.id);
+      const distance = candidatePlacement ? candidatePlacement.position.distanceTo(target.position) : Infinity;
+      if (distance < nearestDistance) {
+        nearest = candidate;
+        nearestDistance = distance;
+      }
+    }
+
+    let message = this.i18n.t('measure.marker', { cun, code: this.i18n.pointCode(point) });
+    const nearestCun = nearest ? this.getCunScale()?.toCun(nearestDistance, target.position) ?? null : null;
+    if (nearest && nearestCun !== null) {
+      message += ` ${this.i18n.t('measure.nearest', { code: this.i18n.pointCode(nearest), cun: nearestCun.toFixed(1) })}`;
+    }
+    panel.showWalk(message);
+    this.announcer.announce(message);
+    this.updateMeasurePanel(this.selection.pointId ? dataset.get(this.selection.pointId) : undefined);
+  }
+
+  private moveSelectedToWalkTarget(): void {
+    const pointId = this.selection.pointId;
+    if (!this.authoring || !pointId || !this.walkTarget) return;
+
+    const previous = this.authoring.getPoint(pointId)?.anchor || null;
+    this.authoring.setAnchor(pointId, this.createAnchor(this.walkTarget.position, previous, true));
+  }
+
+  // Anchor at a position in the legacy frame, keeping the view of the previous anchor
+  private createAnchor(position: THREE.Vector3, previous: AcupointAnchor | null, snap: boolean): AcupointAnchor {
+    const round = (value: number) => Math.round(value * 1e6) / 1e6;
+    const placement = snap && this.resolver ? this.resolver.project(position) : null;
+    const target = placement ? placement.position : position;
+
+    const anchor: AcupointAnchor = { position: [round(target.x), round(target.y), round(target.z)] };
+    if (previous?.view) {
+      anchor.view = previous.view;
+    }
+    if (placement) {
+      const [u, v, w] = placement.surface.barycentric;
+      anchor.surface = { ...placement.surface, barycentric: [round(u), round(v), round(w)] };
+    }
+    return anchor;
+  }
+
+  // acu_pos.html bindings: arrows move in the screen plane, +/- along the view, comma/period lock the camera
+  private onAuthoringKeyDown(event: KeyboardEvent): void {
+    if (!this.authoringPanel || !this.authoring) return;
+    if (event.target instanceof HTMLElement && event.target.closest('input, textarea, select')) return;
+
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z') {
+      event.preventDefault();
+      if (event.shiftKey) {
+        this.authoring.redo();
+      } else {
+        this.authoring.undo();
+      }
+      return;
+    }
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'y') {
+      event.preventDefault();
+      this.authoring.redo();
+      return;
+    }
+    if (event.key === ',') {
+      this.controls.enabled = false;
+      return;
+    }
+    if (event.key === '.') {
+      this.controls.enabled = true;
+      return;
+    }
+
+    const pointId = this.selection.pointId;
+    const anchor = pointId ? this.authoring.getPoint(pointId)?.anchor : null;
+    if (!pointId || !anchor) return;
+
+    const right = new THREE.Vector3().setFromMatrixColumn(this.camera.matrixWorld, 0);
+    const up = new THREE.Vector3().setFromMatrixColumn(this.camera.matrixWorld, 1);
+    const back = new THREE.Vector3().setFromMatrixColumn(this.camera.matrixWorld, 2);
+    let direction: THREE.Vector3;
+    switch (event.key) {
+      case 'ArrowLeft': direction = right.negate(); break;
+      case 'ArrowRight': direction = right; break;
+      case 'ArrowUp': direction = up; break;
+      case 'ArrowDown': direction = up.negate(); break;
+      case '+': case '=': direction = back.negate(); break;
+      case '-': direction = back; break;
+      default: return;
+    }
+    event.preventDefault();
+
+    // Held keys repeat; the whole press is one undo step
+    if (!this.nudging) {
+      this.authoring.beginEdit(pointId);
+      this.nudging = true;
+    }
+
+    const inverse = this.bodyRoot.matrixWorld.clone().invert();
+    direction.transformDirection(inverse).multiplyScalar(NUDGE_STEP * (event.shiftKey ? 10 : 1));
+    // With the mirrored side selected the keys move it as seen, so the placed side moves mirrored
+    const laterality = this.selection.laterality;
+    if (laterality !== 'bilateral' && this.sagittal.sideOf(new THREE.Vector3().fromArray(anchor.position)) !== laterality) {
+      direction.x = -direction.x;
+    }
+    const position = new THREE.Vector3().fromArray(anchor.position).add(direction);
+    const moved = this.createAnchor(position, anchor, this.snapToSurface);
+    this.authoring.previewAnchor(pointId, moved);
+    this.previewMarkers(pointId, moved);
+  }
+
+  private onAuthoringKeyUp(event: KeyboardEvent): void {
+    if (!this.nudging || (!event.key.startsWith('Arrow') && !['+', '=', '-'].includes(event.key))) return;
+
+    this.nudging = false;
+    this.authoring?.endEdit();
+  }
+
+  // Everything that shows the selected point follows the selection model
+  private onSelectionChange(event: SelectionChangeEvent): void {
+    const point = event.pointId ? this.dataset?.get(event.pointId) : undefined;
+
+    // Picking a point by hand ends the walk through a replayed session
+    if (event.source !== 'api') {
+      window.clearTimeout(this.replayTimer);
+    }
+
+    // A selected point is always visible, even if its channel was hidden
+    if (point) {
+      this.showMeridianOf(point);
+    }
+
+    this.markers.setSelected(point ? point.id : null, event.laterality);
+    this.pointLabels.setSelected(point ? point.id : null);
+    this.syncSidebar(point);
+    this.updatePlacing();
+    this.updateMeasurePanel(point);
+    this.prescriptionPanel?.updateAddButton();
+    this.patientLogPanel?.updateSessionPoints();
+    this.announcer.announce(point ? this.describePoint(point, event.laterality) : this.i18n.t('point.none'));
+
+    // Routes focus the camera themselves
+    if (this.applyingRoute) return;
+
+    this.routeView = null;
+    // A point picked in the viewer is already in sight
+    if (point && event.source !== 'viewer') {
+      this.focusPoint(point, null, event.laterality);
+    }
+    this.updateRoute(false);
+  }
+
+  // Open the selected entry in the sidebar and bring it into view
+  private syncSidebar(point: Acupoint | undefined, scroll: boolean = true): void {
+    $('#content li.active').removeClass('active');
+    $('#content a[aria-current]').removeAttr('aria-current');
+    $('#point-details').remove();
+    this.authoringPanel?.setPoint(point && this.authoring?.getPoint(point.id));
+    if (!point) return;
+
+    // While searching, details open under the result instead of the hidden list entry
+    let $item = this.searchActive ? $('#point-search').find(`a[data-result-id="${point.id}"]`).parent() : $();
+    if ($item.length === 0) {
+      $item = $('#point-lists').find(`a[data-point-id="${point.id}"]`).parent();
+    }
+    $item.addClass('active');
+    $item.children('a').attr('aria-current', 'true');
+    $item.append(this.createPointDetails(point));
+
+    const item = $item.get(0);
+    if (item && scroll) {
+      item.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }
+
+  // Everything that shows text follows the chosen language and code system
+  private onLocaleChange(): void {
+    this.updateViewerLabels();
+    this.viewToolbar.updateLabels();
+    this.searchBox.updateLabels();
+    this.pointLabels.render();
+    if (this.dataset) {
+      this.legend.render(this.dataset.meridians, this.hiddenMeridians);
+    }
+    this.authoringPanel?.updateLabels();
+    this.measurePanel?.updateLabels();
+    this.xrayPanel?.updateLabels();
+    this.prescriptionPanel?.updateLabels();
+    this.patientLogPanel?.refresh();
+    this.studyPanel?.render();
+    this.renderSidebar();
+    this.updateRoute(true);
+  }
+
+  private updateViewerLabels(): void {
+    document.documentElement.lang = this.i18n.locale;
+    const canvas = this.renderer.domElement;
+    canvas.setAttribute('aria-label', this.i18n.t('viewer.label'));
+    $('#viewer-help').text(this.i18n.t('viewer.help', { count: this.viewPresets.length }));
+  }
+
+  private showViewPreset(presetId: string): void {
+    const preset = this.viewPresets.find(candidate => candidate.id === presetId);
+    if (!preset || !this.modelBounds) return;
+
+    const pose = resolveViewPreset(preset, this.modelBounds, this.bodyRoot);
+    this.controls.flyTo(pose.position, pose.target);
+    this.announcer.announce(this.i18n.t('view.announce', { label: viewPresetLabel(preset, this.i18n) }));
+  }
+
+  // What screen readers say for a selected point: its names and where to find it
+  private describePoint(point: Acupoint, laterality: Laterality = 'bilateral'): string {
+    const meridian = this.dataset?.getMeridian(point.meridian);
+    const location = this.i18n.pointSection(point, 'localizacao');
+    return [
+      `${this.i18n.pointCode(point)} ${this.i18n.pointPinyin(point)}, ${this.i18n.pointName(point)}.`,
+      laterality !== 'bilateral' ? `${this.i18n.t(`side.${laterality}`)}.` : '',
+      meridian ? `${this.i18n.meridianFullName(meridian)}.` : '',
+      location ? `${this.i18n.sectionTitle('localizacao')}: ${location.value.join(' ')}` : ''
+    ].filter(part => part !== '').join(' ');
+  }
+
+  // Shortcuts outside text fields: N/P walk the selected point's meridian, digits pick a view, / jumps to search,
+  // Enter on the viewer moves focus to the selected point in the list
+  private onNavigationKeyDown(event: KeyboardEvent): void {
+    if (event.ctrlKey || event.metaKey || event.altKey || event.defaultPrevented) return;
+    if (event.target instanceof HTMLElement && event.target.closest('input, textarea, select')) return;
+
+    const key = event.key.toLowerCase();
+    const preset = this.viewPresets.find(candidate => candidate.key === event.key);
+    if (key === 'n' || key === 'p') {
+      event.preventDefault();
+      const fromList = event.target instanceof HTMLElement && event.target.closest('#point-lists') !== null;
+      this.selectAdjacentPoint(key === 'n' ? 1 : -1);
+      if (fromList) {
+        this.focusListItem(this.selection.pointId);
+      }
+    } else if (preset) {
+      event.preventDefault();
+      this.showViewPreset(preset.id);
+    } else if (key === '/') {
+      event.preventDefault();
+      $(this.searchBox.element).find('input').trigger('focus');
+    } else if (key === 'enter' && event.target === this.renderer.domElement) {
+      event.preventDefault();
+      if (!this.focusListItem(this.selection.pointId)) {
+        $(this.searchBox.element).find('input').trigger('focus');
+      }
+    }
+  }
+
+  // Up/Down/Home/End move between the visible points of the list; Escape goes to the viewer
+  private onPointListKeyDown(event: KeyboardEvent): void {
+    const links = $('#point-lists ul:not(.hidden-meridian) a[data-point-id]').toArray();
+    const index = links.indexOf(event.target as HTMLElement);
+    let next: HTMLElement | undefined;
+
+    switch (event.key) {
+      case 'ArrowDown': next = links[Math.min(index + 1, links.length - 1)]; break;
+      case 'ArrowUp': next = links[Math.max(index - 1, 0)]; break;
+      case 'Home': next = links[0]; break;
+      case 'End': next = links[links.length - 1]; break;
+      case 'Escape':
+        event.preventDefault();
+        this.renderer.domElement.focus();
+        return;
+      default: return;
+    }
+    event.preventDefault();
+    next?.focus();
+  }
+
+  // Next or previous point of the selected point's meridian, wrapping round at the ends.
+  // With nothing selected, starts at the first point of the first visible meridian.
+  private selectAdjacentPoint(step: number): void {
+    const dataset = this.dataset;
+    if (!dataset) return;
+
+    const current = this.selection.pointId ? dataset.get(this.selection.pointId) : undefined;
+    if (!current) {
+      const meridian = dataset.meridians.find(m => !this.hiddenMeridians.has(m.id) && dataset.byMeridian(m.id).length > 0);
+      const first = meridian ? dataset.byMeridian(meridian.id)[0] : undefined;
+      if (first) this.selection.select(first.id, 'api');
+      return;
+    }
+
+    const points = dataset.byMeridian(current.meridian);
+    const index = points.findIndex(point => point.id === current.id);
+    const next = points[(index + step + points.length) % points.length];
+    this.selection.select(next.id, 'api');
+  }
+
+  // Focus the point's entry in the sidebar list; false when it has none
+  private focusListItem(pointId: string | null): boolean {
+    const link = pointId ? $('#point-lists').find(`a[data-point-id="${pointId}"]`).get(0) : undefined;
+    if (!link || $(link).is(':hidden')) return false;
+
+    link.focus();
+    return true;
+  }
+
+  private onPointHover(pointId: string | null, clientX: number, clientY: number, laterality: Laterality = 'bilateral'): void {
+    this.markers.setHovered(pointId, laterality);
+
+    const point = pointId ? this.dataset?.get(pointId) : undefined;
+    this.renderer.domElement.style.cursor = point ? 'pointer' : '';
+
+    if (!point) {
+      this.tooltip.classList.remove('visible');
+      return;
+    }
+
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    const side = laterality !== 'bilateral' ? ` – ${this.i18n.t(`side.${laterality}`)}` : '';
+    $(this.tooltip).text(`${this.i18n.pointCode(point)} ${this.i18n.pointPinyin(point)} (${this.i18n.pointName(point)})${side}`);
+    this.tooltip.style.left = `${clientX - rect.left + 12}px`;
+    this.tooltip.style.top = `${clientY - rect.top + 12}px`;
+    this.tooltip.classList.add('visible');
+  }
+
+  private createPointDetails(point: Acupoint): JQuery {
+    const $details = $('<div id="point-details" class="acuponto"></div>');
+    const $title = $('<h3></h3>').text(`${this.i18n.pointCode(point)} (${this.i18n.pointPinyin(point)}) `);
+    const hanzi = this.i18n.pointHanzi(point);
+    const name = this.i18n.pointName(point);
+    if (hanzi && hanzi !== name) {
+      $title.append($('<span lang="zh"></span>').text(hanzi), ' ');
+    }
+    $title.append(document.createTextNode(name));
+    $details.append($title);
+
+    // Either side of a bilateral point, or both
+    if (point.symmetry === 'bilateral') {
+      const $sides = $('<div class="btn-group btn-group-sm mb-2" role="group"></div>').attr('aria-label', this.i18n.t('side.label'));
+      LATERALITIES.forEach(laterality => {
+        const active = laterality === this.selection.laterality;
+        $('<button type="button" class="btn btn-outline-secondary"></button>')
+          .text(this.i18n.t(laterality === 'bilateral' ? 'side.both' : `side.${laterality}`))
+          .toggleClass('active', active)
+          .attr('aria-pressed', String(active))
+          .on('click', () => this.selection.select(point.id, 'sidebar', laterality))
+          .appendTo($sides);
+      });
+      $details.append($('<div></div>').append($sides));
+    }
+
+    if (this.prescriptionPanel) {
+      const index = this.prescription.items.findIndex(item => item.pointId === point.id);
+      const $prescribe = $('<button type="button" class="btn btn-outline-secondary btn-sm mb-2"></button>')
+        .text(index >= 0 ? this.i18n.t('prescription.remove', { number: index + 1 }) : this.i18n.t('prescription.add'));
+      $prescribe.on('click', () => {
+        if (index >= 0) {
+          this.prescription.remove(index);
+        } else {
+          this.prescription.add(point.id, this.selection.laterality);
+        }
+      });
+      $details.append($prescribe);
+    }
+
+    point.images.forEach(src => {
+      $details.append($('<img class="img-responsive">').attr('src', src).attr('alt', this.i18n.pointCode(point)));
+    });
+
+    CONTENT_SECTIONS.forEach(section => {
+      const content = this.i18n.pointSection(point, section.key);
+      if (!content) return;
+
+      $details.append($('<h4></h4>').text(this.i18n.sectionTitle(section.key)));
+      // Untranslated content keeps its language for screen readers
+      const $list = $('<ul class="main_content_list"></ul>').attr('lang', content.locale);
+      content.value.forEach(item => $list.append($('<li></li>').text(item)));
+      $details.append($list);
+    });
+
+    return $details;
+  }
+
+  // Fly to the point, on one side for bilateral points. With a view the camera looks at
+  // it from that side; otherwise it looks down the surface normal, falling back to the
+  // point's legacy view.
+  private focusPoint(point: Acupoint, view?: AnchorView | null, laterality: Laterality = 'bilateral'): void {
+    if (!point.anchor) {
+      console.warn(`No 3D position for point: ${point.id}`);
+      return;
+    }
+
+    const placement = this.getPlacement(point.id, laterality);
+    let position = placement ? placement.position.clone() : new THREE.Vector3().fromArray(point.anchor.position);
+    // The legacy view was chosen for the placed side; the mirrored side is seen from the other side
+    let anchorView = point.anchor.view;
+    const placedSide = this.sagittal.sideOf(new THREE.Vector3().fromArray(point.anchor.position));
+    if (point.symmetry === 'bilateral' && laterality !== 'bilateral' && laterality !== placedSide) {
+      if (!placement) position = this.sagittal.reflect(position);
+      if (anchorView === 'left' || anchorView === 'right') anchorView = anchorView === 'left' ? 'right' : 'left';
+    }
+    const target = this.bodyRoot.localToWorld(position);
+
+    if (placement && !view) {
+      const normal = placement.normal.clone().transformDirection(this.bodyRoot.matrixWorld);
+      this.controls.flyToSurfacePoint(target, normal, FOCUS_DISTANCE);
+      return;
+    }
+
+    const distance = THREE.MathUtils.clamp(
+      this.camera.position.distanceTo(this.controls.target),
+      this.controls.minDistance,
+      this.controls.maxDistance
+    );
+    const direction = VIEW_DIRECTIONS[view || anchorView || 'anterior'];
+    this.controls.flyTo(target.clone().addScaledVector(direction, distance), target);
   }
 
   private onWindowResize(container: HTMLElement): void {
@@ -236,6 +1699,12 @@ class AcupunctureApp {
     
     // Render scene
     this.renderer.render(this.scene, this.camera);
+
+    // Labels follow the camera as just drawn
+    if (this.pointLabels.enabled && this.humanModel) {
+      this.occlusion.update(this.renderer, this.camera);
+    }
+    this.pointLabels.update(this.camera, this.bodyRoot, this.humanModel ? this.occlusion : null);
   }
 }
 
@@ -0,0 +1,89 @@
+import { Vector3 } from 'three';
+import { SurfaceAnchor } from '../data/AcupointDataset';
+import { MessageKey } from '../i18n/messages';
+import { GeodesicPath } from '../scene/SurfaceAnchors';
+
+// Two landmarks a known number of cun apart, given by the codes of the points on them
+export interface CunLandmarkPair {
+  from: string;
+  to: string;
+  cun: number;
+  // Message naming the landmarks, shown with measurements calibrated by the pair
+  label: MessageKey;
+}
+
+// A landmark pair measured on the loaded model
+export interface CunCalibration {
+  pair: CunLandmarkPair;
+  // Model units (the resolver frame) per cun
+  unitsPerCun: number;
+  // Middle of the measured path; calibrations apply to the body region around them
+  center: Vector3;
+}
+
+// Resolves a landmark point code to its place on the surface
+export type LandmarkFunction = (code: string) => SurfaceAnchor | null;
+export type GeodesicFunction = (from: SurfaceAnchor, to: SurfaceAnchor) => GeodesicPath | null;
+
+// Proportional cun: the unit differs between body regions, so each length is converted
+// with the calibration measured closest to it
+export class CunScale {
+  constructor(readonly calibrations: CunCalibration[]) {}
+
+  // Measures every pair whose landmarks are placed on the model; others are skipped
+  static calibrate(pairs: CunLandmarkPair[], landmark: LandmarkFunction, geodesic: GeodesicFunction): CunScale {
+    const calibrations: CunCalibration[] = [];
+
+    pairs.forEach(pair => {
+      const from = landmark(pair.from);
+      const to = landmark(pair.to);
+      const path = from && to ? geodesic(from, to) : null;
+      if (!path || path.length <= 0 || pair.cun <= 0) {
+        console.warn(`Cannot calibrate cun from ${pair.from} – ${pair.to}`);
+        return;
+      }
+
+      calibrations.push({ pair, unitsPerCun: path.length / pair.cun, center: pointAlong(path, path.length / 2) });
+    });
+
+    return new CunScale(calibrations);
+  }
+
+  get calibrated(): boolean {
+    return this.calibrations.length > 0;
+  }
+
+  calibrationAt(position: Vector3): CunCalibration | null {
+    let best: CunCalibration | null = null;
+    for (const calibration of this.calibrations) {
+      if (!best || calibration.center.distanceToSquared(position) < best.center.distanceToSquared(position)) {
+        best = calibration;
+      }
+    }
+    return best;
+  }
+
+  // Length in model units near position, in cun
+  toCun(length: number, position: Vector3): number | null {
+    const calibration = this.calibrationAt(position);
+    return calibration ? length / calibration.unitsPerCun : null;
+  }
+
+  toUnits(cun: number, position: Vector3): number | null {
+    const calibration = this.calibrationAt(position);
+    return calibration ? cun * calibration.unitsPerCun : null;
+  }
+}
+
+// Point a given length along a path
+export function pointAlong(path: GeodesicPath, length: number): Vector3 {
+  let remaining = length;
+  for (let i = 1; i < path.points.length; i++) {
+    const segment = path.points[i].distanceTo(path.points[i - 1]);
+    if (remaining <= segment && segment > 0) {
+      return path.points[i - 1].clone().lerp(path.points[i], remaining / segment);
+    }
+    remaining -= segment;
+  }
+  return path.points[path.points.length - 1].clone();
+}
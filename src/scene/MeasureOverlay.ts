@@ -0,0 +1,77 @@
+import {
+  CatmullRomCurve3,
+  Group,
+  Mesh,
+  MeshPhongMaterial,
+  SphereGeometry,
+  TubeGeometry,
+  Vector3
+} from 'three';
+
+// Legacy units, like the point markers and channels
+const RULER_RADIUS = 0.12;
+const END_RADIUS = 0.35;
+const MARKER_RADIUS = 0.45;
+const RULER_COLOR = 0xff8800;
+const MARKER_COLOR = 0x00a0ff;
+
+// What the measurement tool draws on the body: the ends and path of the ruler, and
+// the marker placed a number of cun along a meridian
+export class MeasureOverlay extends Group {
+  private ends: Mesh<SphereGeometry, MeshPhongMaterial>[] = [];
+  private path: Mesh<TubeGeometry, MeshPhongMaterial> | null = null;
+  private marker: Mesh<SphereGeometry, MeshPhongMaterial>;
+  private rulerMaterial = new MeshPhongMaterial({ color: RULER_COLOR });
+  private endGeometry = new SphereGeometry(END_RADIUS, 12, 12);
+
+  constructor() {
+    super();
+    this.name = 'measureOverlay';
+
+    this.marker = new Mesh(new SphereGeometry(MARKER_RADIUS, 16, 16), new MeshPhongMaterial({ color: MARKER_COLOR }));
+    this.marker.visible = false;
+    this.add(this.marker);
+  }
+
+  setEnds(positions: Vector3[]): void {
+    this.ends.forEach(end => this.remove(end));
+    this.ends = positions.map(position => {
+      const end = new Mesh(this.endGeometry, this.rulerMaterial);
+      end.position.copy(position);
+      this.add(end);
+      return end;
+    });
+  }
+
+  setPath(points: Vector3[] | null): void {
+    if (this.path) {
+      this.path.geometry.dispose();
+      this.remove(this.path);
+      this.path = null;
+    }
+    if (!points || points.length < 2) return;
+
+    const curve = new CatmullRomCurve3(points, false, 'centripetal');
+    this.path = new Mesh(new TubeGeometry(curve, points.length * 4, RULER_RADIUS, 6, false), this.rulerMaterial);
+    this.add(this.path);
+  }
+
+  setMarker(position: Vector3 | null): void {
+    this.marker.visible = position !== null;
+    if (position) this.marker.position.copy(position);
+  }
+
+  reset(): void {
+    this.setEnds([]);
+    this.setPath(null);
+    this.setMarker(null);
+  }
+
+  dispose(): void {
+    this.reset();
+    this.rulerMaterial.dispose();
+    this.endGeometry.dispose();
+    this.marker.geometry.dispose();
+    this.marker.material.dispose();
+  }
+}
@@ -0,0 +1,132 @@
+import {
+  CatmullRomCurve3,
+  Group,
+  Mesh,
+  MeshPhongMaterial,
+  TubeGeometry,
+  Vector3
+} from 'three';
+import { AcupointDataset } from '../data/AcupointDataset';
+import { meridianColor } from './meridianColors';
+import { SurfaceAnchorResolver } from './SurfaceAnchors';
+
+// Legacy units, like the point markers
+const CHANNEL_RADIUS = 0.18;
+// Lift the curve off the skin so it is not hidden inside the surface
+const SURFACE_OFFSET = 0.25;
+const SAMPLES_PER_SEGMENT = 12;
+// Sample spacing when locating a point on a channel
+const WALK_STEP = 0.05;
+
+// Position of a point in the legacy frame, or null when it has none
+export type PointPositionFunction = (pointId: string) => Vector3 | null;
+
+type Channel = Mesh<TubeGeometry, MeshPhongMaterial>;
+
+// Channel pathways: one tube per meridian through its points in order, plus one
+// through the mirrored points of paired channels. Between points the curve is pulled
+// back onto the body surface when a resolver is given.
+export class MeridianChannels extends Group {
+  private channels = new Map<string, Channel[]>();
+  private paths = new Map<string, CatmullRomCurve3>();
+  private hidden = new Set<string>();
+
+  constructor() {
+    super();
+    this.name = 'meridianChannels';
+  }
+
+  // getMirroredPosition gives the other side's instance of bilateral points, null for midline ones
+  setChannels(
+    dataset: AcupointDataset,
+    getPosition: PointPositionFunction,
+    resolver: SurfaceAnchorResolver | null,
+    getMirroredPosition: PointPositionFunction = () => null
+  ): void {
+    this.clearChannels();
+
+    dataset.meridians.forEach(meridian => {
+      const points = dataset.byMeridian(meridian.id);
+      const channels: Channel[] = [];
+      [getPosition, getMirroredPosition].forEach((positionOf, i) => {
+        const positions = points
+          .map(point => positionOf(point.id))
+          .filter((position): position is Vector3 => position !== null);
+        if (positions.length < 2) return;
+
+        const path = this.followSurface(new CatmullRomCurve3(positions, false, 'centripetal'), positions.length, resolver);
+        // Walking follows the placed side
+        if (i === 0) this.paths.set(meridian.id, path);
+        channels.push(this.createChannel(meridian.id, path, i === 0 ? '' : '-mirrored'));
+      });
+      if (channels.length > 0) this.channels.set(meridian.id, channels);
+    });
+  }
+
+  setMeridianVisible(meridianId: string, visible: boolean): void {
+    if (visible) {
+      this.hidden.delete(meridianId);
+    } else {
+      this.hidden.add(meridianId);
+    }
+
+    this.channels.get(meridianId)?.forEach(channel => {
+      channel.visible = visible;
+    });
+  }
+
+  // Position a distance along the channel from its closest approach to `from`.
+  // Positive distances run towards higher point numbers; null past either end.
+  walk(meridianId: string, from: Vector3, distance: number): Vector3 | null {
+    const path = this.paths.get(meridianId);
+    if (!path) return null;
+
+    const length = path.getLength();
+    const divisions = Math.max(1, Math.ceil(length / WALK_STEP));
+    const samples = path.getSpacedPoints(divisions);
+    let nearest = 0;
+    samples.forEach((sample, i) => {
+      if (sample.distanceToSquared(from) < samples[nearest].distanceToSquared(from)) nearest = i;
+    });
+
+    const at = (nearest / divisions) * length + distance;
+    if (at < 0 || at > length) return null;
+    return path.getPointAt(at / length);
+  }
+
+  dispose(): void {
+    this.clearChannels();
+  }
+
+  private createChannel(meridianId: string, path: CatmullRomCurve3, suffix: string): Channel {
+    const geometry = new TubeGeometry(path, path.points.length * 2, CHANNEL_RADIUS, 6, false);
+    const material = new MeshPhongMaterial({ color: meridianColor(meridianId) });
+
+    const channel = new Mesh(geometry, material);
+    channel.name = `channel-${meridianId}${suffix}`;
+    channel.userData.meridianId = meridianId;
+    channel.visible = !this.hidden.has(meridianId);
+    this.add(channel);
+    return channel;
+  }
+
+  private followSurface(curve: CatmullRomCurve3, pointCount: number, resolver: SurfaceAnchorResolver | null): CatmullRomCurve3 {
+    if (!resolver) return curve;
+
+    const samples = curve.getSpacedPoints((pointCount - 1) * SAMPLES_PER_SEGMENT).map(sample => {
+      const placement = resolver.project(sample);
+      return placement ? placement.position.addScaledVector(placement.normal, SURFACE_OFFSET) : sample;
+    });
+    return new CatmullRomCurve3(samples, false, 'centripetal');
+  }
+
+  private clearChannels(): void {
+    this.channels.forEach(channels => channels.forEach(channel => {
+      channel.geometry.dispose();
+      channel.material.dispose();
+      this.remove(channel);
+    }));
+    this.channels.clear();
+    this.paths.clear();
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  Color,
+  DoubleSide,
+  Matrix4,
+  Mesh,
+  MeshDepthMaterial,
+  Object3D,
+  PerspectiveCamera,
+  Plane,
+  RGBADepthPacking,
+  Scene,
+  Vector2,
+  Vector3,
+  WebGLRenderer,
+  WebGLRenderTarget
+} from 'three';
+
+// Fraction of the canvas size the depth is rendered at
+const RESOLUTION = 0.25;
+// Re-read at most this often while the camera moves, in milliseconds
+const UPDATE_INTERVAL = 200;
+// How far behind the skin, in metres, a point counts as hidden; points on the skin
+// are at the same depth as it
+const TOLERANCE = 0.03;
+
+// Depth of the body as seen from the camera, rendered small and read back, so many
+// points can be tested for being hidden behind it without a ray cast each. Only the
+// body is drawn, clipped like the visible one.
+export class OcclusionMap {
+  private scene = new Scene();
+  private material = new MeshDepthMaterial({ depthPacking: RGBADepthPacking, side: DoubleSide });
+  private target = new WebGLRenderTarget(1, 1);
+  private pixels = new Uint8Array(4);
+  // The camera the map was read with, and whether it is out of date
+  private viewProjection = new Matrix4();
+  private viewMatrix = new Matrix4();
+  private near = 0.1;
+  private far = 1000;
+  private rendered = false;
+  private dirty = true;
+  private lastUpdate = 0;
+
+  constructor() {
+    this.scene.matrixWorldAutoUpdate = false;
+  }
+
+  // Draw these meshes from now on; call again if the body is moved
+  setModel(model: Object3D): void {
+    this.scene.clear();
+    model.updateWorldMatrix(true, true);
+    model.traverse(child => {
+      if (!(child instanceof Mesh)) return;
+      const mesh = new Mesh(child.geometry, this.material);
+      mesh.matrixAutoUpdate = false;
+      mesh.matrix.copy(child.matrixWorld);
+      mesh.matrixWorld.copy(child.matrixWorld);
+      this.scene.add(mesh);
+    });
+    this.dirty = true;
+  }
+
+  setClippingPlanes(planes: Plane[]): void {
+    this.material.clippingPlanes = planes;
+    this.dirty = true;
+  }
+
+  // Render and read the map again if the camera moved, at most every UPDATE_INTERVAL
+  update(renderer: WebGLRenderer, camera: PerspectiveCamera, now: number = performance.now()): void {
+    const viewProjection = new Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+    if (!this.dirty && viewProjection.equals(this.viewProjection)) return;
+    if (now - this.lastUpdate < UPDATE_INTERVAL) return;
+
+    const size = renderer.getDrawingBufferSize(new Vector2()).multiplyScalar(RESOLUTION).floor().max(new Vector2(1, 1));
+    if (size.x !== this.target.width || size.y !== this.target.height) {
+      this.target.setSize(size.x, size.y);
+      this.pixels = new Uint8Array(size.x * size.y * 4);
+    }
+
+    // White reads back as the far plane
+    const clearColor = renderer.getClearColor(new Color());
+    const clearAlpha = renderer.getClearAlpha();
+    const previousTarget = renderer.getRenderTarget();
+    renderer.setClearColor(0xffffff, 1);
+    renderer.setRenderTarget(this.target);
+    renderer.clear();
+    renderer.render(this.scene, camera);
+    renderer.readRenderTargetPixels(this.target, 0, 0, size.x, size.y, this.pixels);
+    renderer.setRenderTarget(previousTarget);
+    renderer.setClearColor(clearColor, clearAlpha);
+
+    this.viewProjection.copy(viewProjection);
+    this.viewMatrix.copy(camera.matrixWorldInverse);
+    this.near = camera.near;
+    this.far = camera.far;
+    this.rendered = true;
+    this.dirty = false;
+    this.lastUpdate = now;
+  }
+
+  // Whether the body is in front of a world position, as of the last update
+  isOccluded(position: Vector3): boolean {
+    if (!this.rendered) return false;
+
+    const ndc = position.clone().applyMatrix4(this.viewProjection);
+    if (Math.abs(ndc.x) > 1 || Math.abs(ndc.y) > 1 || Math.abs(ndc.z) > 1) return false;
+
+    const x = Math.min(this.target.width - 1, Math.floor((ndc.x * 0.5 + 0.5) * this.target.width));
+    const y = Math.min(this.target.height - 1, Math.floor((ndc.y * 0.5 + 0.5) * this.target.height));
+    const depth = unpackDepth(this.pixels, (y * this.target.width + x) * 4);
+
+    // Compared as distances along the view axis, since depth is not linear
+    const bodyDistance = (this.near * this.far) / (this.far - depth * (this.far - this.near));
+    const pointDistance = -position.clone().applyMatrix4(this.viewMatrix).z;
+    return pointDistance - bodyDistance > TOLERANCE;
+  }
+
+  dispose(): void {
+    this.scene.clear();
+    this.material.dispose();
+    this.target.dispose();
+  }
+}
+
+// Inverse of three's packDepthToRGBA
+function unpackDepth(pixels: Uint8Array, offset: number): number {
+  return pixels[offset] / 256 ** 4 + pixels[offset + 1] / 256 ** 3 + pixels[offset + 2] / 256 ** 2 + pixels[offset + 3] / 256;
+}
@@ -0,0 +1,77 @@
+import { CanvasTexture, Group, Sprite, SpriteMaterial, Vector3 } from 'three';
+
+export interface PointBadge {
+  position: Vector3;
+  // Surface normal; the badge floats above the skin along it
+  normal: Vector3 | null;
+  label: string;
+}
+
+// Legacy units, like the point markers
+const BADGE_SIZE = 2.4;
+const BADGE_OFFSET = 1.6;
+const TEXTURE_SIZE = 64;
+const BADGE_COLOR = '#ffb000';
+
+// Round numbered labels that always face the camera, e.g. the order of the points
+// in a prescription. Lives in the legacy frame next to the markers.
+export class PointBadges extends Group {
+  private sprites: Sprite[] = [];
+
+  constructor() {
+    super();
+    this.name = 'pointBadges';
+  }
+
+  setBadges(badges: PointBadge[]): void {
+    this.clearBadges();
+
+    badges.forEach(badge => {
+      const material = new SpriteMaterial({ map: this.createTexture(badge.label) });
+      const sprite = new Sprite(material);
+      sprite.position.copy(badge.position);
+      if (badge.normal) {
+        sprite.position.addScaledVector(badge.normal, BADGE_OFFSET);
+      }
+      sprite.scale.setScalar(BADGE_SIZE);
+      this.sprites.push(sprite);
+      this.add(sprite);
+    });
+  }
+
+  dispose(): void {
+    this.clearBadges();
+  }
+
+  private createTexture(label: string): CanvasTexture {
+    const canvas = document.createElement('canvas');
+    canvas.width = TEXTURE_SIZE;
+    canvas.height = TEXTURE_SIZE;
+
+    const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+    context.fillStyle = BADGE_COLOR;
+    context.strokeStyle = '#ffffff';
+    context.lineWidth = 4;
+    context.beginPath();
+    context.arc(TEXTURE_SIZE / 2, TEXTURE_SIZE / 2, TEXTURE_SIZE / 2 - 3, 0, Math.PI * 2);
+    context.fill();
+    context.stroke();
+
+    context.fillStyle = '#000000';
+    context.font = `bold ${label.length > 2 ? 22 : 30}px sans-serif`;
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(label, TEXTURE_SIZE / 2, TEXTURE_SIZE / 2 + 1);
+
+    return new CanvasTexture(canvas);
+  }
+
+  private clearBadges(): void {
+    this.sprites.forEach(sprite => {
+      sprite.material.map?.dispose();
+      sprite.material.dispose();
+      this.remove(sprite);
+    });
+    this.sprites = [];
+  }
+}
@@ -0,0 +1,318 @@
+import {
+  Color,
+  DynamicDrawUsage,
+  GreaterDepth,
+  Group,
+  InstancedBufferAttribute,
+  InstancedMesh,
+  Matrix4,
+  MeshBasicMaterial,
+  Quaternion,
+  Ray,
+  Raycaster,
+  ShaderMaterial,
+  Sphere,
+  SphereGeometry,
+  Vector3
+} from 'three';
+import { Acupoint, BodySide, Laterality } from '../data/AcupointDataset';
+import { meridianColor } from './meridianColors';
+
+// Sized in legacy units, like the 0.3 spheres of acu.html
+const MARKER_RADIUS = 0.5;
+const SELECTED_SCALE = 1.6;
+const HOVERED_SCALE = 1.3;
+const HIGHLIGHTED_SCALE = 1.3;
+
+const HOVERED_COLOR = 0x000000;
+const SELECTED_COLOR = 0xff0000;
+const HIGHLIGHTED_COLOR = 0xffb000;
+
+// Markers draw after the body, transparent or not, so it hides them by depth; the part
+// of a marker behind the skin is drawn again on top, faded with an outline
+const MARKER_RENDER_ORDER = 1;
+const OCCLUDED_RENDER_ORDER = 2;
+const OCCLUDED_OPACITY = 0.3;
+
+const OCCLUDED_VERTEX_SHADER = `
+varying vec3 vNormal;
+varying vec3 vColor;
+
+void main() {
+  vColor = instanceColor;
+  vNormal = normalize(normalMatrix * mat3(instanceMatrix) * normal);
+  gl_Position = projectionMatrix * modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+}
+`;
+
+// Solid towards the silhouette, faint in the middle
+const OCCLUDED_FRAGMENT_SHADER = `
+uniform float opacity;
+varying vec3 vNormal;
+varying vec3 vColor;
+
+void main() {
+  float rim = smoothstep(0.45, 0.75, 1.0 - abs(normalize(vNormal).z));
+  gl_FragColor = vec4(vColor, mix(opacity, 1.0, rim));
+}
+`;
+
+// Hidden instances are collapsed to nothing
+const HIDDEN_MATRIX = new Matrix4().makeScale(0, 0, 0);
+
+// One place a point is shown: bilateral points have one on each side of the body,
+// midline points a single one with side null
+export interface PointInstance {
+  side: BodySide | null;
+  position: Vector3;
+}
+
+// A point, or one side of it; prescription items have this shape
+export interface MarkedPoint {
+  pointId: string;
+  laterality: Laterality;
+}
+
+// What is drawn at one instance id
+interface MarkerInstance extends PointInstance {
+  pointId: string;
+  meridianId: string;
+  // In the current state, for picking
+  scale: number;
+  shown: boolean;
+}
+
+type MarkerMesh = InstancedMesh<SphereGeometry, MeshBasicMaterial>;
+type OccludedMesh = InstancedMesh<SphereGeometry, ShaderMaterial>;
+
+// Every point instance in one draw call: an InstancedMesh of spheres whose colour,
+// size and visibility follow the selection, hover, visible meridians and filter, and
+// a second one over the same instances for the parts hidden behind the body. Placed
+// in the legacy scene frame; add it to the same parent as the body.
+export class PointMarkers extends Group {
+  private geometry = new SphereGeometry(MARKER_RADIUS, 16, 16);
+  // White, so the instance colours show as they are
+  private material = new MeshBasicMaterial({ transparent: true });
+  private occludedMaterial = new ShaderMaterial({
+    uniforms: { opacity: { value: OCCLUDED_OPACITY } },
+    vertexShader: OCCLUDED_VERTEX_SHADER,
+    fragmentShader: OCCLUDED_FRAGMENT_SHADER,
+    transparent: true,
+    depthWrite: false,
+    depthFunc: GreaterDepth
+  });
+  private mesh: MarkerMesh;
+  private occludedMesh: OccludedMesh;
+  // By instance id
+  private instances: MarkerInstance[] = [];
+  private instanceIds = new Map<string, number[]>();
+  private selected: MarkedPoint | null = null;
+  private hovered: MarkedPoint | null = null;
+  private highlighted = new Map<string, Laterality[]>();
+  private hiddenMeridians = new Set<string>();
+  private filter: Set<string> | null = null;
+  private occludedVisible = true;
+
+  constructor() {
+    super();
+    this.name = 'pointMarkers';
+    [this.mesh, this.occludedMesh] = this.createMeshes(0);
+  }
+
+  // Instances come from the caller: on the surface when a placement is known, else
+  // at the legacy position. Points without instances get no marker.
+  setPoints(points: Acupoint[], instances: Map<string, PointInstance[]>): void {
+    this.instances = [];
+    this.instanceIds.clear();
+    points.forEach(point => {
+      (instances.get(point.id) || []).forEach(instance => {
+        this.instanceIds.set(point.id, [...(this.instanceIds.get(point.id) || []), this.instances.length]);
+        this.instances.push({
+          pointId: point.id,
+          meridianId: point.meridian,
+          side: instance.side,
+          position: instance.position.clone(),
+          scale: 1,
+          shown: true
+        });
+      });
+    });
+
+    // Instance counts are fixed, so a new dataset gets new meshes
+    this.disposeMeshes();
+    [this.mesh, this.occludedMesh] = this.createMeshes(this.instances.length);
+    this.updateStates();
+  }
+
+  has(pointId: string): boolean {
+    return this.instanceIds.has(pointId);
+  }
+
+  // Whether the marker of one instance is drawn: not filtered out or on a hidden meridian
+  isShown(pointId: string, side: BodySide | null = null): boolean {
+    return this.visible && this.instancesOf(pointId).some(instance => instance.side === side && instance.shown);
+  }
+
+  // Where the marker of a point is in the legacy frame, on the given side if it has one
+  getPosition(pointId: string, side: BodySide | null = null): Vector3 | undefined {
+    const instance = this.instancesOf(pointId).find(candidate => side === null || candidate.side === null || candidate.side === side);
+    return instance?.position.clone();
+  }
+
+  // Move the markers of one point without rebuilding the others, e.g. while it is dragged
+  setInstances(pointId: string, instances: PointInstance[]): void {
+    this.instancesOf(pointId).forEach(marker => {
+      const instance = instances.find(candidate => candidate.side === marker.side);
+      if (instance) marker.position.copy(instance.position);
+    });
+    this.updateStates();
+  }
+
+  setSelected(pointId: string | null, laterality: Laterality = 'bilateral'): void {
+    this.selected = pointId ? { pointId, laterality } : null;
+    this.updateStates();
+  }
+
+  setHovered(pointId: string | null, laterality: Laterality = 'bilateral'): void {
+    if (pointId === this.hovered?.pointId && laterality === this.hovered.laterality) return;
+    this.hovered = pointId ? { pointId, laterality } : null;
+    this.updateStates();
+  }
+
+  // Points picked out as a group, e.g. the points of a prescription
+  setHighlighted(points: Iterable<MarkedPoint>): void {
+    this.highlighted.clear();
+    for (const point of points) {
+      this.highlighted.set(point.pointId, [...(this.highlighted.get(point.pointId) || []), point.laterality]);
+    }
+    this.updateStates();
+  }
+
+  // Whether markers hidden behind the body are drawn through it
+  setOccludedVisible(visible: boolean): void {
+    this.occludedVisible = visible;
+    this.occludedMesh.visible = visible;
+  }
+
+  setMeridianVisible(meridianId: string, visible: boolean): void {
+    if (visible) {
+      this.hiddenMeridians.delete(meridianId);
+    } else {
+      this.hiddenMeridians.add(meridianId);
+    }
+    this.updateStates();
+  }
+
+  // Show only these points, e.g. the search results, or every point with null. The
+  // selected and highlighted points stay in sight.
+  setFilter(pointIds: Iterable<string> | null): void {
+    this.filter = pointIds ? new Set(pointIds) : null;
+    this.updateStates();
+  }
+
+  // Nearest shown marker hit by the ray. Each instance is tested as a sphere, which is
+  // what it is, rather than triangle by triangle.
+  pick(raycaster: Raycaster): MarkedPoint | null {
+    if (!this.visible) return null;
+
+    this.updateWorldMatrix(true, false);
+    const ray = new Ray().copy(raycaster.ray).applyMatrix4(this.matrixWorld.clone().invert());
+    const sphere = new Sphere();
+    const hit = new Vector3();
+    let nearest: MarkerInstance | null = null;
+    let nearestDistance = Infinity;
+    for (const instance of this.instances) {
+      if (!instance.shown) continue;
+      sphere.set(instance.position, MARKER_RADIUS * instance.scale);
+      if (!ray.intersectSphere(sphere, hit)) continue;
+
+      const distance = hit.distanceTo(ray.origin);
+      if (distance < nearestDistance) {
+        nearest = instance;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest ? { pointId: nearest.pointId, laterality: nearest.side || 'bilateral' } : null;
+  }
+
+  dispose(): void {
+    this.disposeMeshes();
+    this.geometry.dispose();
+    this.material.dispose();
+    this.occludedMaterial.dispose();
+  }
+
+  private instancesOf(pointId: string): MarkerInstance[] {
+    return (this.instanceIds.get(pointId) || []).map(id => this.instances[id]);
+  }
+
+  // The occluded mesh draws the same instance matrices and colours
+  private createMeshes(count: number): [MarkerMesh, OccludedMesh] {
+    const mesh = new InstancedMesh(this.geometry, this.material, count);
+    mesh.name = 'pointMarkerInstances';
+    mesh.instanceMatrix.setUsage(DynamicDrawUsage);
+    mesh.instanceColor = new InstancedBufferAttribute(new Float32Array(count * 3), 3).setUsage(DynamicDrawUsage);
+    mesh.renderOrder = MARKER_RENDER_ORDER;
+
+    const occluded = new InstancedMesh(this.geometry, this.occludedMaterial, count);
+    occluded.name = 'occludedPointMarkers';
+    occluded.instanceMatrix = mesh.instanceMatrix;
+    occluded.instanceColor = mesh.instanceColor;
+    occluded.renderOrder = OCCLUDED_RENDER_ORDER;
+    occluded.visible = this.occludedVisible;
+
+    // Instances move without their bounds being recomputed
+    mesh.frustumCulled = false;
+    occluded.frustumCulled = false;
+    this.add(mesh, occluded);
+    return [mesh, occluded];
+  }
+
+  private disposeMeshes(): void {
+    this.remove(this.mesh, this.occludedMesh);
+    this.mesh.dispose();
+    this.occludedMesh.dispose();
+  }
+
+  private updateStates(): void {
+    const color = new Color();
+    const matrix = new Matrix4();
+    const rotation = new Quaternion();
+    const scale = new Vector3();
+
+    this.instances.forEach((instance, id) => {
+      const { pointId, side } = instance;
+      const selected = this.selected?.pointId === pointId && onSide(this.selected.laterality, side);
+      const highlighted = (this.highlighted.get(pointId) || []).some(laterality => onSide(laterality, side));
+      if (selected) {
+        color.setHex(SELECTED_COLOR);
+        instance.scale = SELECTED_SCALE;
+      } else if (this.hovered?.pointId === pointId && onSide(this.hovered.laterality, side)) {
+        color.setHex(HOVERED_COLOR);
+        instance.scale = HOVERED_SCALE;
+      } else if (highlighted) {
+        color.setHex(HIGHLIGHTED_COLOR);
+        instance.scale = HIGHLIGHTED_SCALE;
+      } else {
+        color.setHex(meridianColor(instance.meridianId));
+        instance.scale = 1;
+      }
+
+      const filtered = this.filter !== null && !this.filter.has(pointId) && !selected && !highlighted;
+      instance.shown = !this.hiddenMeridians.has(instance.meridianId) && !filtered;
+      this.mesh.setMatrixAt(id, instance.shown
+        ? matrix.compose(instance.position, rotation, scale.setScalar(instance.scale))
+        : HIDDEN_MATRIX);
+      this.mesh.setColorAt(id, color);
+    });
+
+    this.mesh.instanceMatrix.needsUpdate = true;
+    if (this.mesh.instanceColor) this.mesh.instanceColor.needsUpdate = true;
+  }
+}
+
+// Whether an instance on `side` (null on the midline) belongs to the laterality
+export function onSide(laterality: Laterality, side: BodySide | null): boolean {
+  return laterality === 'bilateral' || side === null || side === laterality;
+}
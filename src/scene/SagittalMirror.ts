@@ -0,0 +1,38 @@
+import { Box3, Object3D, Vector3 } from 'three';
+import { BodySide } from '../data/AcupointDataset';
+import { SurfaceAnchorResolver, SurfacePlacement } from './SurfaceAnchors';
+
+export function otherSide(side: BodySide): BodySide {
+  return side === 'left' ? 'right' : 'left';
+}
+
+// The sagittal plane x = planeX of the legacy frame, which splits the body into its
+// left and right halves. The body faces +z, so its left is +x.
+export class SagittalMirror {
+  constructor(readonly planeX: number = 0) {}
+
+  // Plane through the middle of the model's bounding box, in the frame of `frame`
+  static fromModel(model: Object3D, frame: Object3D): SagittalMirror {
+    const box = new Box3().setFromObject(model);
+    if (box.isEmpty()) return new SagittalMirror();
+
+    frame.updateMatrixWorld(true);
+    const min = frame.worldToLocal(box.min.clone());
+    const max = frame.worldToLocal(box.max.clone());
+    return new SagittalMirror((min.x + max.x) / 2);
+  }
+
+  sideOf(position: Vector3): BodySide {
+    return position.x >= this.planeX ? 'left' : 'right';
+  }
+
+  reflect(position: Vector3): Vector3 {
+    return new Vector3(2 * this.planeX - position.x, position.y, position.z);
+  }
+
+  // The contralateral placement: the reflection re-projected onto the surface, so a
+  // mesh that is not quite symmetric does not leave it floating or buried
+  mirror(placement: SurfacePlacement, resolver: SurfaceAnchorResolver): SurfacePlacement | null {
+    return resolver.project(this.reflect(placement.position));
+  }
+}
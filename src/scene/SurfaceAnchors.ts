@@ -0,0 +1,484 @@
+import { Box3, BufferAttribute, Matrix3, Matrix4, Mesh, Object3D, Triangle, Vector3 } from 'three';
+import { AcupointAnchor, SurfaceAnchor } from '../data/AcupointDataset';
+
+// An anchor resolved against the loaded model, in the frame passed to SurfaceAnchorResolver
+export interface SurfacePlacement {
+  position: Vector3;
+  normal: Vector3;
+  surface: SurfaceAnchor;
+  // True when the stored surface anchor was missing or stale and the legacy position was projected instead
+  projected: boolean;
+  // Distance from the legacy position to the surface; 0 when resolved from a surface anchor
+  distance: number;
+}
+
+// Shortest route over the surface, in the resolver frame
+export interface GeodesicPath {
+  points: Vector3[];
+  length: number;
+}
+
+// Triangles of one mesh, copied into the resolver frame: 9 floats per triangle
+interface MeshTriangles {
+  name: string;
+  positions: Float32Array;
+  normals: Float32Array | null;
+  firstTriangle: number;
+}
+
+// Aim for a handful of triangles per grid cell
+const TRIANGLES_PER_CELL = 4;
+// Vertices closer than this fraction of the model size are welded into one graph node
+const WELD_TOLERANCE = 1e-5;
+// Passes that pull the vertex path taut over the surface
+const SMOOTHING_PASSES = 8;
+
+// Resolves dataset anchors to points on the body surface. Stored surface anchors
+// (triangle + barycentric) are used when they still match the model; otherwise the
+// legacy xyz is projected to the nearest point on the surface.
+export class SurfaceAnchorResolver {
+  private meshes: MeshTriangles[] = [];
+  private triangleCount = 0;
+  private grid: SurfaceGrid | null = null;
+  private graph: SurfaceGraph | null = null;
+
+  constructor(model: Object3D, frame: Object3D) {
+    model.updateWorldMatrix(true, true);
+    frame.updateWorldMatrix(true, false);
+
+    const toFrame = new Matrix4();
+    const normalMatrix = new Matrix3();
+    const frameInverse = frame.matrixWorld.clone().invert();
+
+    model.traverse((child) => {
+      if (!(child instanceof Mesh)) return;
+
+      toFrame.multiplyMatrices(frameInverse, child.matrixWorld);
+      normalMatrix.getNormalMatrix(toFrame);
+
+      const geometry = child.geometry;
+      const position = geometry.getAttribute('position') as BufferAttribute | undefined;
+      if (!position) return;
+      const normal = geometry.getAttribute('normal') as BufferAttribute | undefined;
+      const index = geometry.getIndex();
+
+      const count = Math.floor((index ? index.count : position.count) / 3);
+      const positions = new Float32Array(count * 9);
+      const normals = normal ? new Float32Array(count * 9) : null;
+      const v = new Vector3();
+
+      for (let i = 0; i < count * 3; i++) {
+        const vertex = index ? index.getX(i) : i;
+        v.fromBufferAttribute(position, vertex).applyMatrix4(toFrame);
+        v.toArray(positions, i * 3);
+        if (normal && normals) {
+          v.fromBufferAttribute(normal, vertex).applyMatrix3(normalMatrix).normalize();
+          v.toArray(normals, i * 3);
+        }
+      }
+
+      this.meshes.push({ name: child.name, positions, normals, firstTriangle: this.triangleCount });
+      this.triangleCount += count;
+    });
+  }
+
+  resolve(anchor: AcupointAnchor): SurfacePlacement | null {
+    if (anchor.surface) {
+      const placement = this.fromSurface(anchor.surface);
+      if (placement) return placement;
+    }
+    return this.project(new Vector3().fromArray(anchor.position));
+  }
+
+  fromSurface(surface: SurfaceAnchor): SurfacePlacement | null {
+    const mesh = this.meshes.find((candidate) => candidate.name === surface.mesh);
+    if (!mesh || surface.triangle >= mesh.positions.length / 9) return null;
+
+    const [u, v, w] = surface.barycentric;
+    if (Math.abs(u + v + w - 1) > 1e-3) return null;
+
+    const position = this.interpolate(mesh.positions, surface.triangle, u, v, w);
+    const normal = this.normalAt(mesh, surface.triangle, u, v, w);
+    return { position, normal, surface, projected: false, distance: 0 };
+  }
+
+  // Nearest point on the surface to a position in the resolver frame
+  project(target: Vector3): SurfacePlacement | null {
+    if (this.triangleCount === 0) return null;
+    if (!this.grid) {
+      this.grid = new SurfaceGrid(this.meshes, this.triangleCount);
+    }
+
+    const nearest = this.grid.nearest(target);
+    if (!nearest) return null;
+
+    const { mesh, triangle, point } = nearest;
+    const a = new Vector3().fromArray(mesh.positions, triangle * 9);
+    const b = new Vector3().fromArray(mesh.positions, triangle * 9 + 3);
+    const c = new Vector3().fromArray(mesh.positions, triangle * 9 + 6);
+    const barycoord = Triangle.getBarycoord(point, a, b, c, new Vector3()) || new Vector3(1, 0, 0);
+
+    const surface: SurfaceAnchor = {
+      mesh: mesh.name,
+      triangle,
+      barycentric: [barycoord.x, barycoord.y, barycoord.z]
+    };
+    const normal = this.normalAt(mesh, triangle, barycoord.x, barycoord.y, barycoord.z);
+    return { position: point, normal, surface, projected: true, distance: point.distanceTo(target) };
+  }
+
+  // Geodesic between two surface points: a shortest path along the mesh edges,
+  // then straightened by repeatedly projecting each point between its neighbours
+  geodesic(from: SurfaceAnchor, to: SurfaceAnchor): GeodesicPath | null {
+    const start = this.fromSurface(from);
+    const end = this.fromSurface(to);
+    if (!start || !end) return null;
+
+    if (!this.graph) {
+      this.graph = new SurfaceGraph(this.meshes, this.triangleCount);
+    }
+
+    const startTriangle = this.globalTriangle(from);
+    const endTriangle = this.globalTriangle(to);
+    const route = startTriangle === endTriangle
+      ? []
+      : this.graph.shortestPath(startTriangle, start.position, endTriangle, end.position);
+    if (!route) return null;
+
+    const points = [start.position, ...route, end.position];
+    for (let pass = 0; pass < SMOOTHING_PASSES; pass++) {
+      for (let i = 1; i < points.length - 1; i++) {
+        const middle = points[i - 1].clone().add(points[i + 1]).multiplyScalar(0.5);
+        const placement = this.project(middle);
+        if (placement) points[i] = placement.position;
+      }
+    }
+
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += points[i].distanceTo(points[i - 1]);
+    }
+    return { points, length };
+  }
+
+  private globalTriangle(surface: SurfaceAnchor): number {
+    const mesh = this.meshes.find((candidate) => candidate.name === surface.mesh) as MeshTriangles;
+    return mesh.firstTriangle + surface.triangle;
+  }
+
+  private interpolate(values: Float32Array, triangle: number, u: number, v: number, w: number): Vector3 {
+    const offset = triangle * 9;
+    return new Vector3(
+      values[offset] * u + values[offset + 3] * v + values[offset + 6] * w,
+      values[offset + 1] * u + values[offset + 4] * v + values[offset + 7] * w,
+      values[offset + 2] * u + values[offset + 5] * v + values[offset + 8] * w
+    );
+  }
+
+  // Smooth normal from the vertex normals, falling back to the face normal
+  private normalAt(mesh: MeshTriangles, triangle: number, u: number, v: number, w: number): Vector3 {
+    if (mesh.normals) {
+      const normal = this.interpolate(mesh.normals, triangle, u, v, w);
+      if (normal.lengthSq() > 1e-12) return normal.normalize();
+    }
+
+    const a = new Vector3().fromArray(mesh.positions, triangle * 9);
+    const b = new Vector3().fromArray(mesh.positions, triangle * 9 + 3);
+    const c = new Vector3().fromArray(mesh.positions, triangle * 9 + 6);
+    return Triangle.getNormal(a, b, c, new Vector3());
+  }
+}
+
+// Uniform grid over the triangles' bounding boxes, searched in growing rings of cells
+class SurfaceGrid {
+  private box = new Box3();
+  private resolution = new Vector3();
+  private cellSize = new Vector3();
+  private cells: number[][] = [];
+  private visited: Uint32Array;
+  private query = 0;
+
+  constructor(private meshes: MeshTriangles[], triangleCount: number) {
+    this.visited = new Uint32Array(triangleCount);
+
+    for (const mesh of meshes) {
+      for (let i = 0; i < mesh.positions.length; i += 3) {
+        this.box.expandByPoint(new Vector3().fromArray(mesh.positions, i));
+      }
+    }
+
+    const size = this.box.getSize(new Vector3());
+    const volume = Math.max(size.x, 1e-6) * Math.max(size.y, 1e-6) * Math.max(size.z, 1e-6);
+    const edge = Math.cbrt((volume * TRIANGLES_PER_CELL) / triangleCount);
+    this.resolution.set(
+      Math.max(1, Math.min(256, Math.ceil(size.x / edge))),
+      Math.max(1, Math.min(256, Math.ceil(size.y / edge))),
+      Math.max(1, Math.min(256, Math.ceil(size.z / edge)))
+    );
+    this.cellSize.set(
+      Math.max(size.x, 1e-6) / this.resolution.x,
+      Math.max(size.y, 1e-6) / this.resolution.y,
+      Math.max(size.z, 1e-6) / this.resolution.z
+    );
+    this.cells = new Array(this.resolution.x * this.resolution.y * this.resolution.z);
+
+    const triangleBox = new Box3();
+    const min = new Vector3();
+    const max = new Vector3();
+    for (const mesh of meshes) {
+      const count = mesh.positions.length / 9;
+      for (let t = 0; t < count; t++) {
+        triangleBox.makeEmpty();
+        for (let k = 0; k < 3; k++) {
+          triangleBox.expandByPoint(min.fromArray(mesh.positions, t * 9 + k * 3));
+        }
+        this.cellOf(triangleBox.min, min);
+        this.cellOf(triangleBox.max, max);
+
+        for (let x = min.x; x <= max.x; x++) {
+          for (let y = min.y; y <= max.y; y++) {
+            for (let z = min.z; z <= max.z; z++) {
+              const cell = this.cellIndex(x, y, z);
+              (this.cells[cell] || (this.cells[cell] = [])).push(mesh.firstTriangle + t);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  nearest(target: Vector3): { mesh: MeshTriangles; triangle: number; point: Vector3 } | null {
+    this.query++;
+
+    const center = this.cellOf(target, new Vector3());
+    const minCell = Math.min(this.cellSize.x, this.cellSize.y, this.cellSize.z);
+    const maxRing = Math.max(this.resolution.x, this.resolution.y, this.resolution.z);
+
+    const triangle = new Triangle();
+    const closest = new Vector3();
+    let best: { mesh: MeshTriangles; triangle: number; point: Vector3 } | null = null;
+    let bestDistance = Infinity;
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let x = center.x - ring; x <= center.x + ring; x++) {
+        for (let y = center.y - ring; y <= center.y + ring; y++) {
+          for (let z = center.z - ring; z <= center.z + ring; z++) {
+            // Only the shell of this ring; inner cells were searched already
+            const onShell = Math.max(Math.abs(x - center.x), Math.abs(y - center.y), Math.abs(z - center.z)) === ring;
+            if (!onShell || x < 0 || y < 0 || z < 0) continue;
+            if (x >= this.resolution.x || y >= this.resolution.y || z >= this.resolution.z) continue;
+
+            const cell = this.cells[this.cellIndex(x, y, z)];
+            if (!cell) continue;
+
+            for (const id of cell) {
+              if (this.visited[id] === this.query) continue;
+              this.visited[id] = this.query;
+
+              const mesh = this.meshOf(id);
+              const local = id - mesh.firstTriangle;
+              triangle.a.fromArray(mesh.positions, local * 9);
+              triangle.b.fromArray(mesh.positions, local * 9 + 3);
+              triangle.c.fromArray(mesh.positions, local * 9 + 6);
+              triangle.closestPointToPoint(target, closest);
+
+              const distance = closest.distanceTo(target);
+              if (distance < bestDistance) {
+                bestDistance = distance;
+                best = { mesh, triangle: local, point: closest.clone() };
+              }
+            }
+          }
+        }
+      }
+
+      // Every cell beyond this ring is at least ring * minCell away
+      if (best && bestDistance <= ring * minCell) break;
+    }
+
+    return best;
+  }
+
+  private meshOf(id: number): MeshTriangles {
+    let mesh = this.meshes[0];
+    for (const candidate of this.meshes) {
+      if (candidate.firstTriangle > id) break;
+      mesh = candidate;
+    }
+    return mesh;
+  }
+
+  private cellOf(point: Vector3, target: Vector3): Vector3 {
+    return target.set(
+      Math.min(this.resolution.x - 1, Math.max(0, Math.floor((point.x - this.box.min.x) / this.cellSize.x))),
+      Math.min(this.resolution.y - 1, Math.max(0, Math.floor((point.y - this.box.min.y) / this.cellSize.y))),
+      Math.min(this.resolution.z - 1, Math.max(0, Math.floor((point.z - this.box.min.z) / this.cellSize.z)))
+    );
+  }
+
+  private cellIndex(x: number, y: number, z: number): number {
+    return (z * this.resolution.y + y) * this.resolution.x + x;
+  }
+}
+
+// Mesh vertices welded into a graph whose edges are the triangle sides
+class SurfaceGraph {
+  private nodes: Float32Array;
+  private neighbours: number[][] = [];
+  // Node of each corner of each triangle, 3 per triangle
+  private corners: Uint32Array;
+
+  constructor(meshes: MeshTriangles[], triangleCount: number) {
+    const box = new Box3();
+    for (const mesh of meshes) {
+      for (let i = 0; i < mesh.positions.length; i += 3) {
+        box.expandByPoint(new Vector3().fromArray(mesh.positions, i));
+      }
+    }
+    const tolerance = Math.max(box.getSize(new Vector3()).length() * WELD_TOLERANCE, 1e-9);
+
+    const ids = new Map<string, number>();
+    const positions: number[] = [];
+    this.corners = new Uint32Array(triangleCount * 3);
+
+    for (const mesh of meshes) {
+      for (let i = 0; i < mesh.positions.length / 3; i++) {
+        const x = mesh.positions[i * 3];
+        const y = mesh.positions[i * 3 + 1];
+        const z = mesh.positions[i * 3 + 2];
+        const key = `${Math.round(x / tolerance)},${Math.round(y / tolerance)},${Math.round(z / tolerance)}`;
+
+        let id = ids.get(key);
+        if (id === undefined) {
+          id = positions.length / 3;
+          ids.set(key, id);
+          positions.push(x, y, z);
+          this.neighbours.push([]);
+        }
+        this.corners[mesh.firstTriangle * 3 + i] = id;
+      }
+    }
+    this.nodes = new Float32Array(positions);
+
+    for (let t = 0; t < triangleCount; t++) {
+      for (let k = 0; k < 3; k++) {
+        const a = this.corners[t * 3 + k];
+        const b = this.corners[t * 3 + ((k + 1) % 3)];
+        if (a === b) continue;
+        if (!this.neighbours[a].includes(b)) this.neighbours[a].push(b);
+        if (!this.neighbours[b].includes(a)) this.neighbours[b].push(a);
+      }
+    }
+  }
+
+  // Dijkstra from the corners of one triangle to the corners of another; returns
+  // the vertices in between, or null when the two are not connected
+  shortestPath(startTriangle: number, start: Vector3, endTriangle: number, end: Vector3): Vector3[] | null {
+    const count = this.nodes.length / 3;
+    const distances = new Float64Array(count).fill(Infinity);
+    const previous = new Int32Array(count).fill(-1);
+    const heap = new NodeHeap();
+    const v = new Vector3();
+
+    for (let k = 0; k < 3; k++) {
+      const node = this.corners[startTriangle * 3 + k];
+      const distance = this.position(node, v).distanceTo(start);
+      if (distance < distances[node]) {
+        distances[node] = distance;
+        heap.push(node, distance);
+      }
+    }
+
+    const endCorners = Array.from(this.corners.subarray(endTriangle * 3, endTriangle * 3 + 3));
+    const toEnd = endCorners.map(node => this.position(node, v).distanceTo(end));
+    let best = Infinity;
+    let bestCorner = -1;
+
+    while (heap.size > 0) {
+      const [node, distance] = heap.pop();
+      if (distance > distances[node]) continue;
+      if (distance >= best) break;
+
+      const corner = endCorners.indexOf(node);
+      if (corner >= 0 && distance + toEnd[corner] < best) {
+        best = distance + toEnd[corner];
+        bestCorner = node;
+      }
+
+      const from = this.position(node, new Vector3());
+      for (const next of this.neighbours[node]) {
+        const candidate = distance + from.distanceTo(this.position(next, v));
+        if (candidate < distances[next]) {
+          distances[next] = candidate;
+          previous[next] = node;
+          heap.push(next, candidate);
+        }
+      }
+    }
+
+    if (bestCorner < 0) return null;
+
+    const route: Vector3[] = [];
+    for (let node = bestCorner; node >= 0; node = previous[node]) {
+      route.unshift(this.position(node, new Vector3()));
+    }
+    return route;
+  }
+
+  private position(node: number, target: Vector3): Vector3 {
+    return target.fromArray(this.nodes, node * 3);
+  }
+}
+
+// Binary min-heap of graph nodes keyed by distance
+class NodeHeap {
+  private nodes: number[] = [];
+  private keys: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, key: number): void {
+    this.nodes.push(node);
+    this.keys.push(key);
+
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= this.keys[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] {
+    const top: [number, number] = [this.nodes[0], this.keys[0]];
+    const lastNode = this.nodes.pop() as number;
+    const lastKey = this.keys.pop() as number;
+
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.keys[0] = lastKey;
+
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.keys.length && this.keys[left] < this.keys[smallest]) smallest = left;
+        if (right < this.keys.length && this.keys[right] < this.keys[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+  }
+}
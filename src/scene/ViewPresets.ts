@@ -0,0 +1,48 @@
+import { Box3, Object3D, Vector3 } from 'three';
+
+// A named camera position. Targets and distances are relative to the model's bounds,
+// so the same preset frames the body whatever its size or placement in the scene.
+export interface ViewPreset {
+  id: string;
+  label: string;
+  // Shortcut, as KeyboardEvent.key
+  key: string;
+  // Point looked at, as fractions of the bounding box on each axis (0 = min, 1 = max)
+  target: [number, number, number];
+  // Direction from the target towards the camera; the body faces +z and its left is +x
+  direction: [number, number, number];
+  // Camera distance as a fraction of the model height
+  distance: number;
+}
+
+export interface ViewPose {
+  position: Vector3;
+  target: Vector3;
+}
+
+// Whole-body views that suit any upright model
+export const BODY_VIEW_PRESETS: ViewPreset[] = [
+  { id: 'anterior', label: 'Anterior', key: '1', target: [0.5, 0.5, 0.5], direction: [0, 0, 1], distance: 1.35 },
+  { id: 'posterior', label: 'Posterior', key: '2', target: [0.5, 0.5, 0.5], direction: [0, 0, -1], distance: 1.35 },
+  { id: 'left', label: 'Left lateral', key: '3', target: [0.5, 0.5, 0.5], direction: [1, 0, 0], distance: 1.35 },
+  { id: 'right', label: 'Right lateral', key: '4', target: [0.5, 0.5, 0.5], direction: [-1, 0, 0], distance: 1.35 },
+  // Slightly in front of vertical, so the face is at the bottom of the screen
+  { id: 'superior', label: 'Superior', key: '5', target: [0.5, 0.9, 0.5], direction: [0, 1, 0.05], distance: 0.45 }
+];
+
+// World-space camera pose of a preset. bounds is the model's box in the frame of
+// frame, which holds the model and carries its scale and position into the scene.
+export function resolveViewPreset(preset: ViewPreset, bounds: Box3, frame: Object3D): ViewPose {
+  const size = bounds.getSize(new Vector3());
+  const target = new Vector3(...preset.target).multiply(size).add(bounds.min);
+  const worldTarget = frame.localToWorld(target.clone());
+
+  // The frame scales uniformly; measure the distance in world units
+  const height = frame.localToWorld(target.clone().setY(target.y + size.y)).distanceTo(worldTarget);
+  const direction = new Vector3(...preset.direction).normalize().transformDirection(frame.matrixWorld);
+
+  return {
+    position: worldTarget.clone().addScaledVector(direction, preset.distance * height),
+    target: worldTarget
+  };
+}
@@ -0,0 +1,224 @@
+import {
+  BackSide,
+  Box3,
+  DecrementWrapStencilOp,
+  DoubleSide,
+  FrontSide,
+  Group,
+  IncrementWrapStencilOp,
+  Material,
+  Matrix4,
+  Mesh,
+  MeshBasicMaterial,
+  MeshPhongMaterial,
+  NotEqualStencilFunc,
+  Object3D,
+  Plane,
+  PlaneGeometry,
+  ReplaceStencilOp,
+  Side,
+  StencilOp,
+  Vector3,
+  WebGLRenderer
+} from 'three';
+
+// Anatomical planes, named by the cut they make: sagittal splits left from right
+// (x), transverse upper from lower (y) and coronal front from back (z)
+export type ClipAxis = 'sagittal' | 'transverse' | 'coronal';
+
+export const CLIP_AXES: ClipAxis[] = ['sagittal', 'transverse', 'coronal'];
+
+export interface ClipPlaneSettings {
+  enabled: boolean;
+  // Where the plane cuts, from 0 at the low end of the model's bounds to 1 at the high end
+  position: number;
+  // The half that stays: 1 towards +x, +y or +z (left, superior, anterior), -1 the other
+  keep: 1 | -1;
+}
+
+export interface XRaySettings {
+  // Of the skin; markers hidden behind it are drawn on top with their own style
+  opacity: number;
+  planes: { [axis in ClipAxis]: ClipPlaneSettings };
+}
+
+export const DEFAULT_XRAY_SETTINGS: XRaySettings = {
+  opacity: 0.7,
+  planes: {
+    sagittal: { enabled: false, position: 0.5, keep: -1 },
+    transverse: { enabled: false, position: 0.5, keep: -1 },
+    coronal: { enabled: false, position: 0.5, keep: -1 }
+  }
+};
+
+const AXIS_NORMALS: { [axis in ClipAxis]: Vector3 } = {
+  sagittal: new Vector3(1, 0, 0),
+  transverse: new Vector3(0, 1, 0),
+  coronal: new Vector3(0, 0, 1)
+};
+
+const CAP_COLOR = 0xc98f73;
+// Stencil passes and caps run after an opaque body, plane by plane
+const STENCIL_RENDER_ORDER = 0.5;
+
+interface CutPlane {
+  axis: ClipAxis;
+  // In the legacy frame, and the same plane in world space as three's clipping needs it
+  local: Plane;
+  world: Plane;
+  // Back and front faces of the body counted into the stencil buffer, then the cap
+  // drawn where they do not cancel out, i.e. where the plane is inside the body
+  stencil: Group;
+  cap: Mesh<PlaneGeometry, MeshPhongMaterial>;
+}
+
+// The body seen through: skin opacity and up to three clipping planes along the
+// anatomical axes, with the cut faces capped so the body reads as solid. Add it to
+// the legacy frame next to the body; the planes are placed in that frame.
+export class XRayView extends Group {
+  private settings: XRaySettings = DEFAULT_XRAY_SETTINGS;
+  private model: Object3D | null = null;
+  private bounds = new Box3();
+  private planes: CutPlane[];
+
+  constructor() {
+    super();
+    this.name = 'xRayView';
+
+    this.planes = CLIP_AXES.map((axis, i) => {
+      const world = new Plane();
+      const stencil = new Group();
+      stencil.name = `${axis}-stencil`;
+      const cap = new Mesh(new PlaneGeometry(1, 1), new MeshPhongMaterial({
+        color: CAP_COLOR,
+        side: DoubleSide,
+        stencilWrite: true,
+        stencilRef: 0,
+        stencilFunc: NotEqualStencilFunc,
+        stencilFail: ReplaceStencilOp,
+        stencilZFail: ReplaceStencilOp,
+        stencilZPass: ReplaceStencilOp
+      }));
+      cap.name = `${axis}-cap`;
+      cap.renderOrder = STENCIL_RENDER_ORDER + (i + 0.5) / CLIP_AXES.length;
+      // The next plane counts from zero again
+      cap.onAfterRender = (renderer: WebGLRenderer) => renderer.clearStencil();
+      this.add(stencil, cap);
+      return { axis, local: new Plane(), world, stencil, cap };
+    });
+    this.apply(this.settings);
+  }
+
+  // Use the meshes of a newly loaded body; `bounds` are its bounds in the legacy frame
+  setModel(model: Object3D, bounds: Box3): void {
+    this.model = model;
+    this.bounds.copy(bounds);
+
+    this.updateMatrixWorld(true);
+    const toFrame = new Matrix4().copy(this.matrixWorld).invert();
+    this.planes.forEach((plane, i) => {
+      disposeStencil(plane.stencil);
+      model.traverse(child => {
+        if (!(child instanceof Mesh)) return;
+        const matrix = toFrame.clone().multiply(child.matrixWorld);
+        plane.stencil.add(
+          stencilMesh(child, matrix, BackSide, IncrementWrapStencilOp, plane.world, i),
+          stencilMesh(child, matrix, FrontSide, DecrementWrapStencilOp, plane.world, i)
+        );
+      });
+    });
+    this.apply(this.settings);
+  }
+
+  apply(settings: XRaySettings): void {
+    this.settings = settings;
+
+    const size = this.bounds.isEmpty() ? new Vector3(1, 1, 1) : this.bounds.getSize(new Vector3());
+    const capSize = size.length() * 1.5;
+    this.updateMatrixWorld(true);
+    this.planes.forEach(plane => {
+      const options = settings.planes[plane.axis];
+      const normal = AXIS_NORMALS[plane.axis];
+      const min = this.bounds.isEmpty() ? 0 : this.bounds.min.dot(normal);
+      const max = this.bounds.isEmpty() ? 0 : this.bounds.max.dot(normal);
+      const at = normal.clone().multiplyScalar(min + (max - min) * options.position);
+
+      plane.local.setFromNormalAndCoplanarPoint(normal.clone().multiplyScalar(options.keep), at);
+      plane.world.copy(plane.local).applyMatrix4(this.matrixWorld);
+
+      const visible = options.enabled && this.model !== null;
+      plane.stencil.visible = visible;
+      plane.cap.visible = visible;
+      // Centred on the body within the plane
+      plane.cap.position.copy(at.add(this.bounds.getCenter(new Vector3()).projectOnPlane(normal)));
+      plane.cap.quaternion.setFromUnitVectors(new Vector3(0, 0, 1), normal);
+      plane.cap.scale.setScalar(capSize);
+    });
+
+    const active = this.clippingPlanes;
+    // Each cap is cut by the other planes, so two cuts leave a corner rather than crossed sheets
+    this.planes.forEach(plane => {
+      plane.cap.material.clippingPlanes = active.filter(world => world !== plane.world);
+    });
+    this.bodyMaterials().forEach(material => {
+      const transparent = settings.opacity < 1;
+      if (material.transparent !== transparent) material.needsUpdate = true;
+      material.transparent = transparent;
+      material.opacity = settings.opacity;
+      material.clippingPlanes = active;
+    });
+  }
+
+  // The planes cutting the body now, in world space
+  get clippingPlanes(): Plane[] {
+    return this.planes.filter(plane => this.settings.planes[plane.axis].enabled).map(plane => plane.world);
+  }
+
+  // Whether a world position is cut away, e.g. so clicks go through the removed part
+  isClipped(point: Vector3): boolean {
+    return this.planes.some(plane => this.settings.planes[plane.axis].enabled && plane.world.distanceToPoint(point) < 0);
+  }
+
+  dispose(): void {
+    this.planes.forEach(plane => {
+      disposeStencil(plane.stencil);
+      plane.cap.geometry.dispose();
+      plane.cap.material.dispose();
+    });
+  }
+
+  private bodyMaterials(): Material[] {
+    const materials = new Set<Material>();
+    this.model?.traverse(child => {
+      if (!(child instanceof Mesh)) return;
+      (Array.isArray(child.material) ? child.material : [child.material]).forEach(material => materials.add(material));
+    });
+    return Array.from(materials);
+  }
+}
+
+function stencilMesh(source: Mesh, matrix: Matrix4, side: Side, op: StencilOp, plane: Plane, index: number): Mesh {
+  const mesh = new Mesh(source.geometry, new MeshBasicMaterial({
+    side,
+    depthWrite: false,
+    depthTest: false,
+    colorWrite: false,
+    stencilWrite: true,
+    stencilFail: op,
+    stencilZFail: op,
+    stencilZPass: op,
+    clippingPlanes: [plane]
+  }));
+  mesh.matrixAutoUpdate = false;
+  mesh.matrix.copy(matrix);
+  mesh.renderOrder = STENCIL_RENDER_ORDER + index / CLIP_AXES.length;
+  return mesh;
+}
+
+// The geometry belongs to the body, only the stencil materials are ours
+function disposeStencil(group: Group): void {
+  group.children.forEach(child => {
+    if (child instanceof Mesh) (child.material as Material).dispose();
+  });
+  group.clear();
+}
@@ -0,0 +1,35 @@
+// One colour per meridian, shared by channel curves, point markers and the legend
+const MERIDIAN_COLORS: { [id: string]: number } = {
+  VC: 0x8e44ad,
+  VG: 0x34495e,
+  P: 0x2980b9,
+  IG: 0x16a085,
+  E: 0xe67e22,
+  BP: 0xd4ac0d,
+  C: 0xc0392b,
+  ID: 0xe84393,
+  B: 0x1abc9c,
+  R: 0x2c3e50,
+  CS: 0xa93226,
+  TA: 0x6c5ce7,
+  VB: 0x27ae60,
+  F: 0x7f8c8d
+};
+
+// Meridians missing from the table still get a stable colour
+const FALLBACK_COLORS = [0x00897b, 0x5e35b1, 0xf4511e, 0x3949ab, 0x7cb342, 0x8d6e63];
+
+export function meridianColor(meridianId: string): number {
+  const color = MERIDIAN_COLORS[meridianId];
+  if (color !== undefined) return color;
+
+  let hash = 0;
+  for (let i = 0; i < meridianId.length; i++) {
+    hash = (hash * 31 + meridianId.charCodeAt(i)) >>> 0;
+  }
+  return FALLBACK_COLORS[hash % FALLBACK_COLORS.length];
+}
+
+export function meridianColorCss(meridianId: string): string {
+  return `#${meridianColor(meridianId).toString(16).padStart(6, '0')}`;
+}
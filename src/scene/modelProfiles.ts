@@ -0,0 +1,37 @@
+import { CunLandmarkPair } from '../measure/CunScale';
+import { BODY_VIEW_PRESETS, ViewPreset } from './ViewPresets';
+
+// Settings that depend on the pose and proportions of a body model
+export interface ModelProfile {
+  viewPresets: ViewPreset[];
+  // Landmark pairs of known length that calibrate the cun on this model
+  cunLandmarks: CunLandmarkPair[];
+}
+
+export const DEFAULT_MODEL_PROFILE: ModelProfile = {
+  viewPresets: BODY_VIEW_PRESETS,
+  cunLandmarks: []
+};
+
+// Profiles by model id, declared with the model's URL
+export const MODEL_PROFILES: { [model: string]: ModelProfile } = {
+  corpo: {
+    viewPresets: [
+      ...BODY_VIEW_PRESETS,
+      { id: 'head', label: 'Head', key: '6', target: [0.5, 0.935, 0.6], direction: [0.3, 0.1, 1], distance: 0.3 },
+      { id: 'hand', label: 'Hand', key: '7', target: [0.92, 0.45, 0.66], direction: [1, 0.2, 0.6], distance: 0.22 },
+      { id: 'foot', label: 'Foot', key: '8', target: [0.65, 0.02, 0.63], direction: [0.4, 0.8, 1], distance: 0.25 }
+    ],
+    // Standard bone proportional measurements, between points that sit on the landmarks
+    cunLandmarks: [
+      { from: 'VC-8', to: 'VC-2', cun: 5, label: 'measure.landmark.umbilicusPubis' },
+      { from: 'VC-16', to: 'VC-8', cun: 8, label: 'measure.landmark.xiphoidUmbilicus' },
+      { from: 'P-5', to: 'P-9', cun: 12, label: 'measure.landmark.elbowWrist' },
+      { from: 'E-35', to: 'E-41', cun: 16, label: 'measure.landmark.kneeAnkle' }
+    ]
+  }
+};
+
+export function modelProfileFor(modelId: string): ModelProfile {
+  return MODEL_PROFILES[modelId] || DEFAULT_MODEL_PROFILE;
+}
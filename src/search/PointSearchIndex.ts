@@ -0,0 +1,283 @@
+import { Acupoint, ContentSectionKey } from '../data/AcupointDataset';
+import { ContentTranslations } from '../data/ContentTranslations';
+import { formatPointCode, NOMENCLATURE_SYSTEMS, pointCodeVariants } from '../data/nomenclature';
+
+// 'name' holds the translated names; 'namePt' the Portuguese name of the dataset
+export type SearchField = 'code' | 'pinyin' | 'hanzi' | 'namePt' | 'name' | 'indicacoes' | 'funcoes';
+
+// A matched piece of text with the [start, end) character ranges to highlight
+export interface SearchMatch {
+  field: SearchField;
+  text: string;
+  ranges: [number, number][];
+}
+
+export interface SearchResult {
+  point: Acupoint;
+  score: number;
+  matches: SearchMatch[];
+}
+
+// Field weights: an exact code or name beats a word somewhere in the indications
+const FIELD_WEIGHTS: { [field in SearchField]: number } = {
+  code: 10,
+  pinyin: 6,
+  hanzi: 6,
+  namePt: 5,
+  name: 5,
+  indicacoes: 2,
+  funcoes: 1.5
+};
+
+const SECTION_FIELDS: { [field: string]: ContentSectionKey } = {
+  indicacoes: 'indicacoes',
+  funcoes: 'funcoes'
+};
+
+// Bonus for a multi-word query found as a phrase, e.g. "dor abdominal"
+const PHRASE_BONUS = 1.5;
+
+interface IndexedToken {
+  token: string;
+  start: number;
+}
+
+interface IndexedText {
+  field: SearchField;
+  text: string;
+  normalized: string;
+  tokens: IndexedToken[];
+}
+
+interface IndexedPoint {
+  point: Acupoint;
+  // Codes in every nomenclature without separators, so VC-6, VC6, "vc 6" and CV6 all match
+  compactCodes: string[];
+  texts: IndexedText[];
+}
+
+interface TermMatch {
+  score: number;
+  text: IndexedText;
+  range: [number, number];
+}
+
+// Words of the normalised text: runs of letters and digits, or of hanzi
+const TOKEN_PATTERN = /[a-z0-9]+|[\u4e00-\u9fff]+/g;
+
+// Lower-case and strip accents (including pinyin tone marks) one character at a time,
+// so positions in the normalised text are positions in the original text too
+export function normalizeSearchText(text: string): string {
+  let normalized = '';
+  for (const char of text) {
+    if (/[\u4e00-\u9fff]/.test(char)) {
+      normalized += char;
+      continue;
+    }
+    const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    // Characters that do not reduce to one letter or digit (ß, punctuation) become blanks
+    normalized += base.length === 1 && /[a-z0-9]/.test(base) ? base : ' '.repeat(char.length);
+  }
+  return normalized;
+}
+
+// In-browser index over codes, names and the Indicações/Funções text of every point,
+// in every language of the translations, so a query in any of them finds the point.
+// Each query word must match somewhere: exactly, as a prefix, inside a word, or
+// within a small edit distance. Results are ranked by weighted field scores.
+export class PointSearchIndex {
+  private entries: IndexedPoint[];
+
+  constructor(points: Acupoint[], private translations: ContentTranslations = ContentTranslations.empty()) {
+    this.entries = points.map(point => this.indexPoint(point));
+  }
+
+  search(query: string, limit: number = 50): SearchResult[] {
+    const normalizedQuery = normalizeSearchText(query).trim().replace(/\s+/g, ' ');
+    if (normalizedQuery === '') return [];
+
+    const terms = normalizedQuery.split(' ');
+    const compactQuery = normalizedQuery.replace(/ /g, '');
+    const results: SearchResult[] = [];
+
+    for (const entry of this.entries) {
+      const result = this.scoreEntry(entry, terms, normalizedQuery, compactQuery);
+      if (result) results.push(result);
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.point.meridian.localeCompare(b.point.meridian) || a.point.number - b.point.number)
+      .slice(0, limit);
+  }
+
+  private indexPoint(point: Acupoint): IndexedPoint {
+    const texts: IndexedText[] = [];
+    const add = (field: SearchField, text: string) => {
+      if (text.trim() === '') return;
+      const normalized = normalizeSearchText(text);
+      const tokens: IndexedToken[] = [];
+      const pattern = new RegExp(TOKEN_PATTERN);
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(normalized)) !== null) {
+        tokens.push({ token: match[0], start: match.index });
+      }
+      texts.push({ field, text, normalized, tokens });
+    };
+
+    const translation = this.translations.point(point.id);
+
+    // Codes of every system are searched word by word; the literature variants (Ren12, Stomach 36) only as a whole code
+    new Set(NOMENCLATURE_SYSTEMS.map(system => formatPointCode(point, system.id))).forEach(code => add('code', code));
+    // The toned pinyin stands in for the legacy spelling; where it also corrects it, both are indexed
+    const pinyin = translation?.pinyin || point.pinyin;
+    add('pinyin', pinyin);
+    if (normalizeSearchText(pinyin) !== normalizeSearchText(point.pinyin)) {
+      add('pinyin', point.pinyin);
+    }
+    add('hanzi', translation?.hanzi || '');
+    add('namePt', point.namePt);
+    Object.values(translation?.names || {}).forEach(name => add('name', name));
+    for (const field of Object.keys(SECTION_FIELDS) as SearchField[]) {
+      const key = SECTION_FIELDS[field];
+      (point.sections[key] || []).forEach(item => add(field, item));
+      Object.values(translation?.sections || {}).forEach(sections => (sections[key] || []).forEach(item => add(field, item)));
+    }
+
+    return { point, compactCodes: pointCodeVariants(point).map(compactSearchCode), texts };
+  }
+
+  private scoreEntry(entry: IndexedPoint, terms: string[], phrase: string, compactQuery: string): SearchResult | null {
+    const matches = new Map<IndexedText, [number, number][]>();
+    const addRange = (text: IndexedText, range: [number, number]) => {
+      const ranges = matches.get(text) || [];
+      ranges.push(range);
+      matches.set(text, ranges);
+    };
+
+    let score = 0;
+
+    // "vc6", "VC-6", "vc 6" and "CV6" all name the same point
+    if (entry.compactCodes.includes(compactQuery)) {
+      score += FIELD_WEIGHTS.code * 10;
+      const code = entry.texts.find(text => text.field === 'code' && compactSearchCode(text.text) === compactQuery);
+      if (code) addRange(code, [0, code.text.length]);
+    } else {
+      for (const term of terms) {
+        const best = this.matchTerm(entry, term);
+        if (!best) return null;
+
+        score += best.score;
+        addRange(best.text, best.range);
+      }
+    }
+
+    if (terms.length > 1) {
+      for (const text of entry.texts) {
+        const at = text.normalized.indexOf(phrase);
+        if (at >= 0) {
+          score += FIELD_WEIGHTS[text.field] * PHRASE_BONUS;
+          addRange(text, [at, at + phrase.length]);
+          break;
+        }
+      }
+    }
+
+    return {
+      point: entry.point,
+      score,
+      matches: Array.from(matches.entries()).map(([text, ranges]) => ({
+        field: text.field,
+        text: text.text,
+        ranges: mergeRanges(ranges)
+      }))
+    };
+  }
+
+  // Best match of one query word over all fields of a point
+  private matchTerm(entry: IndexedPoint, term: string): TermMatch | null {
+    let best: TermMatch | null = null;
+    const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+
+    for (const text of entry.texts) {
+      const weight = FIELD_WEIGHTS[text.field];
+
+      for (const { token, start } of text.tokens) {
+        let quality = 0;
+        let from = start;
+        let to = start + token.length;
+        const offset = term.length >= 3 ? token.indexOf(term) : -1;
+
+        if (token === term) {
+          quality = 1;
+        } else if (token.startsWith(term)) {
+          quality = 0.8;
+          to = start + term.length;
+        } else if (offset > 0) {
+          quality = 0.6;
+          from = start + offset;
+          to = from + term.length;
+        } else if (maxEdits > 0) {
+          // Compare with the start of the word, so a typo in the first letters of a long word still matches
+          let distance = maxEdits + 1;
+          for (let length = term.length - maxEdits; length <= term.length + maxEdits && length <= token.length; length++) {
+            distance = Math.min(distance, boundedEditDistance(term, token.substring(0, length), maxEdits));
+          }
+          if (distance <= maxEdits) {
+            quality = 0.5 - 0.1 * distance;
+          }
+        }
+
+        if (quality > 0 && (!best || weight * quality > best.score)) {
+          best = { score: weight * quality, text, range: [from, to] };
+        }
+      }
+    }
+
+    return best;
+  }
+}
+
+function compactSearchCode(code: string): string {
+  return normalizeSearchText(code).replace(/ /g, '');
+}
+
+// Damerau-Levenshtein (optimal string alignment) distance, giving up past maxEdits
+function boundedEditDistance(a: string, b: string, maxEdits: number): number {
+  if (Math.abs(a.length - b.length) > maxEdits) return maxEdits + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxEdits) return maxEdits + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const sorted = ranges.slice().sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,140 @@
+import { EventDispatcher } from 'three';
+import { AnchorView, BodySide } from '../data/AcupointDataset';
+
+export interface CameraState {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+// What a link restores: `#/point/E36?side=left&view=anterior&meridians=VC,E&camera=...`
+export interface AppRoute {
+  // Point code as written in the link (VC12, VC-12, vc12); resolved against the dataset by the app
+  point: string | null;
+  // One side of a bilateral point; null for both
+  side: BodySide | null;
+  view: AnchorView | null;
+  // Visible meridians; null shows all of them
+  meridians: string[] | null;
+  camera: CameraState | null;
+}
+
+export interface RouteChangeEvent {
+  route: AppRoute;
+}
+
+export interface HashRouterEventMap {
+  change: RouteChangeEvent;
+}
+
+const VIEWS: AnchorView[] = ['anterior', 'posterior', 'left', 'right'];
+const SIDES: BodySide[] = ['left', 'right'];
+
+export const EMPTY_ROUTE: AppRoute = { point: null, side: null, view: null, meridians: null, camera: null };
+
+export function parseRoute(hash: string): AppRoute {
+  const route: AppRoute = { ...EMPTY_ROUTE };
+  const text = hash.replace(/^#/, '');
+  const queryStart = text.indexOf('?');
+  const path = (queryStart >= 0 ? text.substring(0, queryStart) : text).split('/').filter(part => part !== '');
+  const params = new URLSearchParams(queryStart >= 0 ? text.substring(queryStart + 1) : '');
+
+  if (path[0] === 'point' && path[1]) {
+    route.point = decodeURIComponent(path[1]);
+  }
+
+  const side = params.get('side');
+  if (route.point && side && SIDES.includes(side as BodySide)) {
+    route.side = side as BodySide;
+  }
+
+  const view = params.get('view');
+  if (view && VIEWS.includes(view as AnchorView)) {
+    route.view = view as AnchorView;
+  }
+
+  const meridians = params.get('meridians');
+  if (meridians !== null) {
+    route.meridians = meridians.split(',').map(id => id.trim()).filter(id => id !== '');
+  }
+
+  // camera=px,py,pz,tx,ty,tz in world units
+  const camera = (params.get('camera') || '').split(',').map(parseFloat);
+  if (camera.length === 6 && camera.every(value => isFinite(value))) {
+    route.camera = {
+      position: [camera[0], camera[1], camera[2]],
+      target: [camera[3], camera[4], camera[5]]
+    };
+  }
+
+  return route;
+}
+
+export function formatRoute(route: AppRoute): string {
+  const path = route.point ? `#/point/${encodeURIComponent(route.point)}` : '#/';
+  const params: string[] = [];
+
+  if (route.point && route.side) {
+    params.push(`side=${route.side}`);
+  }
+  if (route.view) {
+    params.push(`view=${route.view}`);
+  }
+  if (route.meridians) {
+    params.push(`meridians=${route.meridians.map(encodeURIComponent).join(',')}`);
+  }
+  if (route.camera) {
+    const values = [...route.camera.position, ...route.camera.target].map(value => +value.toFixed(3));
+    params.push(`camera=${values.join(',')}`);
+  }
+
+  return params.length > 0 ? `${path}?${params.join('&')}` : path;
+}
+
+// Keeps the app state in the location hash. push() adds a history entry, replace()
+// rewrites the current one; back/forward and edited links dispatch 'change'.
+export class HashRouter extends EventDispatcher<HashRouterEventMap> {
+  private hash = window.location.hash;
+
+  constructor() {
+    super();
+    window.addEventListener('popstate', this.onLocationChange);
+    window.addEventListener('hashchange', this.onLocationChange);
+  }
+
+  get route(): AppRoute {
+    return parseRoute(this.hash);
+  }
+
+  push(route: AppRoute): void {
+    this.write(route, false);
+  }
+
+  replace(route: AppRoute): void {
+    this.write(route, true);
+  }
+
+  dispose(): void {
+    window.removeEventListener('popstate', this.onLocationChange);
+    window.removeEventListener('hashchange', this.onLocationChange);
+  }
+
+  private write(route: AppRoute, replace: boolean): void {
+    const hash = formatRoute(route);
+    if (hash === this.hash) return;
+
+    this.hash = hash;
+    if (replace) {
+      window.history.replaceState(null, '', hash);
+    } else {
+      window.history.pushState(null, '', hash);
+    }
+  }
+
+  // Both events fire for some navigations; only report each new hash once
+  private onLocationChange = (): void => {
+    if (window.location.hash === this.hash) return;
+
+    this.hash = window.location.hash;
+    this.dispatchEvent({ type: 'change', route: this.route });
+  };
+}
@@ -0,0 +1,183 @@
+import { EventDispatcher } from 'three';
+import { Acupoint, AcupointAnchor, AcupointDataset, AcupointDatasetData } from '../data/AcupointDataset';
+
+// Fields of a point that can be edited; the id is fixed once a point exists
+export type AcupointChanges = Partial<Omit<Acupoint, 'id'>>;
+
+export interface AuthoringChangeEvent {
+  pointId: string;
+  // 'edit' for new changes, 'undo'/'redo' when history is replayed
+  reason: 'edit' | 'undo' | 'redo';
+}
+
+export interface AuthoringEventMap {
+  change: AuthoringChangeEvent;
+}
+
+// One undoable change: the point before and after it (null when added)
+interface PointEdit {
+  pointId: string;
+  before: Acupoint | null;
+  after: Acupoint;
+}
+
+const MAX_HISTORY = 200;
+
+// Editable working copy of the dataset with undo/redo. Every change is validated
+// with the same rules as AcupointDataset.fromJSON, so an export is always loadable.
+export class AuthoringSession extends EventDispatcher<AuthoringEventMap> {
+  private data: AcupointDatasetData;
+  private undoStack: PointEdit[] = [];
+  private redoStack: PointEdit[] = [];
+  private savedEdit: PointEdit | null = null;
+  // Point state captured by beginEdit(), committed by endEdit()
+  private pending: { pointId: string; before: Acupoint } | null = null;
+
+  constructor(dataset: AcupointDataset) {
+    super();
+    this.data = structuredClone(dataset.toJSON());
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // True when there are changes since the last export
+  get dirty(): boolean {
+    return (this.undoStack[this.undoStack.length - 1] || null) !== this.savedEdit;
+  }
+
+  getPoint(pointId: string): Acupoint | undefined {
+    return this.data.points.find((point) => point.id === pointId);
+  }
+
+  setAnchor(pointId: string, anchor: AcupointAnchor | null): void {
+    this.applyEdit(pointId, (point) => ({ ...point, anchor }));
+  }
+
+  updatePoint(pointId: string, changes: AcupointChanges): void {
+    this.applyEdit(pointId, (point) => ({ ...point, ...changes }));
+  }
+
+  addPoint(point: Acupoint): void {
+    if (this.getPoint(point.id)) {
+      throw new Error(`Point ${point.id} already exists`);
+    }
+
+    const added = structuredClone(point);
+    this.data.points.push(added);
+    try {
+      this.validate();
+    } catch (error) {
+      this.data.points.pop();
+      throw error;
+    }
+    this.record({ pointId: point.id, before: null, after: structuredClone(added) });
+  }
+
+  // Continuous edits such as dragging: previewAnchor() moves the point freely and
+  // endEdit() records the whole gesture as one undo step
+  beginEdit(pointId: string): void {
+    const point = this.requirePoint(pointId);
+    this.pending = { pointId, before: structuredClone(point) };
+  }
+
+  previewAnchor(pointId: string, anchor: AcupointAnchor | null): void {
+    this.requirePoint(pointId).anchor = anchor;
+  }
+
+  endEdit(): void {
+    if (!this.pending) return;
+
+    const { pointId, before } = this.pending;
+    this.pending = null;
+
+    const after = structuredClone(this.requirePoint(pointId));
+    if (JSON.stringify(before) === JSON.stringify(after)) return;
+    this.record({ pointId, before, after });
+  }
+
+  undo(): void {
+    const edit = this.undoStack.pop();
+    if (!edit) return;
+
+    this.replace(edit.pointId, edit.before);
+    this.redoStack.push(edit);
+    this.dispatchEvent({ type: 'change', pointId: edit.pointId, reason: 'undo' });
+  }
+
+  redo(): void {
+    const edit = this.redoStack.pop();
+    if (!edit) return;
+
+    this.replace(edit.pointId, edit.after);
+    this.undoStack.push(edit);
+    this.dispatchEvent({ type: 'change', pointId: edit.pointId, reason: 'redo' });
+  }
+
+  toDataset(): AcupointDataset {
+    return AcupointDataset.fromJSON(structuredClone(this.data), 'authoring session');
+  }
+
+  // JSON text in the layout of src/data/acupoints.json
+  export(): string {
+    const text = JSON.stringify(this.toDataset().toJSON(), null, 2) + '\n';
+    this.savedEdit = this.undoStack[this.undoStack.length - 1] || null;
+    return text;
+  }
+
+  private applyEdit(pointId: string, change: (point: Acupoint) => Acupoint): void {
+    const index = this.data.points.findIndex((point) => point.id === pointId);
+    if (index < 0) {
+      throw new Error(`Unknown point ${pointId}`);
+    }
+
+    const before = this.data.points[index];
+    const after = structuredClone(change(before));
+    this.data.points[index] = after;
+    try {
+      this.validate();
+    } catch (error) {
+      this.data.points[index] = before;
+      throw error;
+    }
+    this.record({ pointId, before: structuredClone(before), after: structuredClone(after) });
+  }
+
+  private record(edit: PointEdit): void {
+    this.undoStack.push(edit);
+    if (this.undoStack.length > MAX_HISTORY) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.dispatchEvent({ type: 'change', pointId: edit.pointId, reason: 'edit' });
+  }
+
+  // Put a point back to a recorded state; null removes a point that was added
+  private replace(pointId: string, point: Acupoint | null): void {
+    const index = this.data.points.findIndex((candidate) => candidate.id === pointId);
+    if (point === null) {
+      if (index >= 0) this.data.points.splice(index, 1);
+    } else if (index >= 0) {
+      this.data.points[index] = structuredClone(point);
+    } else {
+      this.data.points.push(structuredClone(point));
+    }
+  }
+
+  private requirePoint(pointId: string): Acupoint {
+    const point = this.getPoint(pointId);
+    if (!point) {
+      throw new Error(`Unknown point ${pointId}`);
+    }
+    return point;
+  }
+
+  private validate(): void {
+    AcupointDataset.fromJSON(this.data, 'authoring session');
+  }
+}
@@ -0,0 +1,324 @@
+import { LATERALITIES, Laterality } from '../data/AcupointDataset';
+import { PrescriptionItem } from './Prescription';
+import { decryptJSON, deriveKey, EncryptedData, encryptJSON, randomSalt } from './passphraseCrypto';
+
+export interface Patient {
+  id: string;
+  name: string;
+  notes: string;
+  // ISO date
+  created: string;
+}
+
+// One treatment: the points used, in order, with what was observed
+export interface TreatmentSession {
+  id: string;
+  patientId: string;
+  // ISO date and time
+  date: string;
+  items: PrescriptionItem[];
+  notes: string;
+  // Symptom tags, e.g. "insomnia", "low back pain"
+  tags: string[];
+}
+
+export interface ImportSummary {
+  patients: number;
+  sessions: number;
+}
+
+// What is kept in IndexedDB: the value itself, or its encryption. Sessions keep
+// the patient id in the clear so they can be listed per patient.
+interface StoredRecord<T> {
+  id: string;
+  patientId?: string;
+  value?: T;
+  encrypted?: EncryptedData;
+}
+
+interface EncryptionMeta {
+  key: 'encryption';
+  salt: string;
+  // A known value encrypted with the key, to check a passphrase
+  check: EncryptedData;
+}
+
+interface BackupData {
+  patients: Patient[];
+  sessions: TreatmentSession[];
+}
+
+const DB_NAME = 'acu-master';
+const DB_VERSION = 1;
+const BACKUP_FORMAT = 'acu-master-patients';
+const BACKUP_VERSION = 1;
+const CHECK_VALUE = 'acu-master';
+
+// Why the store refused an operation, for the interface to word in its language
+export type PatientStoreErrorReason = 'locked' | 'invalidJson' | 'notBackup' | 'passphraseRequired' | 'wrongPassphrase';
+
+export class PatientStoreLockedError extends Error {
+  readonly reason: PatientStoreErrorReason = 'locked';
+
+  constructor() {
+    super('The patient log is encrypted; unlock it with its passphrase first.');
+    this.name = 'PatientStoreLockedError';
+  }
+}
+
+export class BackupFormatError extends Error {
+  constructor(readonly reason: Exclude<PatientStoreErrorReason, 'locked'>, message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+// Patients and their treatment sessions, kept in this browser's IndexedDB and never
+// sent anywhere. With a passphrase set, every record is encrypted at rest and the
+// store has to be unlocked before it can be read.
+export class PatientStore {
+  private key: CryptoKey | null = null;
+
+  private constructor(private db: IDBDatabase, private encryption: EncryptionMeta | null) {}
+
+  static async open(name: string = DB_NAME): Promise<PatientStore> {
+    const openRequest = indexedDB.open(name, DB_VERSION);
+    openRequest.onupgradeneeded = () => {
+      const db = openRequest.result;
+      db.createObjectStore('patients', { keyPath: 'id' });
+      db.createObjectStore('sessions', { keyPath: 'id' }).createIndex('patientId', 'patientId');
+      db.createObjectStore('meta', { keyPath: 'key' });
+    };
+    const db = await promisify(openRequest);
+
+    const meta = db.transaction('meta').objectStore('meta');
+    const encryption = await promisify<EncryptionMeta | undefined>(meta.get('encryption'));
+    return new PatientStore(db, encryption || null);
+  }
+
+  get encrypted(): boolean {
+    return this.encryption !== null;
+  }
+
+  get locked(): boolean {
+    return this.encryption !== null && this.key === null;
+  }
+
+  // False when the passphrase is wrong
+  async unlock(passphrase: string): Promise<boolean> {
+    if (!this.encryption) return true;
+
+    const key = await deriveKey(passphrase, this.encryption.salt);
+    try {
+      await decryptJSON(key, this.encryption.check);
+    } catch (error) {
+      return false;
+    }
+    this.key = key;
+    return true;
+  }
+
+  lock(): void {
+    this.key = null;
+  }
+
+  // Encrypt everything with a new passphrase, or store it in the clear again with null
+  async setPassphrase(passphrase: string | null): Promise<void> {
+    const data = await this.readAll();
+
+    let encryption: EncryptionMeta | null = null;
+    let key: CryptoKey | null = null;
+    if (passphrase !== null) {
+      const salt = randomSalt();
+      key = await deriveKey(passphrase, salt);
+      encryption = { key: 'encryption', salt, check: await encryptJSON(key, CHECK_VALUE) };
+    }
+
+    const patients = await Promise.all(data.patients.map(patient => this.toRecord(patient, undefined, key)));
+    const sessions = await Promise.all(data.sessions.map(session => this.toRecord(session, session.patientId, key)));
+
+    const transaction = this.db.transaction(['patients', 'sessions', 'meta'], 'readwrite');
+    patients.forEach(record => transaction.objectStore('patients').put(record));
+    sessions.forEach(record => transaction.objectStore('sessions').put(record));
+    if (encryption) {
+      transaction.objectStore('meta').put(encryption);
+    } else {
+      transaction.objectStore('meta').delete('encryption');
+    }
+    await transactionDone(transaction);
+
+    this.encryption = encryption;
+    this.key = key;
+  }
+
+  // Sorted by name
+  async listPatients(): Promise<Patient[]> {
+    const records = await promisify<StoredRecord<Patient>[]>(this.db.transaction('patients').objectStore('patients').getAll());
+    const patients = await Promise.all(records.map(record => this.fromRecord(record)));
+    return patients.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async savePatient(patient: Patient): Promise<void> {
+    const record = await this.toRecord(patient, undefined, this.requireKey());
+    const transaction = this.db.transaction('patients', 'readwrite');
+    transaction.objectStore('patients').put(record);
+    await transactionDone(transaction);
+  }
+
+  // Removes the patient's sessions too
+  async deletePatient(patientId: string): Promise<void> {
+    const transaction = this.db.transaction(['patients', 'sessions'], 'readwrite');
+    transaction.objectStore('patients').delete(patientId);
+    const sessions = transaction.objectStore('sessions');
+    const keys = await promisify(sessions.index('patientId').getAllKeys(patientId));
+    keys.forEach(key => sessions.delete(key));
+    await transactionDone(transaction);
+  }
+
+  // Oldest first, the order of the timeline
+  async listSessions(patientId: string): Promise<TreatmentSession[]> {
+    const index = this.db.transaction('sessions').objectStore('sessions').index('patientId');
+    const records = await promisify<StoredRecord<TreatmentSession>[]>(index.getAll(patientId));
+    const sessions = await Promise.all(records.map(record => this.fromRecord(record)));
+    return sessions.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async saveSession(session: TreatmentSession): Promise<void> {
+    const record = await this.toRecord(session, session.patientId, this.requireKey());
+    const transaction = this.db.transaction('sessions', 'readwrite');
+    transaction.objectStore('sessions').put(record);
+    await transactionDone(transaction);
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const transaction = this.db.transaction('sessions', 'readwrite');
+    transaction.objectStore('sessions').delete(sessionId);
+    await transactionDone(transaction);
+  }
+
+  // JSON backup of every patient and session. An encrypted store exports an
+  // encrypted backup that opens with the same passphrase.
+  async exportBackup(): Promise<string> {
+    const data = await this.readAll();
+    const key = this.requireKey();
+    const backup = key && this.encryption
+      ? { format: BACKUP_FORMAT, version: BACKUP_VERSION, salt: this.encryption.salt, encrypted: await encryptJSON(key, data) }
+      : { format: BACKUP_FORMAT, version: BACKUP_VERSION, ...data };
+    return JSON.stringify(backup, null, 2);
+  }
+
+  // Adds the patients and sessions of a backup, replacing records with the same id.
+  // Encrypted backups need the passphrase they were made with.
+  async importBackup(text: string, passphrase?: string): Promise<ImportSummary> {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new BackupFormatError('invalidJson', 'The file is not valid JSON.');
+    }
+    if (!isObject(json) || json.format !== BACKUP_FORMAT || json.version !== BACKUP_VERSION) {
+      throw new BackupFormatError('notBackup', 'The file is not a patient log backup.');
+    }
+
+    let data: unknown = json;
+    if (json.encrypted) {
+      if (passphrase === undefined) {
+        throw new BackupFormatError('passphraseRequired', 'This backup is encrypted; enter its passphrase.');
+      }
+      try {
+        data = await decryptJSON(await deriveKey(passphrase, String(json.salt)), json.encrypted as EncryptedData);
+      } catch (error) {
+        throw new BackupFormatError('wrongPassphrase', 'Wrong passphrase for this backup.');
+      }
+    }
+
+    const backup = data as Partial<BackupData>;
+    const patients = Array.isArray(backup.patients) ? backup.patients.filter(isPatient) : [];
+    const sessions = Array.isArray(backup.sessions) ? backup.sessions.filter(isSession) : [];
+
+    const key = this.requireKey();
+    const patientRecords = await Promise.all(patients.map(patient => this.toRecord(patient, undefined, key)));
+    const sessionRecords = await Promise.all(sessions.map(session => this.toRecord(session, session.patientId, key)));
+    const transaction = this.db.transaction(['patients', 'sessions'], 'readwrite');
+    patientRecords.forEach(record => transaction.objectStore('patients').put(record));
+    sessionRecords.forEach(record => transaction.objectStore('sessions').put(record));
+    await transactionDone(transaction);
+
+    return { patients: patients.length, sessions: sessions.length };
+  }
+
+  private async readAll(): Promise<BackupData> {
+    const transaction = this.db.transaction(['patients', 'sessions']);
+    const [patientRecords, sessionRecords] = await Promise.all([
+      promisify<StoredRecord<Patient>[]>(transaction.objectStore('patients').getAll()),
+      promisify<StoredRecord<TreatmentSession>[]>(transaction.objectStore('sessions').getAll())
+    ]);
+    return {
+      patients: await Promise.all(patientRecords.map(record => this.fromRecord(record))),
+      sessions: await Promise.all(sessionRecords.map(record => this.fromRecord(record)))
+    };
+  }
+
+  // The key to write with: null for a clear store, and an error for a locked one
+  private requireKey(): CryptoKey | null {
+    if (this.locked) throw new PatientStoreLockedError();
+    return this.key;
+  }
+
+  private async toRecord<T extends { id: string }>(value: T, patientId: string | undefined, key: CryptoKey | null): Promise<StoredRecord<T>> {
+    const record: StoredRecord<T> = { id: value.id };
+    if (patientId !== undefined) record.patientId = patientId;
+    if (key) {
+      record.encrypted = await encryptJSON(key, value);
+    } else {
+      record.value = value;
+    }
+    return record;
+  }
+
+  private async fromRecord<T>(record: StoredRecord<T>): Promise<T> {
+    if (!record.encrypted) return record.value as T;
+
+    const key = this.requireKey();
+    if (!key) throw new PatientStoreLockedError();
+    return decryptJSON<T>(key, record.encrypted);
+  }
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPatient(value: unknown): value is Patient {
+  return isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' &&
+    typeof value.notes === 'string' && typeof value.created === 'string';
+}
+
+function isSession(value: unknown): value is TreatmentSession {
+  return (
+    isObject(value) &&
+    typeof value.id === 'string' &&
+    typeof value.patientId === 'string' &&
+    typeof value.date === 'string' &&
+    typeof value.notes === 'string' &&
+    Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string') &&
+    Array.isArray(value.items) && value.items.every(item =>
+      isObject(item) && typeof item.pointId === 'string' && typeof item.notes === 'string' &&
+      LATERALITIES.includes(item.laterality as Laterality))
+  );
+}
@@ -0,0 +1,118 @@
+import { EventDispatcher } from 'three';
+import { Laterality } from '../data/AcupointDataset';
+
+export interface PrescriptionItem {
+  pointId: string;
+  laterality: Laterality;
+  notes: string;
+}
+
+// Points in the order they are needled
+export interface Prescription {
+  id: string;
+  name: string;
+  items: PrescriptionItem[];
+  // ISO date of the last save
+  updated: string;
+}
+
+export interface PrescriptionDraftEventMap {
+  change: {};
+}
+
+// Id for records created in this browser (prescriptions, patients, sessions)
+export function createLocalId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+// The prescription being edited. Every edit dispatches 'change'; saving is left to
+// PrescriptionStore, so `dirty` tells whether there is anything unsaved.
+export class PrescriptionDraft extends EventDispatcher<PrescriptionDraftEventMap> {
+  private prescription: Prescription = PrescriptionDraft.empty();
+  private modified = false;
+
+  static empty(): Prescription {
+    return { id: createLocalId(), name: '', items: [], updated: '' };
+  }
+
+  get current(): Prescription {
+    return this.prescription;
+  }
+
+  get items(): PrescriptionItem[] {
+    return this.prescription.items;
+  }
+
+  get dirty(): boolean {
+    return this.modified;
+  }
+
+  has(pointId: string): boolean {
+    return this.prescription.items.some(item => item.pointId === pointId);
+  }
+
+  // Start a new prescription, or edit a copy of a saved one
+  load(prescription: Prescription | null): void {
+    this.prescription = prescription
+      ? { ...prescription, items: prescription.items.map(item => ({ ...item })) }
+      : PrescriptionDraft.empty();
+    this.modified = false;
+    this.dispatchEvent({ type: 'change' });
+  }
+
+  // Saved as this version; the store stamps the date
+  markSaved(saved: Prescription): void {
+    this.prescription = { ...saved, items: saved.items.map(item => ({ ...item })) };
+    this.modified = false;
+    this.dispatchEvent({ type: 'change' });
+  }
+
+  setName(name: string): void {
+    this.edit(prescription => ({ ...prescription, name }));
+  }
+
+  // A point is listed once; adding it again does nothing
+  add(pointId: string, laterality: Laterality = 'bilateral'): void {
+    if (this.has(pointId)) return;
+    this.edit(prescription => ({ ...prescription, items: [...prescription.items, { pointId, laterality, notes: '' }] }));
+  }
+
+  remove(index: number): void {
+    this.edit(prescription => ({ ...prescription, items: prescription.items.filter((_, i) => i !== index) }));
+  }
+
+  // Move an item up (-1) or down (+1) the list
+  move(index: number, offset: number): void {
+    const target = index + offset;
+    if (target < 0 || target >= this.prescription.items.length) return;
+
+    this.edit(prescription => {
+      const items = prescription.items.slice();
+      const [item] = items.splice(index, 1);
+      items.splice(target, 0, item);
+      return { ...prescription, items };
+    });
+  }
+
+  setLaterality(index: number, laterality: Laterality): void {
+    this.updateItem(index, { laterality });
+  }
+
+  setNotes(index: number, notes: string): void {
+    this.updateItem(index, { notes });
+  }
+
+  private updateItem(index: number, changes: Partial<PrescriptionItem>): void {
+    if (!this.prescription.items[index]) return;
+    this.edit(prescription => ({
+      ...prescription,
+      items: prescription.items.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    }));
+  }
+
+  private edit(change: (prescription: Prescription) => Prescription): void {
+    this.prescription = change(this.prescription);
+    this.modified = true;
+    this.dispatchEvent({ type: 'change' });
+  }
+}
@@ -0,0 +1,67 @@
+import { Laterality, LATERALITIES } from '../data/AcupointDataset';
+import { Prescription, PrescriptionItem } from './Prescription';
+
+const STORAGE_KEY = 'acu-master.prescriptions';
+
+// Named prescriptions kept in this browser's localStorage. Entries that do not
+// look like prescriptions (e.g. written by another version) are ignored.
+export class PrescriptionStore {
+  constructor(private storage: Storage = window.localStorage) {}
+
+  // Most recently saved first
+  list(): Prescription[] {
+    return this.read().sort((a, b) => b.updated.localeCompare(a.updated));
+  }
+
+  get(id: string): Prescription | undefined {
+    return this.read().find(prescription => prescription.id === id);
+  }
+
+  save(prescription: Prescription): Prescription {
+    const saved: Prescription = { ...prescription, updated: new Date().toISOString() };
+    this.write([...this.read().filter(existing => existing.id !== saved.id), saved]);
+    return saved;
+  }
+
+  remove(id: string): void {
+    this.write(this.read().filter(prescription => prescription.id !== id));
+  }
+
+  private read(): Prescription[] {
+    try {
+      const json = JSON.parse(this.storage.getItem(STORAGE_KEY) || '[]');
+      return Array.isArray(json) ? json.filter(isPrescription) : [];
+    } catch (error) {
+      console.warn('Ignoring unreadable saved prescriptions', error);
+      return [];
+    }
+  }
+
+  private write(prescriptions: Prescription[]): void {
+    this.storage.setItem(STORAGE_KEY, JSON.stringify(prescriptions));
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPrescription(value: unknown): value is Prescription {
+  return (
+    isObject(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.updated === 'string' &&
+    Array.isArray(value.items) &&
+    value.items.every(isPrescriptionItem)
+  );
+}
+
+function isPrescriptionItem(value: unknown): value is PrescriptionItem {
+  return (
+    isObject(value) &&
+    typeof value.pointId === 'string' &&
+    LATERALITIES.includes(value.laterality as Laterality) &&
+    typeof value.notes === 'string'
+  );
+}
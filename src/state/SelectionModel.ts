@@ -0,0 +1,46 @@
+import { EventDispatcher } from 'three';
+import { Laterality } from '../data/AcupointDataset';
+
+// Where a selection came from, so listeners can skip echoing it back
+export type SelectionSource = 'viewer' | 'sidebar' | 'api';
+
+export interface SelectionChangeEvent {
+  pointId: string | null;
+  previousId: string | null;
+  // Side of a bilateral point picked in the viewer, or 'bilateral' for the whole point
+  laterality: Laterality;
+  source: SelectionSource;
+}
+
+export interface SelectionEventMap {
+  change: SelectionChangeEvent;
+}
+
+// The single owner of the selected point. The viewer and the sidebar only call
+// select() and react to 'change', so both always show the same point.
+export class SelectionModel extends EventDispatcher<SelectionEventMap> {
+  private current: string | null = null;
+  private side: Laterality = 'bilateral';
+
+  get pointId(): string | null {
+    return this.current;
+  }
+
+  get laterality(): Laterality {
+    return this.side;
+  }
+
+  select(pointId: string | null, source: SelectionSource = 'api', laterality: Laterality = 'bilateral'): void {
+    if (pointId === null) laterality = 'bilateral';
+    if (pointId === this.current && laterality === this.side) return;
+
+    const previousId = this.current;
+    this.current = pointId;
+    this.side = laterality;
+    this.dispatchEvent({ type: 'change', pointId, previousId, laterality, source });
+  }
+
+  clear(source: SelectionSource = 'api'): void {
+    this.select(null, source);
+  }
+}
@@ -0,0 +1,56 @@
+import { CardState } from '../study/SpacedRepetition';
+
+const STORAGE_KEY = 'acu-master.study';
+
+// Review state of the study cards, kept in this browser's localStorage. Entries
+// that do not look like cards are ignored.
+export class StudyStore {
+  constructor(private storage: Storage = window.localStorage) {}
+
+  // By card id
+  all(): Map<string, CardState> {
+    return new Map(this.read().map(card => [card.id, card]));
+  }
+
+  get(id: string): CardState | undefined {
+    return this.read().find(card => card.id === id);
+  }
+
+  save(card: CardState): void {
+    this.write([...this.read().filter(existing => existing.id !== card.id), card]);
+  }
+
+  // Forget the given cards, e.g. to restart a deck
+  reset(ids: Iterable<string>): void {
+    const forgotten = new Set(ids);
+    this.write(this.read().filter(card => !forgotten.has(card.id)));
+  }
+
+  private read(): CardState[] {
+    try {
+      const json = JSON.parse(this.storage.getItem(STORAGE_KEY) || '[]');
+      return Array.isArray(json) ? json.filter(isCardState) : [];
+    } catch (error) {
+      console.warn('Ignoring unreadable study progress', error);
+      return [];
+    }
+  }
+
+  private write(cards: CardState[]): void {
+    this.storage.setItem(STORAGE_KEY, JSON.stringify(cards));
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isCardState(value: unknown): value is CardState {
+  return (
+    isObject(value) &&
+    typeof value.id === 'string' &&
+    typeof value.due === 'string' &&
+    typeof value.reviewed === 'string' &&
+    ['interval', 'ease', 'repetitions', 'lapses', 'reviews', 'correct'].every(field => typeof value[field] === 'number')
+  );
+}
@@ -0,0 +1,78 @@
+// How well a card was recalled, from forgotten to effortless
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+// Review state of one card, e.g. locating one point
+export interface CardState {
+  id: string;
+  // Days until the next review after a successful one
+  interval: number;
+  // SM-2 easiness factor: how fast the interval grows
+  ease: number;
+  // Successful reviews in a row
+  repetitions: number;
+  lapses: number;
+  // ISO timestamps
+  due: string;
+  reviewed: string;
+  // All answers and those graded good or easy, for the progress summary
+  reviews: number;
+  correct: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// A forgotten card comes back in the same session
+const RELEARN_DELAY = 10 * 60 * 1000;
+const EASY_BONUS = 1.3;
+const HARD_FACTOR = 1.2;
+
+// SM-2 quality (0-5) of each grade
+const QUALITY: { [grade in ReviewGrade]: number } = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export function isCorrect(grade: ReviewGrade): boolean {
+  return grade === 'good' || grade === 'easy';
+}
+
+// The card after one review, scheduled with SM-2. Cards never seen before start
+// from `previous` undefined.
+export function reviewCard(id: string, previous: CardState | undefined, grade: ReviewGrade, now: Date = new Date()): CardState {
+  const card: CardState = previous
+    ? { ...previous }
+    : { id, interval: 0, ease: INITIAL_EASE, repetitions: 0, lapses: 0, due: now.toISOString(), reviewed: '', reviews: 0, correct: 0 };
+
+  const quality = QUALITY[grade];
+  card.reviews++;
+  card.reviewed = now.toISOString();
+  if (isCorrect(grade)) card.correct++;
+
+  if (grade === 'again') {
+    if (card.repetitions > 0) card.lapses++;
+    card.repetitions = 0;
+    card.interval = 0;
+    card.ease = Math.max(MIN_EASE, card.ease - 0.2);
+    card.due = new Date(now.getTime() + RELEARN_DELAY).toISOString();
+    return card;
+  }
+
+  card.repetitions++;
+  if (card.repetitions === 1) {
+    card.interval = 1;
+  } else if (card.repetitions === 2) {
+    card.interval = 6;
+  } else {
+    card.interval = Math.round(card.interval * (grade === 'hard' ? HARD_FACTOR : card.ease));
+  }
+  if (grade === 'easy') {
+    card.interval = Math.round(card.interval * EASY_BONUS);
+  }
+  card.ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  card.due = new Date(now.getTime() + card.interval * DAY).toISOString();
+  return card;
+}
+
+export function isDue(card: CardState, now: Date = new Date()): boolean {
+  return card.due <= now.toISOString();
+}
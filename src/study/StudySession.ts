@@ -0,0 +1,213 @@
+import { Acupoint, AcupointDataset } from '../data/AcupointDataset';
+import { StudyStore } from '../state/StudyStore';
+import { CardState, isDue, reviewCard, ReviewGrade } from './SpacedRepetition';
+
+export type QuizType = 'locate' | 'identify' | 'indication';
+
+// Labelled in the interface by the study.type.* messages
+export const QUIZ_TYPES: QuizType[] = ['locate', 'identify', 'indication'];
+
+export interface QuizQuestion {
+  type: QuizType;
+  cardId: string;
+  point: Acupoint;
+  // Multiple choice answers in the order shown, the point among them; empty for locate questions
+  choices: Acupoint[];
+  // The indication asked about, in the Portuguese of the dataset
+  indication?: string;
+}
+
+// What to study: the meridians of the deck and the kinds of question
+export interface StudyDeck {
+  meridians: string[];
+  types: QuizType[];
+}
+
+export interface DeckProgress {
+  meridianId: string;
+  cards: number;
+  // Never answered
+  unseen: number;
+  // Answered but not yet remembered for a week
+  learning: number;
+  due: number;
+  reviews: number;
+  correct: number;
+}
+
+const CHOICE_COUNT = 4;
+// New cards mixed into one session, so reviews are not buried under them
+const NEW_CARDS_PER_SESSION = 10;
+// Remembered for this many days counts as learnt
+const LEARNT_INTERVAL = 7;
+const UNCALIBRATED_CENTIMETRES_PER_CUN = 2;
+
+interface Card {
+  id: string;
+  type: QuizType;
+  point: Acupoint;
+}
+
+// One sitting of the study mode: asks the cards of a deck that are due, then new
+// ones, and records the answers with the spaced repetition scheduler.
+// Locate and identify questions need the point on the model, so `isPlaced` filters them.
+export class StudySession {
+  private newCards = 0;
+  private lastCardId: string | null = null;
+
+  constructor(
+    private dataset: AcupointDataset,
+    private store: StudyStore,
+    private deck: StudyDeck,
+    private isPlaced: (pointId: string) => boolean,
+    private random: () => number = Math.random
+  ) {}
+
+  // The next question, or null when nothing is due and the new cards of this session are used up
+  next(now: Date = new Date()): QuizQuestion | null {
+    const states = this.store.all();
+    const cards = this.cards();
+
+    const due = cards
+      .filter(card => {
+        const state = states.get(card.id);
+        return state !== undefined && isDue(state, now);
+      })
+      .sort((a, b) => (states.get(a.id) as CardState).due.localeCompare((states.get(b.id) as CardState).due));
+    // A card answered wrong is due again soon; ask something else in between when possible
+    const review = due.find(card => card.id !== this.lastCardId) || due[0];
+    if (review) return this.ask(review);
+
+    if (this.newCards >= NEW_CARDS_PER_SESSION) return null;
+    const unseen = cards.filter(card => !states.has(card.id));
+    if (unseen.length === 0) return null;
+
+    this.newCards++;
+    return this.ask(unseen[Math.floor(this.random() * unseen.length)]);
+  }
+
+  answer(question: QuizQuestion, grade: ReviewGrade, now: Date = new Date()): CardState {
+    const state = reviewCard(question.cardId, this.store.get(question.cardId), grade, now);
+    this.store.save(state);
+    return state;
+  }
+
+  // When the next card of the deck falls due, if none is due now
+  nextDue(now: Date = new Date()): Date | null {
+    const states = this.store.all();
+    const dates = this.cards()
+      .map(card => states.get(card.id)?.due)
+      .filter((due): due is string => due !== undefined && due > now.toISOString())
+      .sort();
+    return dates.length > 0 ? new Date(dates[0]) : null;
+  }
+
+  progress(now: Date = new Date()): DeckProgress[] {
+    const states = this.store.all();
+    const cards = this.cards();
+
+    return this.deck.meridians.map(meridianId => {
+      const progress: DeckProgress = { meridianId, cards: 0, unseen: 0, learning: 0, due: 0, reviews: 0, correct: 0 };
+      cards.filter(card => card.point.meridian === meridianId).forEach(card => {
+        const state = states.get(card.id);
+        progress.cards++;
+        if (!state) {
+          progress.unseen++;
+          return;
+        }
+        if (state.interval < LEARNT_INTERVAL) progress.learning++;
+        if (isDue(state, now)) progress.due++;
+        progress.reviews += state.reviews;
+        progress.correct += state.correct;
+      });
+      return progress;
+    });
+  }
+
+  // Ids of every card in the deck, e.g. to reset it
+  cardIds(): string[] {
+    return this.cards().map(card => card.id);
+  }
+
+  private cards(): Card[] {
+    const cards: Card[] = [];
+    this.deck.meridians.forEach(meridianId => {
+      this.dataset.byMeridian(meridianId).forEach(point => {
+        this.deck.types.forEach(type => {
+          if (type === 'indication' ? indicationTerms(point).length > 0 : this.isPlaced(point.id)) {
+            cards.push({ id: cardId(type, point.id), type, point });
+          }
+        });
+      });
+    });
+    return cards;
+  }
+
+  private ask(card: Card): QuizQuestion {
+    this.lastCardId = card.id;
+    const question: QuizQuestion = { type: card.type, cardId: card.id, point: card.point, choices: [] };
+
+    if (card.type === 'identify') {
+      // Points of the same meridian first: telling neighbours apart is the hard part
+      const others = this.dataset.points.filter(point => point.id !== card.point.id && this.isPlaced(point.id));
+      question.choices = this.withDistractors(card.point, [
+        others.filter(point => point.meridian === card.point.meridian),
+        others.filter(point => point.meridian !== card.point.meridian)
+      ]);
+    } else if (card.type === 'indication') {
+      const terms = indicationTerms(card.point);
+      const indication = terms[Math.floor(this.random() * terms.length)];
+      // Other points must not treat it too, or two answers would be right
+      const others = this.dataset.points.filter(point => point.id !== card.point.id && !indicationTerms(point).includes(indication));
+      question.indication = indication;
+      question.choices = this.withDistractors(card.point, [
+        others.filter(point => indicationTerms(point).length > 0),
+        others.filter(point => indicationTerms(point).length === 0)
+      ]);
+    }
+    return question;
+  }
+
+  // The answer and distractors drawn from the pools in order, shuffled
+  private withDistractors(answer: Acupoint, pools: Acupoint[][]): Acupoint[] {
+    const choices = [answer];
+    pools.forEach(pool => {
+      this.shuffle([...pool]).forEach(point => {
+        if (choices.length < CHOICE_COUNT) choices.push(point);
+      });
+    });
+    return this.shuffle(choices);
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
+
+export function cardId(type: QuizType, pointId: string): string {
+  return `${type}:${pointId}`;
+}
+
+// Grade of a locate answer by how far the click was from the point over the skin.
+// Models without a cun calibration take a cun as an adult thumb's width.
+export function gradeDistance(cun: number | null, centimetres: number): ReviewGrade {
+  if (cun === null) cun = centimetres / UNCALIBRATED_CENTIMETRES_PER_CUN;
+  if (cun <= 0.5) return 'easy';
+  if (cun <= 1) return 'good';
+  if (cun <= 2) return 'hard';
+  return 'again';
+}
+
+// The separate conditions listed under Indicações, lower case. The legacy pages
+// wrote them as one comma separated sentence, with "em breve..." for missing ones.
+export function indicationTerms(point: Acupoint): string[] {
+  const terms = (point.sections.indicacoes || [])
+    .flatMap(item => item.split(/[,;]/))
+    .map(term => term.trim().replace(/\.+$/, '').toLowerCase())
+    .filter(term => term.length > 2 && term !== 'em breve');
+  return Array.from(new Set(terms));
+}
@@ -0,0 +1,273 @@
+import $ from 'jquery';
+import {
+  Acupoint,
+  AnchorView,
+  CONTENT_SECTIONS,
+  ContentSectionKey,
+  DatasetValidationError,
+  defaultSymmetry,
+  Meridian,
+  PointSymmetry
+} from '../data/AcupointDataset';
+import { Localization } from '../i18n/Localization';
+import { AcupointChanges, AuthoringSession } from '../state/AuthoringSession';
+
+export interface AuthoringPanelOptions {
+  session: AuthoringSession;
+  meridians: Meridian[];
+  i18n: Localization;
+  // Ask the app to select a point, e.g. one that was just added
+  onSelect: (pointId: string) => void;
+  onSnapChange: (snap: boolean) => void;
+  onClose: () => void;
+}
+
+const SYMMETRIES: PointSymmetry[] = ['bilateral', 'midline'];
+
+// Views a point can be framed from besides the default anterior one
+const OTHER_VIEWS: AnchorView[] = ['posterior', 'left', 'right'];
+
+// Sidebar panel of the authoring mode: history buttons, export, new points and
+// the metadata form of the selected point. Moving points happens in the viewer.
+export class AuthoringPanel {
+  readonly element: HTMLElement;
+  private $panel: JQuery;
+  private $form: JQuery;
+  private $status: JQuery;
+  private point: Acupoint | undefined;
+
+  constructor(private options: AuthoringPanelOptions) {
+    this.$panel = $(`
+      <div id="authoring-panel" class="acuponto">
+        <h3 data-i18n="authoring.title"></h3>
+        <div class="btn-toolbar gap-1 mb-2">
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="undo" data-i18n="authoring.undo" data-i18n-title="authoring.undoTitle"></button>
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="redo" data-i18n="authoring.redo" data-i18n-title="authoring.redoTitle"></button>
+          <button type="button" class="btn btn-primary btn-sm" data-action="export" data-i18n="authoring.export"></button>
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="close" data-i18n="authoring.exit"></button>
+        </div>
+        <div class="form-check">
+          <input id="authoring-snap" type="checkbox" name="snap" class="form-check-input" checked>
+          <label class="form-check-label" for="authoring-snap" data-i18n="authoring.snap"></label>
+        </div>
+        <p class="form-text" data-i18n="authoring.help"></p>
+        <p class="authoring-status text-muted"></p>
+        <form class="authoring-new d-flex gap-1 mb-2">
+          <select name="meridian" class="form-select form-select-sm" data-i18n-aria-label="authoring.meridian"></select>
+          <input name="number" type="number" min="1" class="form-control form-control-sm" data-i18n-placeholder="authoring.number" data-i18n-aria-label="authoring.numberLabel">
+          <button type="submit" class="btn btn-outline-secondary btn-sm" data-i18n="authoring.newPoint"></button>
+        </form>
+        <form class="authoring-point"></form>
+      </div>
+    `);
+    this.element = this.$panel.get(0) as HTMLElement;
+    this.$form = this.$panel.find('form.authoring-point');
+    this.$status = this.$panel.find('.authoring-status');
+
+    const $meridian = this.$panel.find('select[name="meridian"]');
+    options.meridians.forEach(meridian => $meridian.append($('<option></option>').val(meridian.id)));
+
+    this.$panel.find('[data-action="undo"]').on('click', () => options.session.undo());
+    this.$panel.find('[data-action="redo"]').on('click', () => options.session.redo());
+    this.$panel.find('[data-action="export"]').on('click', () => this.exportDataset());
+    this.$panel.find('[data-action="close"]').on('click', () => options.onClose());
+    this.$panel.find('input[name="snap"]').on('change', (e) => {
+      options.onSnapChange((e.target as HTMLInputElement).checked);
+    });
+    this.$panel.find('form.authoring-new').on('submit', (e) => {
+      e.preventDefault();
+      this.addPoint(String($meridian.val()), parseInt(String(this.$panel.find('input[name="number"]').val()), 10));
+    });
+    this.$form.on('submit', (e) => {
+      e.preventDefault();
+      this.applyForm();
+    });
+
+    this.updateButtons();
+    this.updateLabels();
+  }
+
+  // Texts in the current language, after it changed
+  updateLabels(): void {
+    const i18n = this.options.i18n;
+    i18n.translate(this.element);
+    this.$panel.find('select[name="meridian"] option').each((_, option) => {
+      const meridian = this.options.meridians.find(candidate => candidate.id === (option as HTMLOptionElement).value);
+      if (meridian) $(option).text(i18n.meridianFullName(meridian));
+    });
+
+    // The form is redrawn; keep what was typed but not applied yet
+    const values = this.$form.serializeArray();
+    this.renderForm();
+    values.forEach(({ name, value }) => this.$form.find(`[name="${name}"]`).val(value));
+  }
+
+  // Show the form of a point, or nothing when no point is selected
+  setPoint(point: Acupoint | undefined): void {
+    this.point = point;
+    this.updateButtons();
+    this.renderForm();
+  }
+
+  showStatus(message: string, isError: boolean = false): void {
+    this.$status.text(message).toggleClass('text-danger', isError).toggleClass('text-muted', !isError);
+  }
+
+  private updateButtons(): void {
+    this.$panel.find('[data-action="undo"]').prop('disabled', !this.options.session.canUndo);
+    this.$panel.find('[data-action="redo"]').prop('disabled', !this.options.session.canRedo);
+  }
+
+  private renderForm(): void {
+    this.$form.empty();
+    const point = this.point;
+    if (!point) return;
+
+    const i18n = this.options.i18n;
+    this.$form.append($('<h4></h4>').text(point.code));
+
+    if (!point.anchor) {
+      this.$form.append($('<p class="text-warning"></p>').text(i18n.t('authoring.notPlaced')));
+    } else {
+      const position = point.anchor.position.map(value => value.toFixed(3)).join(', ');
+      const surface = point.anchor.surface;
+      this.$form.append($('<p class="text-muted"></p>').text(surface
+        ? i18n.t('authoring.positionOnSurface', { position, mesh: surface.mesh, triangle: surface.triangle })
+        : i18n.t('authoring.position', { position })));
+    }
+
+    this.addField('pinyin', i18n.t('authoring.pinyin'), point.pinyin);
+    this.addField('namePt', i18n.t('authoring.name'), point.namePt);
+
+    const $view = $('<select name="view" class="form-select form-select-sm"></select>');
+    $view.append($('<option value=""></option>').text(i18n.t('authoring.defaultView', { view: i18n.t('view.anterior') })));
+    OTHER_VIEWS.forEach(view => $view.append($('<option></option>').val(view).text(i18n.t(`view.${view}`))));
+    $view.val(point.anchor?.view && point.anchor.view !== 'anterior' ? point.anchor.view : '');
+    $view.prop('disabled', !point.anchor);
+    this.$form.append($('<div class="mb-2"></div>').append($('<label class="form-label"></label>').text(i18n.t('authoring.view')), $view));
+
+    const $symmetry = $('<select name="symmetry" class="form-select form-select-sm"></select>');
+    SYMMETRIES.forEach(symmetry => $symmetry.append($('<option></option>').val(symmetry).text(i18n.t(`authoring.symmetry.${symmetry}`))));
+    $symmetry.val(point.symmetry);
+    this.$form.append($('<div class="mb-2"></div>').append($('<label class="form-label"></label>').text(i18n.t('authoring.sides')), $symmetry));
+
+    CONTENT_SECTIONS.forEach(section => {
+      const label = i18n.t('authoring.lines', { field: i18n.sectionTitle(section.key) });
+      this.addTextArea(`section-${section.key}`, label, (point.sections[section.key] || []).join('\n'));
+    });
+    this.addTextArea('images', i18n.t('authoring.lines', { field: i18n.t('authoring.images') }), point.images.join('\n'));
+
+    this.$form.append('<p class="authoring-errors text-danger"></p>');
+    this.$form.append($('<button type="submit" class="btn btn-primary btn-sm"></button>').text(i18n.t('authoring.apply')));
+  }
+
+  private addField(name: string, label: string, value: string): void {
+    const $input = $('<input type="text" class="form-control form-control-sm">').attr('name', name).val(value);
+    this.$form.append($('<div class="mb-2"></div>').append($('<label class="form-label"></label>').text(label), $input));
+  }
+
+  private addTextArea(name: string, label: string, value: string): void {
+    const $input = $('<textarea rows="3" class="form-control form-control-sm"></textarea>').attr('name', name).val(value);
+    this.$form.append($('<div class="mb-2"></div>').append($('<label class="form-label"></label>').text(label), $input));
+  }
+
+  private applyForm(): void {
+    const point = this.point;
+    if (!point) return;
+
+    const field = (name: string) => String(this.$form.find(`[name="${name}"]`).val() || '');
+    const lines = (name: string) => field(name).split('\n').map(line => line.trim()).filter(line => line !== '');
+
+    const sections: Partial<Record<ContentSectionKey, string[]>> = {};
+    CONTENT_SECTIONS.forEach(section => {
+      const items = lines(`section-${section.key}`);
+      if (items.length > 0) sections[section.key] = items;
+    });
+
+    const changes: AcupointChanges = {
+      pinyin: field('pinyin').trim(),
+      namePt: field('namePt').trim(),
+      sections,
+      images: lines('images'),
+      symmetry: field('symmetry') as PointSymmetry
+    };
+
+    const view = field('view') as AnchorView | '';
+    if (point.anchor && (point.anchor.view || '') !== view) {
+      const anchor = { ...point.anchor };
+      if (view) {
+        anchor.view = view;
+      } else {
+        delete anchor.view;
+      }
+      changes.anchor = anchor;
+    }
+
+    try {
+      this.options.session.updatePoint(point.id, changes);
+      this.showStatus(this.options.i18n.t('authoring.updated', { code: point.code }));
+    } catch (error) {
+      this.showErrors(error);
+    }
+  }
+
+  private addPoint(meridianId: string, number: number): void {
+    if (!meridianId || !(number > 0)) {
+      this.showStatus(this.options.i18n.t('authoring.choosePoint'), true);
+      return;
+    }
+
+    const point: Acupoint = {
+      id: `${meridianId.toLowerCase()}${number}`,
+      meridian: meridianId,
+      number,
+      code: `${meridianId}-${number}`,
+      pinyin: '',
+      namePt: '',
+      sections: {},
+      images: [],
+      symmetry: defaultSymmetry(meridianId),
+      anchor: null
+    };
+
+    try {
+      this.options.session.addPoint(point);
+    } catch (error) {
+      this.showStatus(error instanceof Error ? error.message : String(error), true);
+      return;
+    }
+    this.showStatus(this.options.i18n.t('authoring.added', { code: point.code }));
+    this.options.onSelect(point.id);
+  }
+
+  private exportDataset(): void {
+    let text: string;
+    try {
+      text = this.options.session.export();
+    } catch (error) {
+      this.showErrors(error);
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'acupoints.json';
+    link.click();
+    URL.revokeObjectURL(url);
+    this.showStatus(this.options.i18n.t('authoring.exported'));
+  }
+
+  private showErrors(error: unknown): void {
+    const $errors = this.$form.find('.authoring-errors');
+    const message = error instanceof DatasetValidationError
+      ? error.issues.join('\n')
+      : error instanceof Error ? error.message : String(error);
+
+    if ($errors.length > 0) {
+      $errors.text(message);
+    } else {
+      this.showStatus(message, true);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+// Off-screen live region read out by screen readers. Messages are written on the
+// next frame, after clearing the region, so repeating a message announces it again.
+export class LiveAnnouncer {
+  readonly element: HTMLElement;
+  private frame = 0;
+
+  constructor() {
+    this.element = document.createElement('div');
+    this.element.id = 'live-announcer';
+    this.element.className = 'visually-hidden';
+    this.element.setAttribute('role', 'status');
+    this.element.setAttribute('aria-live', 'polite');
+    this.element.setAttribute('aria-atomic', 'true');
+  }
+
+  announce(message: string): void {
+    cancelAnimationFrame(this.frame);
+    this.element.textContent = '';
+    this.frame = requestAnimationFrame(() => {
+      this.element.textContent = message;
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import $ from 'jquery';
+import { Localization } from '../i18n/Localization';
+import { CunLandmarkPair } from '../measure/CunScale';
+
+export interface MeasurePanelOptions {
+  i18n: Localization;
+  // Place the marker `cun` from the point with this code; direction is 1 towards
+  // higher point numbers, -1 towards lower ones
+  onWalk: (code: string, cun: number, direction: number) => void;
+  // Authoring only: move the selected point to the marker
+  onMoveSelected: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Name of a calibration pair in the current language
+export function cunLandmarkLabel(pair: CunLandmarkPair, i18n: Localization): string {
+  return i18n.t(pair.label);
+}
+
+// Sidebar panel of the measurement tool. Distances are picked in the viewer; the
+// panel shows them and places markers a number of cun along a meridian.
+export class MeasurePanel {
+  readonly element: HTMLElement;
+  private $panel: JQuery;
+  private $result: JQuery;
+  private $walkResult: JQuery;
+  private $move: JQuery;
+
+  constructor(private options: MeasurePanelOptions) {
+    this.$panel = $(`
+      <div id="measure-panel" class="acuponto">
+        <h3 data-i18n="tools.measure"></h3>
+        <p class="form-text" data-i18n="measure.help"></p>
+        <p class="measure-result" aria-live="polite"></p>
+        <form class="measure-walk d-flex flex-wrap align-items-center gap-1 mb-2">
+          <input name="cun" type="number" step="0.5" min="0" value="1" class="form-control form-control-sm" data-i18n-aria-label="measure.cun">
+          <span data-i18n="measure.cunFrom"></span>
+          <input name="code" type="text" class="form-control form-control-sm" placeholder="E-36" data-i18n-aria-label="measure.code">
+          <select name="direction" class="form-select form-select-sm" data-i18n-aria-label="measure.direction">
+            <option value="1" data-i18n="measure.higher"></option>
+            <option value="-1" data-i18n="measure.lower"></option>
+          </select>
+          <button type="submit" class="btn btn-outline-secondary btn-sm" data-i18n="measure.place"></button>
+        </form>
+        <p class="measure-walk-result" aria-live="polite"></p>
+        <div class="btn-toolbar gap-1 mb-2">
+          <button type="button" class="btn btn-primary btn-sm" data-action="move" data-i18n="measure.move" hidden></button>
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="clear" data-i18n="measure.clear"></button>
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="close" data-i18n="common.close"></button>
+        </div>
+      </div>
+    `);
+    this.element = this.$panel.get(0) as HTMLElement;
+    this.$result = this.$panel.find('.measure-result');
+    this.$walkResult = this.$panel.find('.measure-walk-result');
+    this.$move = this.$panel.find('[data-action="move"]');
+
+    this.$panel.find('form.measure-walk').on('submit', (e) => {
+      e.preventDefault();
+      options.onWalk(
+        String(this.$panel.find('input[name="code"]').val() || '').trim(),
+        parseFloat(String(this.$panel.find('input[name="cun"]').val())),
+        parseInt(String(this.$panel.find('select[name="direction"]').val()), 10)
+      );
+    });
+    this.$move.on('click', () => options.onMoveSelected());
+    this.$panel.find('[data-action="clear"]').on('click', () => options.onClear());
+    this.$panel.find('[data-action="close"]').on('click', () => options.onClose());
+    this.updateLabels();
+  }
+
+  // Texts in the current language, after it changed
+  updateLabels(): void {
+    this.options.i18n.translate(this.element);
+  }
+
+  showMeasurement(message: string, isError: boolean = false): void {
+    this.$result.text(message).toggleClass('text-danger', isError);
+  }
+
+  showWalk(message: string, isError: boolean = false): void {
+    this.$walkResult.text(message).toggleClass('text-danger', isError);
+  }
+
+  // Prefill the point code, e.g. with the selected point
+  setCode(code: string): void {
+    this.$panel.find('input[name="code"]').val(code);
+  }
+
+  setCanMove(canMove: boolean): void {
+    this.$move.prop('hidden', !canMove);
+  }
+}
@@ -0,0 +1,43 @@
+import $ from 'jquery';
+import { Meridian } from '../data/AcupointDataset';
+import { Localization } from '../i18n/Localization';
+import { meridianColorCss } from '../scene/meridianColors';
+
+// Colour key of the channels shown over the viewer. Clicking an entry toggles the
+// meridian, the same as its checkbox in the sidebar.
+export class MeridianLegend {
+  readonly element: HTMLElement;
+
+  constructor(private i18n: Localization, private onToggle: (meridianId: string, visible: boolean) => void) {
+    this.element = document.createElement('ul');
+    this.element.id = 'meridian-legend';
+  }
+
+  render(meridians: Meridian[], hidden: Set<string>): void {
+    // Entries are rebuilt on every toggle; keep keyboard focus on the same one
+    const focused = $(this.element).find('li:focus').attr('data-meridian-id');
+    const $legend = $(this.element).empty().attr('aria-label', this.i18n.t('legend.label'));
+
+    meridians.forEach(meridian => {
+      const visible = !hidden.has(meridian.id);
+      const $item = $('<li role="button" tabindex="0"></li>')
+        .attr('data-meridian-id', meridian.id)
+        .attr('aria-pressed', String(visible))
+        .toggleClass('hidden-meridian', !visible)
+        .attr('title', this.i18n.t(visible ? 'legend.hide' : 'legend.show'));
+      $item.append($('<span class="swatch" aria-hidden="true"></span>').css('background-color', meridianColorCss(meridian.id)));
+      $item.append($('<span></span>').text(`${meridian.id} ${this.i18n.meridianName(meridian)}`));
+      $item.on('click', () => this.onToggle(meridian.id, !visible));
+      $item.on('keydown', (e) => {
+        if (e.key !== 'Enter' && e.key !== ' ') return;
+        e.preventDefault();
+        this.onToggle(meridian.id, !visible);
+      });
+      $legend.append($item);
+
+      if (meridian.id === focused) {
+        $item.trigger('focus');
+      }
+    });
+  }
+}
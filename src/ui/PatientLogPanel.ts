@@ -0,0 +1,381 @@
+import $ from 'jquery';
+import { Acupoint } from '../data/AcupointDataset';
+import { Localization } from '../i18n/Localization';
+import { createLocalId, PrescriptionItem } from '../state/Prescription';
+import { BackupFormatError, Patient, PatientStore, PatientStoreLockedError, TreatmentSession } from '../state/PatientStore';
+
+export interface PatientLogPanelOptions {
+  store: PatientStore;
+  getPoint: (pointId: string) => Acupoint | undefined;
+  i18n: Localization;
+  // Points a new session records: the prescription being built, or the selected point
+  getSessionItems: () => PrescriptionItem[];
+  onReplay: (session: TreatmentSession) => void;
+  onClose: () => void;
+}
+
+// Sidebar panel of the patient log: patients, a form to record a session and the
+// timeline of past sessions. Everything stays in this browser (see PatientStore).
+export class PatientLogPanel {
+  readonly element: HTMLElement;
+  private $panel: JQuery;
+  private $body: JQuery;
+  private $status: JQuery;
+  private patients: Patient[] = [];
+  private sessions: TreatmentSession[] = [];
+  private patientId: string | null = null;
+  private tagFilter = '';
+
+  constructor(private options: PatientLogPanelOptions) {
+    this.$panel = $(`
+      <div id="patient-log-panel" class="acuponto">
+        <h3 data-i18n="patients.title"></h3>
+        <p class="form-text" data-i18n="patients.storage"></p>
+        <p class="patient-status text-muted" aria-live="polite"></p>
+        <div class="patient-body"></div>
+        <div class="btn-toolbar gap-1 mt-2">
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="close" data-i18n="common.close"></button>
+        </div>
+      </div>
+    `);
+    this.element = this.$panel.get(0) as HTMLElement;
+    this.$body = this.$panel.find('.patient-body');
+    this.$status = this.$panel.find('.patient-status');
+    this.$panel.find('[data-action="close"]').on('click', () => options.onClose());
+
+    this.refresh();
+  }
+
+  showStatus(message: string, isError: boolean = false): void {
+    this.$status.text(message).toggleClass('text-danger', isError).toggleClass('text-muted', !isError);
+  }
+
+  // The points of the session form follow the prescription and the selection
+  updateSessionPoints(): void {
+    const items = this.options.getSessionItems();
+    this.$body.find('.session-points').text(items.length > 0
+      ? this.options.i18n.t('patients.points', { points: items.map(item => this.describeItem(item)).join(', ') })
+      : this.options.i18n.t('patients.noPoints'));
+    this.$body.find('form.session-new button[type="submit"]').prop('disabled', items.length === 0 || !this.patientId);
+  }
+
+  // Reload the patients and sessions and redraw, e.g. after the language changed
+  async refresh(): Promise<void> {
+    this.options.i18n.translate(this.element);
+    if (this.options.store.locked) {
+      this.renderUnlock();
+      return;
+    }
+
+    try {
+      this.patients = await this.options.store.listPatients();
+      if (!this.patients.some(patient => patient.id === this.patientId)) {
+        this.patientId = this.patients.length > 0 ? this.patients[0].id : null;
+      }
+      this.sessions = this.patientId ? await this.options.store.listSessions(this.patientId) : [];
+    } catch (error) {
+      this.showError(error);
+      return;
+    }
+    this.render();
+  }
+
+  private renderUnlock(): void {
+    this.$body.empty();
+    const $form = $(`
+      <form class="patient-unlock d-flex gap-1">
+        <input name="passphrase" type="password" class="form-control form-control-sm" data-i18n-placeholder="patients.passphrase" data-i18n-aria-label="patients.passphrase" autocomplete="current-password">
+        <button type="submit" class="btn btn-primary btn-sm" data-i18n="patients.unlock"></button>
+      </form>
+    `);
+    $form.on('submit', async (e) => {
+      e.preventDefault();
+      const passphrase = String($form.find('input').val() || '');
+      if (await this.options.store.unlock(passphrase)) {
+        this.showStatus('');
+        this.refresh();
+      } else {
+        this.showStatus(this.options.i18n.t('patients.wrongPassphrase'), true);
+      }
+    });
+    this.$body.append('<p data-i18n="patients.encrypted"></p>', $form);
+    this.options.i18n.translate(this.$body.get(0) as HTMLElement);
+  }
+
+  private render(): void {
+    this.$body.empty();
+    const patient = this.patients.find(candidate => candidate.id === this.patientId);
+
+    // Patient choice
+    const $patients = $('<select name="patient" class="form-select form-select-sm" data-i18n-aria-label="patients.patient"></select>');
+    if (this.patients.length === 0) {
+      $patients.append('<option value="" data-i18n="patients.none"></option>');
+    }
+    this.patients.forEach(candidate => $patients.append($('<option></option>').val(candidate.id).text(candidate.name)));
+    $patients.val(this.patientId || '');
+    $patients.on('change', () => {
+      this.patientId = String($patients.val() || '') || null;
+      this.tagFilter = '';
+      this.refresh();
+    });
+
+    const $newPatient = $(`
+      <form class="patient-new d-flex gap-1 mb-2">
+        <input name="name" type="text" class="form-control form-control-sm" data-i18n-placeholder="patients.newName" data-i18n-aria-label="patients.newName">
+        <button type="submit" class="btn btn-outline-secondary btn-sm" data-i18n="patients.add"></button>
+      </form>
+    `);
+    $newPatient.on('submit', (e) => {
+      e.preventDefault();
+      const name = String($newPatient.find('input').val() || '').trim();
+      if (name) this.addPatient(name);
+    });
+
+    this.$body.append($('<div class="d-flex gap-1 mb-2"></div>').append($patients), $newPatient);
+
+    if (patient) {
+      const $notes = $('<textarea rows="2" class="form-control form-control-sm mb-2" data-i18n-placeholder="patients.notes" data-i18n-aria-label="patients.notes"></textarea>')
+        .val(patient.notes)
+        .on('change', () => this.savePatient({ ...patient, notes: String($notes.val()) }));
+      const $delete = $('<button type="button" class="btn btn-outline-danger btn-sm mb-2" data-i18n="patients.delete"></button>')
+        .on('click', () => this.deletePatient(patient));
+      this.$body.append($notes, $delete);
+      this.renderSessionForm(patient);
+      this.renderTimeline();
+    }
+
+    this.renderBackup();
+    this.updateSessionPoints();
+    this.options.i18n.translate(this.$body.get(0) as HTMLElement);
+  }
+
+  private renderSessionForm(patient: Patient): void {
+    const now = new Date();
+    const local = new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().substring(0, 16);
+    const $form = $(`
+      <form class="session-new mb-2">
+        <h4 data-i18n="patients.newSession"></h4>
+        <input name="date" type="datetime-local" class="form-control form-control-sm mb-1" data-i18n-aria-label="patients.sessionDate">
+        <input name="tags" type="text" class="form-control form-control-sm mb-1" data-i18n-placeholder="patients.tagsPlaceholder" data-i18n-aria-label="patients.tags">
+        <textarea name="notes" rows="2" class="form-control form-control-sm mb-1" data-i18n-placeholder="patients.sessionNotes" data-i18n-aria-label="patients.sessionNotes"></textarea>
+        <p class="session-points form-text"></p>
+        <button type="submit" class="btn btn-primary btn-sm" data-i18n="patients.record"></button>
+      </form>
+    `);
+    $form.find('input[name="date"]').val(local);
+    $form.on('submit', (e) => {
+      e.preventDefault();
+      const date = new Date(String($form.find('input[name="date"]').val() || local));
+      this.recordSession({
+        id: createLocalId(),
+        patientId: patient.id,
+        date: (isNaN(date.getTime()) ? now : date).toISOString(),
+        items: this.options.getSessionItems().map(item => ({ ...item })),
+        notes: String($form.find('textarea[name="notes"]').val() || ''),
+        tags: String($form.find('input[name="tags"]').val() || '').split(',').map(tag => tag.trim()).filter(tag => tag !== '')
+      });
+    });
+    this.$body.append($form);
+  }
+
+  private renderTimeline(): void {
+    const tags = Array.from(new Set(this.sessions.flatMap(session => session.tags))).sort();
+    const $timeline = $('<div class="session-timeline mb-2"><h4 data-i18n="patients.history"></h4></div>');
+
+    if (tags.length > 0) {
+      const $filter = $('<select class="form-select form-select-sm mb-1" data-i18n-aria-label="patients.filter"></select>');
+      $filter.append('<option value="" data-i18n="patients.allSessions"></option>');
+      tags.forEach(tag => $filter.append($('<option></option>').val(tag).text(tag)));
+      $filter.val(this.tagFilter);
+      $filter.on('change', () => {
+        this.tagFilter = String($filter.val() || '');
+        this.render();
+      });
+      $timeline.append($filter);
+    }
+
+    const sessions = this.sessions
+      .filter(session => !this.tagFilter || session.tags.includes(this.tagFilter))
+      .slice()
+      .reverse();
+    if (sessions.length === 0) {
+      $timeline.append('<p class="text-muted" data-i18n="patients.noSessions"></p>');
+    }
+
+    const $list = $('<ol class="list-unstyled"></ol>');
+    sessions.forEach(session => {
+      const $item = $('<li class="session-entry mb-2"></li>');
+      $item.append($('<strong></strong>').text(new Date(session.date).toLocaleString()));
+      session.tags.forEach(tag => $item.append(' ', $('<span class="badge bg-secondary"></span>').text(tag)));
+      $item.append($('<div></div>').text(session.items.map(item => this.describeItem(item)).join(', ')));
+      if (session.notes) {
+        $item.append($('<div class="text-muted"></div>').text(session.notes));
+      }
+
+      const $show = $('<button type="button" class="btn btn-outline-secondary btn-sm me-1" data-i18n="patients.show"></button>')
+        .on('click', () => this.options.onReplay(session));
+      const $delete = $('<button type="button" class="btn btn-outline-danger btn-sm" data-i18n="common.delete"></button>')
+        .on('click', () => this.deleteSession(session));
+      $item.append($('<div class="mt-1"></div>').append($show, $delete));
+      $list.append($item);
+    });
+    $timeline.append($list);
+    this.$body.append($timeline);
+  }
+
+  private renderBackup(): void {
+    const store = this.options.store;
+    const $tools = $(`
+      <div class="btn-toolbar gap-1">
+        <button type="button" class="btn btn-outline-secondary btn-sm" data-action="export" data-i18n="patients.export"></button>
+        <button type="button" class="btn btn-outline-secondary btn-sm" data-action="import" data-i18n="patients.import"></button>
+        <button type="button" class="btn btn-outline-secondary btn-sm" data-action="passphrase"></button>
+        <input type="file" accept="application/json,.json" hidden>
+      </div>
+    `);
+    const $passphraseForm = $(`
+      <form class="patient-passphrase mt-2" hidden>
+        <input name="passphrase" type="password" class="form-control form-control-sm mb-1" data-i18n-placeholder="patients.newPassphrasePlaceholder" data-i18n-aria-label="patients.newPassphrase" autocomplete="new-password">
+        <input name="confirm" type="password" class="form-control form-control-sm mb-1" data-i18n-placeholder="patients.repeatPassphrase" data-i18n-aria-label="patients.repeatPassphrase" autocomplete="new-password">
+        <button type="submit" class="btn btn-primary btn-sm" data-i18n="patients.savePassphrase"></button>
+      </form>
+    `);
+
+    $tools.find('[data-action="export"]').on('click', () => this.exportBackup());
+    $tools.find('[data-action="import"]').on('click', () => $tools.find('input[type="file"]').trigger('click'));
+    $tools.find('input[type="file"]').on('change', (e) => {
+      const input = e.target as HTMLInputElement;
+      const file = input.files && input.files[0];
+      input.value = '';
+      if (file) this.importBackup(file);
+    });
+    $tools.find('[data-action="passphrase"]')
+      .attr('data-i18n', store.encrypted ? 'patients.changePassphrase' : 'patients.setPassphrase')
+      .on('click', () => $passphraseForm.prop('hidden', !$passphraseForm.prop('hidden')));
+    $passphraseForm.on('submit', (e) => {
+      e.preventDefault();
+      const passphrase = String($passphraseForm.find('input[name="passphrase"]').val() || '');
+      if (passphrase !== String($passphraseForm.find('input[name="confirm"]').val() || '')) {
+        this.showStatus(this.options.i18n.t('patients.passphraseMismatch'), true);
+        return;
+      }
+      this.setPassphrase(passphrase === '' ? null : passphrase);
+    });
+
+    if (store.encrypted) {
+      const $lock = $('<button type="button" class="btn btn-outline-secondary btn-sm" data-i18n="patients.lock"></button>').on('click', () => {
+        store.lock();
+        this.refresh();
+      });
+      $tools.append($lock);
+    }
+
+    this.$body.append($tools, $passphraseForm);
+  }
+
+  private describeItem(item: PrescriptionItem): string {
+    const point = this.options.getPoint(item.pointId);
+    const i18n = this.options.i18n;
+    const code = point ? i18n.pointCode(point) : item.pointId;
+    return item.laterality === 'bilateral' ? code : i18n.t('patients.pointSide', { code, side: i18n.t(`laterality.${item.laterality}`) });
+  }
+
+  private async addPatient(name: string): Promise<void> {
+    const patient: Patient = { id: createLocalId(), name, notes: '', created: new Date().toISOString() };
+    if (await this.run(() => this.options.store.savePatient(patient))) {
+      this.patientId = patient.id;
+      this.showStatus(this.options.i18n.t('patients.added', { name }));
+      this.refresh();
+    }
+  }
+
+  private async savePatient(patient: Patient): Promise<void> {
+    if (await this.run(() => this.options.store.savePatient(patient))) {
+      this.showStatus(this.options.i18n.t('patients.notesSaved'));
+      this.refresh();
+    }
+  }
+
+  private async deletePatient(patient: Patient): Promise<void> {
+    if (!window.confirm(this.options.i18n.t('patients.deleteConfirm', { name: patient.name }))) return;
+    if (await this.run(() => this.options.store.deletePatient(patient.id))) {
+      this.showStatus(this.options.i18n.t('patients.deleted', { name: patient.name }));
+      this.refresh();
+    }
+  }
+
+  private async recordSession(session: TreatmentSession): Promise<void> {
+    if (await this.run(() => this.options.store.saveSession(session))) {
+      this.showStatus(this.options.i18n.t('patients.recorded'));
+      this.refresh();
+    }
+  }
+
+  private async deleteSession(session: TreatmentSession): Promise<void> {
+    if (!window.confirm(this.options.i18n.t('patients.deleteSessionConfirm', { date: new Date(session.date).toLocaleString() }))) return;
+    if (await this.run(() => this.options.store.deleteSession(session.id))) {
+      this.refresh();
+    }
+  }
+
+  private async setPassphrase(passphrase: string | null): Promise<void> {
+    if (await this.run(() => this.options.store.setPassphrase(passphrase))) {
+      this.showStatus(this.options.i18n.t(passphrase === null ? 'patients.encryptionRemoved' : 'patients.encryptionSet'));
+      this.refresh();
+    }
+  }
+
+  private async exportBackup(): Promise<void> {
+    let text: string;
+    try {
+      text = await this.options.store.exportBackup();
+    } catch (error) {
+      this.showError(error);
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `patient-log-${new Date().toISOString().substring(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    this.showStatus(this.options.i18n.t(this.options.store.encrypted ? 'patients.exportedEncrypted' : 'patients.exported'));
+  }
+
+  private async importBackup(file: File): Promise<void> {
+    try {
+      const text = await file.text();
+      const encrypted = /"encrypted"\s*:/.test(text);
+      const passphrase = encrypted ? window.prompt(this.options.i18n.t('patients.backupPassphrase')) : undefined;
+      if (passphrase === null) return;
+
+      const summary = await this.options.store.importBackup(text, passphrase);
+      this.showStatus(this.options.i18n.t('patients.imported', { patients: summary.patients, sessions: summary.sessions }));
+      this.refresh();
+    } catch (error) {
+      this.showError(error);
+    }
+  }
+
+  // Runs a store operation, reporting failures in the status line
+  private async run(operation: () => Promise<void>): Promise<boolean> {
+    try {
+      await operation();
+      return true;
+    } catch (error) {
+      this.showError(error);
+      return false;
+    }
+  }
+
+  // Refusals of the store in the current language, anything unexpected as it came
+  private showError(error: unknown): void {
+    if (error instanceof PatientStoreLockedError || error instanceof BackupFormatError) {
+      this.showStatus(this.options.i18n.t(`patients.error.${error.reason}`), true);
+      return;
+    }
+    console.error(error);
+    this.showStatus(error instanceof Error ? error.message : String(error), true);
+  }
+}
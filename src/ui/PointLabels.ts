@@ -0,0 +1,196 @@
+import { Object3D, PerspectiveCamera, Vector3 } from 'three';
+import { Acupoint, BodySide } from '../data/AcupointDataset';
+import { Localization } from '../i18n/Localization';
+import { meridianColorCss } from '../scene/meridianColors';
+import { OcclusionMap } from '../scene/OcclusionMap';
+import { PointInstance } from '../scene/PointMarkers';
+
+// A marker to label, with the skin normal there when known; both in the legacy frame
+export interface LabelAnchor extends PointInstance {
+  normal: Vector3 | null;
+}
+
+// Closer than this, in metres, labels add the point's name to its code
+const DETAIL_DISTANCE = 1.2;
+// Gap in pixels between a marker and its label
+const LABEL_GAP = 6;
+// Beyond this many, the rest of the labels are left out
+const MAX_LABELS = 80;
+
+interface Label extends LabelAnchor {
+  point: Acupoint;
+  element: HTMLElement;
+  code: string;
+  detail: string;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Codes over the viewer next to the markers, the point name added up close. Labels
+// are placed each frame around their marker where they do not overlap another, and
+// hidden while the body is in front of the point.
+export class PointLabels {
+  readonly element: HTMLElement;
+  // Off while e.g. a study question would be given away
+  enabled = true;
+  private labels: Label[] = [];
+  private hiddenMeridians = new Set<string>();
+  private selectedId: string | null = null;
+  // Measured once per text
+  private sizes = new Map<string, { width: number; height: number }>();
+
+  constructor(
+    private i18n: Localization,
+    // Whether the marker of the instance is on the model, e.g. its meridian is shown
+    private isShown: (pointId: string, side: BodySide | null) => boolean
+  ) {
+    this.element = document.createElement('div');
+    this.element.id = 'point-labels';
+    // The selected point is announced; reading every label would only be noise
+    this.element.setAttribute('aria-hidden', 'true');
+  }
+
+  setPoints(points: Acupoint[], anchors: Map<string, LabelAnchor[]>): void {
+    this.element.replaceChildren();
+    this.labels = points.flatMap(point => (anchors.get(point.id) || []).map(anchor => {
+      const element = document.createElement('span');
+      element.className = 'point-label';
+      element.hidden = true;
+      element.style.borderColor = meridianColorCss(point.meridian);
+      this.element.appendChild(element);
+      return { ...anchor, position: anchor.position.clone(), point, element, code: '', detail: '' };
+    }));
+    this.render();
+  }
+
+  // Move the labels of one point, e.g. while it is dragged
+  setInstances(pointId: string, instances: PointInstance[]): void {
+    this.labels.forEach(label => {
+      const instance = label.point.id === pointId ? instances.find(candidate => candidate.side === label.side) : undefined;
+      if (instance) label.position.copy(instance.position);
+    });
+  }
+
+  // Texts in the current language and code system, after they changed
+  render(): void {
+    this.labels.forEach(label => {
+      label.code = this.i18n.pointCode(label.point);
+      label.detail = `${label.code} ${this.i18n.pointName(label.point)}`;
+    });
+  }
+
+  setMeridianVisible(meridianId: string, visible: boolean): void {
+    if (visible) {
+      this.hiddenMeridians.delete(meridianId);
+    } else {
+      this.hiddenMeridians.add(meridianId);
+    }
+  }
+
+  isMeridianVisible(meridianId: string): boolean {
+    return !this.hiddenMeridians.has(meridianId);
+  }
+
+  // The selected point is labelled first, so others make way for it
+  setSelected(pointId: string | null): void {
+    this.selectedId = pointId;
+  }
+
+  // Place the labels for the current camera; `frame` is the legacy frame the anchors are in
+  update(camera: PerspectiveCamera, frame: Object3D, occlusion: OcclusionMap | null): void {
+    const width = this.element.clientWidth;
+    const height = this.element.clientHeight;
+    const toCamera = new Vector3();
+    const candidates: { label: Label; x: number; y: number; distance: number; text: string }[] = [];
+
+    this.labels.forEach(label => {
+      if (!this.enabled || this.hiddenMeridians.has(label.point.meridian) || !this.isShown(label.point.id, label.side)) return;
+
+      const world = label.position.clone().applyMatrix4(frame.matrixWorld);
+      toCamera.subVectors(camera.position, world);
+      // Facing away: on the far side of the body
+      if (label.normal && label.normal.clone().transformDirection(frame.matrixWorld).dot(toCamera) < 0) return;
+
+      const ndc = world.clone().project(camera);
+      if (Math.abs(ndc.x) > 1 || Math.abs(ndc.y) > 1 || Math.abs(ndc.z) > 1) return;
+      if (occlusion?.isOccluded(world)) return;
+
+      const distance = toCamera.length();
+      candidates.push({
+        label,
+        x: (ndc.x * 0.5 + 0.5) * width,
+        y: (0.5 - ndc.y * 0.5) * height,
+        distance,
+        text: distance < DETAIL_DISTANCE ? label.detail : label.code
+      });
+    });
+
+    // Nearest first, after the selected point
+    candidates.sort((a, b) => {
+      const selected = Number(b.label.point.id === this.selectedId) - Number(a.label.point.id === this.selectedId);
+      return selected !== 0 ? selected : a.distance - b.distance;
+    });
+    this.measure(candidates.slice(0, MAX_LABELS * 2));
+
+    const placed: Rect[] = [];
+    const shown = new Set<Label>();
+    for (const candidate of candidates) {
+      if (placed.length >= MAX_LABELS) break;
+      const size = this.sizes.get(candidate.text);
+      if (!size) continue;
+
+      const rect = placements(candidate.x, candidate.y, size.width, size.height)
+        .find(option => inside(option, width, height) && !placed.some(other => overlaps(option, other)));
+      if (!rect) continue;
+
+      placed.push(rect);
+      shown.add(candidate.label);
+      const element = candidate.label.element;
+      if (element.textContent !== candidate.text) element.textContent = candidate.text;
+      element.style.transform = `translate(${Math.round(rect.x)}px, ${Math.round(rect.y)}px)`;
+      element.classList.toggle('selected', candidate.label.point.id === this.selectedId);
+      element.hidden = false;
+    }
+    this.labels.forEach(label => {
+      if (!shown.has(label)) label.element.hidden = true;
+    });
+  }
+
+  // Sizes of texts not seen before, written first and read together so the page is
+  // laid out once
+  private measure(candidates: { label: Label; text: string }[]): void {
+    const unmeasured = candidates.filter(candidate => !this.sizes.has(candidate.text));
+    if (unmeasured.length === 0) return;
+
+    unmeasured.forEach(({ label, text }) => {
+      label.element.textContent = text;
+      label.element.hidden = false;
+    });
+    unmeasured.forEach(({ label, text }) => {
+      this.sizes.set(text, { width: label.element.offsetWidth, height: label.element.offsetHeight });
+    });
+  }
+}
+
+// Where a label may go, in order of preference: right of the marker, left, above, below
+function placements(x: number, y: number, width: number, height: number): Rect[] {
+  return [
+    { x: x + LABEL_GAP, y: y - height / 2, width, height },
+    { x: x - LABEL_GAP - width, y: y - height / 2, width, height },
+    { x: x - width / 2, y: y - LABEL_GAP - height, width, height },
+    { x: x - width / 2, y: y + LABEL_GAP, width, height }
+  ];
+}
+
+function inside(rect: Rect, width: number, height: number): boolean {
+  return rect.x >= 0 && rect.y >= 0 && rect.x + rect.width <= width && rect.y + rect.height <= height;
+}
+
+function overlaps(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
@@ -0,0 +1,91 @@
+import { AcupointDataset, ContentSectionKey } from '../data/AcupointDataset';
+import { Localization } from '../i18n/Localization';
+import { Prescription } from '../state/Prescription';
+
+// Sections printed for each point
+const HANDOUT_SECTIONS: ContentSectionKey[] = ['localizacao', 'puncao'];
+
+const HANDOUT_STYLE = `
+  body { font-family: sans-serif; margin: 2em; color: #000; }
+  h1 { font-size: 1.6em; margin-bottom: 0.2em; }
+  .date { color: #555; margin-top: 0; }
+  .point { page-break-inside: avoid; border-top: 1px solid #ccc; padding-top: 0.8em; margin-top: 0.8em; }
+  .point h2 { font-size: 1.2em; margin: 0 0 0.4em; }
+  .point img { max-width: 45%; max-height: 220px; margin: 0 0.5em 0.5em 0; }
+  .notes { font-style: italic; }
+  h3 { font-size: 1em; margin: 0.6em 0 0.2em; }
+  ul { margin: 0; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Printable document of a prescription: for each point in order, its images and
+// how to locate and needle it, in the current language and code system. Sections
+// without a translation keep the Portuguese of the dataset, marked with its lang.
+export function renderHandout(prescription: Prescription, dataset: AcupointDataset, i18n: Localization): string {
+  const title = escapeHtml(prescription.name || i18n.t('tools.prescription'));
+  const date = new Date(prescription.updated || Date.now()).toLocaleDateString();
+
+  const points = prescription.items.map((item, i) => {
+    const point = dataset.get(item.pointId);
+    if (!point) return '';
+    const code = i18n.pointCode(point);
+
+    const images = point.images
+      .map(src => `<img src="${escapeHtml(new URL(src, window.location.href).href)}" alt="${escapeHtml(code)}">`)
+      .join('');
+    const sections = HANDOUT_SECTIONS.map(key => {
+      const content = i18n.pointSection(point, key);
+      if (!content) return '';
+      const items = content.value.map(text => `<li>${escapeHtml(text)}</li>`).join('');
+      return `<h3>${escapeHtml(i18n.sectionTitle(key))}</h3><ul lang="${content.locale}">${items}</ul>`;
+    }).join('');
+    const side = point.symmetry === 'midline' ? '' : ` – ${escapeHtml(i18n.t(`laterality.${item.laterality}`))}`;
+    const notes = item.notes.trim() ? `<p class="notes">${escapeHtml(item.notes)}</p>` : '';
+
+    return `
+      <section class="point">
+        <h2>${i + 1}. ${escapeHtml(code)} ${escapeHtml(i18n.pointPinyin(point))} (${escapeHtml(i18n.pointName(point))})${side}</h2>
+        ${notes}
+        <div>${images}</div>
+        ${sections}
+      </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${i18n.locale}">
+<head>
+  <meta charset="UTF-8">
+  <title>${title}</title>
+  <style>${HANDOUT_STYLE}</style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p class="date">${escapeHtml(date)}</p>
+  ${points}
+</body>
+</html>`;
+}
+
+// Open the handout in a new window and print it once its images have loaded.
+// Returns false when the browser blocked the window.
+export function printHandout(prescription: Prescription, dataset: AcupointDataset, i18n: Localization): boolean {
+  const handout = window.open('', '_blank');
+  if (!handout) return false;
+
+  handout.document.open();
+  handout.document.write(renderHandout(prescription, dataset, i18n));
+  handout.document.close();
+  if (handout.document.readyState === 'complete') {
+    handout.print();
+  } else {
+    handout.addEventListener('load', () => handout.print());
+  }
+  return true;
+}
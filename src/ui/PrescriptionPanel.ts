@@ -0,0 +1,199 @@
+import $ from 'jquery';
+import { Acupoint, Laterality, LATERALITIES } from '../data/AcupointDataset';
+import { Localization } from '../i18n/Localization';
+import { PrescriptionDraft } from '../state/Prescription';
+import { PrescriptionStore } from '../state/PrescriptionStore';
+
+export interface PrescriptionPanelOptions {
+  draft: PrescriptionDraft;
+  store: PrescriptionStore;
+  getPoint: (pointId: string) => Acupoint | undefined;
+  i18n: Localization;
+  getSelectedPointId: () => string | null;
+  onSelect: (pointId: string) => void;
+  onPrint: () => void;
+  onClose: () => void;
+}
+
+// Sidebar panel of the prescription builder: the ordered points with laterality
+// and notes, plus the prescriptions saved in this browser
+export class PrescriptionPanel {
+  readonly element: HTMLElement;
+  private $panel: JQuery;
+  private $items: JQuery;
+  private $saved: JQuery;
+  private $status: JQuery;
+
+  constructor(private options: PrescriptionPanelOptions) {
+    this.$panel = $(`
+      <div id="prescription-panel" class="acuponto">
+        <h3 data-i18n="tools.prescription"></h3>
+        <input name="name" type="text" class="form-control form-control-sm mb-2" data-i18n-placeholder="prescription.namePlaceholder" data-i18n-aria-label="prescription.name">
+        <div class="btn-toolbar gap-1 mb-2">
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="add" data-i18n="prescription.addSelected"></button>
+          <button type="button" class="btn btn-primary btn-sm" data-action="save" data-i18n="prescription.save"></button>
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="print" data-i18n="prescription.print"></button>
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="new" data-i18n="prescription.new"></button>
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="close" data-i18n="common.close"></button>
+        </div>
+        <p class="prescription-status text-muted" aria-live="polite"></p>
+        <ol class="prescription-items list-unstyled"></ol>
+        <div class="d-flex gap-1 mb-2">
+          <select name="saved" class="form-select form-select-sm" data-i18n-aria-label="prescription.saved"></select>
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="load" data-i18n="prescription.open"></button>
+          <button type="button" class="btn btn-outline-danger btn-sm" data-action="delete" data-i18n="common.delete"></button>
+        </div>
+      </div>
+    `);
+    this.element = this.$panel.get(0) as HTMLElement;
+    this.$items = this.$panel.find('.prescription-items');
+    this.$saved = this.$panel.find('select[name="saved"]');
+    this.$status = this.$panel.find('.prescription-status');
+
+    const draft = options.draft;
+    this.$panel.find('input[name="name"]').on('input', (e) => draft.setName((e.target as HTMLInputElement).value));
+    this.$panel.find('[data-action="add"]').on('click', () => this.addSelected());
+    this.$panel.find('[data-action="save"]').on('click', () => this.save());
+    this.$panel.find('[data-action="print"]').on('click', () => options.onPrint());
+    this.$panel.find('[data-action="new"]').on('click', () => {
+      if (!draft.dirty || window.confirm(options.i18n.t('prescription.discard'))) draft.load(null);
+    });
+    this.$panel.find('[data-action="close"]').on('click', () => options.onClose());
+    this.$panel.find('[data-action="load"]').on('click', () => this.open(String(this.$saved.val() || '')));
+    this.$panel.find('[data-action="delete"]').on('click', () => this.remove(String(this.$saved.val() || '')));
+
+    this.updateLabels();
+  }
+
+  // Texts in the current language, after it changed
+  updateLabels(): void {
+    this.options.i18n.translate(this.element);
+    this.render();
+    this.renderSaved();
+  }
+
+  // Redraw the list, e.g. after the draft changed
+  render(): void {
+    const draft = this.options.draft;
+    const i18n = this.options.i18n;
+    const $name = this.$panel.find('input[name="name"]');
+    if ($name.val() !== draft.current.name) {
+      $name.val(draft.current.name);
+    }
+
+    this.$items.empty();
+    if (draft.items.length === 0) {
+      this.$items.append($('<li class="text-muted"></li>').text(i18n.t('prescription.empty')));
+    }
+
+    draft.items.forEach((item, i) => {
+      const point = this.options.getPoint(item.pointId);
+      const $item = $('<li class="prescription-item mb-2"></li>');
+
+      const label = point ? `${i18n.pointCode(point)} ${i18n.pointPinyin(point)}` : item.pointId;
+      const number = i + 1;
+      const $title = $('<a href="#"></a>').text(`${number}. ${label}`);
+      $title.on('click', (e) => {
+        e.preventDefault();
+        this.options.onSelect(item.pointId);
+      });
+
+      const $laterality = $('<select class="form-select form-select-sm"></select>').attr('aria-label', i18n.t('prescription.side', { number }));
+      LATERALITIES.forEach(laterality => {
+        $laterality.append($('<option></option>').val(laterality).text(i18n.t(`laterality.${laterality}`)));
+      });
+      $laterality.val(item.laterality);
+      // A midline point has no sides to choose from
+      $laterality.prop('hidden', point?.symmetry === 'midline');
+      $laterality.on('change', () => draft.setLaterality(i, $laterality.val() as Laterality));
+
+      const $up = $('<button type="button" class="btn btn-outline-secondary btn-sm">↑</button>')
+        .attr('title', i18n.t('prescription.moveUp'))
+        .attr('aria-label', i18n.t('prescription.moveUpLabel', { number }))
+        .prop('disabled', i === 0)
+        .on('click', () => draft.move(i, -1));
+      const $down = $('<button type="button" class="btn btn-outline-secondary btn-sm">↓</button>')
+        .attr('title', i18n.t('prescription.moveDown'))
+        .attr('aria-label', i18n.t('prescription.moveDownLabel', { number }))
+        .prop('disabled', i === draft.items.length - 1)
+        .on('click', () => draft.move(i, 1));
+      const $remove = $('<button type="button" class="btn btn-outline-danger btn-sm">×</button>')
+        .attr('title', i18n.t('prescription.removeItem'))
+        .attr('aria-label', i18n.t('prescription.removeItemLabel', { number }))
+        .on('click', () => draft.remove(i));
+
+      // Notes are saved on change so typing does not redraw the list under the cursor
+      const $notes = $('<textarea rows="1" class="form-control form-control-sm mt-1"></textarea>')
+        .attr('placeholder', i18n.t('prescription.notes'))
+        .attr('aria-label', i18n.t('prescription.notesLabel', { number }))
+        .val(item.notes)
+        .on('change', () => draft.setNotes(i, String($notes.val())));
+
+      $item.append($('<div class="d-flex align-items-center gap-1"></div>').append($title, $laterality, $up, $down, $remove));
+      $item.append($notes);
+      this.$items.append($item);
+    });
+
+    this.$panel.find('[data-action="print"]').prop('disabled', draft.items.length === 0);
+    this.updateAddButton();
+  }
+
+  // The add button follows the selection
+  updateAddButton(): void {
+    const pointId = this.options.getSelectedPointId();
+    this.$panel.find('[data-action="add"]').prop('disabled', !pointId || this.options.draft.has(pointId));
+  }
+
+  showStatus(message: string, isError: boolean = false): void {
+    this.$status.text(message).toggleClass('text-danger', isError).toggleClass('text-muted', !isError);
+  }
+
+  private addSelected(): void {
+    const pointId = this.options.getSelectedPointId();
+    if (pointId) this.options.draft.add(pointId);
+  }
+
+  private save(): void {
+    const draft = this.options.draft;
+    if (draft.current.name.trim() === '') {
+      this.showStatus(this.options.i18n.t('prescription.nameRequired'), true);
+      this.$panel.find('input[name="name"]').trigger('focus');
+      return;
+    }
+
+    draft.markSaved(this.options.store.save(draft.current));
+    this.renderSaved();
+    this.showStatus(this.options.i18n.t('prescription.savedStatus', { name: draft.current.name }));
+  }
+
+  private open(id: string): void {
+    const prescription = id ? this.options.store.get(id) : undefined;
+    if (!prescription) return;
+    if (this.options.draft.dirty && !window.confirm(this.options.i18n.t('prescription.discard'))) return;
+
+    this.options.draft.load(prescription);
+    this.showStatus(this.options.i18n.t('prescription.opened', { name: prescription.name }));
+  }
+
+  private remove(id: string): void {
+    const prescription = id ? this.options.store.get(id) : undefined;
+    if (!prescription || !window.confirm(this.options.i18n.t('prescription.deleteConfirm', { name: prescription.name }))) return;
+
+    this.options.store.remove(id);
+    this.renderSaved();
+    this.showStatus(this.options.i18n.t('prescription.deleted', { name: prescription.name }));
+  }
+
+  private renderSaved(): void {
+    const saved = this.options.store.list();
+    this.$saved.empty();
+    if (saved.length === 0) {
+      this.$saved.append($('<option value=""></option>').text(this.options.i18n.t('prescription.noneSaved')));
+    }
+    saved.forEach(prescription => {
+      const date = new Date(prescription.updated).toLocaleDateString();
+      this.$saved.append($('<option></option>').val(prescription.id).text(`${prescription.name} (${date})`));
+    });
+    this.$panel.find('[data-action="load"], [data-action="delete"]').prop('disabled', saved.length === 0);
+  }
+}
@@ -0,0 +1,184 @@
+import $ from 'jquery';
+import { ContentSectionKey } from '../data/AcupointDataset';
+import { Localization } from '../i18n/Localization';
+import { PointSearchIndex, SearchMatch, SearchResult } from '../search/PointSearchIndex';
+
+export interface SearchBoxOptions {
+  i18n: Localization;
+  onSelect: (pointId: string) => void;
+  // Called after every redraw of the results; active is false while the query is empty
+  onResultsChange: (active: boolean) => void;
+}
+
+const SECTION_FIELDS: string[] = ['indicacoes', 'funcoes'];
+// Characters kept around a match when a content line is shortened
+const SNIPPET_CONTEXT = 40;
+
+// Search input of the sidebar with ranked, highlighted results
+export class SearchBox {
+  readonly element: HTMLElement;
+  private $input: JQuery;
+  private $results: JQuery;
+  private index: PointSearchIndex | null = null;
+  private results: SearchResult[] = [];
+  private activeIndex = -1;
+
+  constructor(private options: SearchBoxOptions) {
+    const $box = $(`
+      <div id="point-search" class="mb-3">
+        <input type="search" class="form-control form-control-sm" autocomplete="off"
+          role="combobox" aria-autocomplete="list" aria-expanded="false" aria-controls="point-search-results">
+        <ul id="point-search-results" class="search-results list-unstyled" role="listbox"></ul>
+      </div>
+    `);
+    this.element = $box.get(0) as HTMLElement;
+    this.$input = $box.find('input');
+    this.$results = $box.find('.search-results');
+
+    this.$input.on('input', () => this.update());
+    this.$input.on('keydown', (e) => this.onKeyDown(e.originalEvent as KeyboardEvent));
+    this.updateLabels();
+  }
+
+  get query(): string {
+    return String(this.$input.val() || '');
+  }
+
+  // Points found by the current query, best first
+  get resultIds(): string[] {
+    return this.results.map(result => result.point.id);
+  }
+
+  setIndex(index: PointSearchIndex): void {
+    this.index = index;
+    this.update();
+  }
+
+  clear(): void {
+    this.$input.val('');
+    this.update();
+  }
+
+  // Texts in the current language, after it changed
+  updateLabels(): void {
+    const i18n = this.options.i18n;
+    this.$input.attr('placeholder', i18n.t('search.placeholder')).attr('aria-label', i18n.t('search.label'));
+    this.$results.attr('aria-label', i18n.t('search.results'));
+    this.render(this.query.trim() !== '');
+  }
+
+  private update(): void {
+    const query = this.query.trim();
+    this.results = query !== '' && this.index ? this.index.search(query) : [];
+    this.activeIndex = this.results.length > 0 ? 0 : -1;
+    this.render(query !== '');
+    this.options.onResultsChange(query !== '');
+  }
+
+  private render(active: boolean): void {
+    this.$results.empty();
+    this.$input.attr('aria-expanded', String(active)).removeAttr('aria-activedescendant');
+    if (!active) return;
+
+    const i18n = this.options.i18n;
+    if (this.results.length === 0) {
+      this.$results.append($('<li class="text-muted" role="option" aria-disabled="true"></li>').text(i18n.t('search.empty')));
+      return;
+    }
+
+    this.results.forEach((result, i) => {
+      const point = result.point;
+      const $link = $('<a href="#"></a>').attr('data-result-id', point.id);
+      const shown = [i18n.pointCode(point), i18n.pointPinyin(point), i18n.pointName(point)];
+
+      $link.append($('<strong></strong>').append(this.highlight(shown[0], this.matchOf(result, shown[0]))));
+      $link.append(' ', this.highlight(shown[1], this.matchOf(result, shown[1])));
+      $link.append(' ', $('<span class="text-muted"></span>').append(this.highlight(shown[2], this.matchOf(result, shown[2]))));
+
+      // A match in text that is not shown above: the content, or a name or code in another language or system
+      const snippet = result.matches.find(match => !shown.includes(match.text));
+      if (snippet) {
+        const title = SECTION_FIELDS.includes(snippet.field)
+          ? i18n.sectionTitle(snippet.field as ContentSectionKey)
+          : i18n.t(snippet.field === 'code' ? 'search.code' : 'search.name');
+        $link.append($('<small class="search-snippet"></small>').text(`${title}: `).append(this.snippet(snippet)));
+      }
+
+      $link.on('click', (e) => {
+        e.preventDefault();
+        this.options.onSelect(point.id);
+      });
+
+      const $item = $('<li role="option"></li>').attr('id', `point-search-result-${i}`).append($link);
+      this.$results.append($item);
+    });
+    this.setActive(this.activeIndex);
+  }
+
+  // The keyboard-highlighted result; the input keeps focus and points at it for screen readers
+  private setActive(index: number): void {
+    this.activeIndex = index;
+    this.$results.children('li[role="option"]').each((i, item) => {
+      $(item).toggleClass('focused', i === index).attr('aria-selected', String(i === index));
+    });
+    if (index >= 0) {
+      this.$input.attr('aria-activedescendant', `point-search-result-${index}`);
+    }
+  }
+
+  private onKeyDown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp':
+        if (this.results.length === 0) return;
+        event.preventDefault();
+        this.setActive((this.activeIndex + (event.key === 'ArrowDown' ? 1 : -1) + this.results.length) % this.results.length);
+        this.$results.children('li').get(this.activeIndex)?.scrollIntoView({ block: 'nearest' });
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (this.activeIndex >= 0) {
+          this.options.onSelect(this.results[this.activeIndex].point.id);
+        }
+        break;
+      case 'Escape':
+        this.clear();
+        break;
+    }
+  }
+
+  private matchOf(result: SearchResult, text: string): SearchMatch | undefined {
+    return result.matches.find(match => match.text === text);
+  }
+
+  // Text with the matched ranges wrapped in <mark>, built from text nodes only
+  private highlight(text: string, match: SearchMatch | undefined, offset: number = 0): JQuery {
+    const $span = $('<span></span>');
+    let position = 0;
+
+    (match ? match.ranges : []).forEach(([start, end]) => {
+      const from = Math.max(start - offset, position);
+      const to = Math.min(end - offset, text.length);
+      if (to <= from) return;
+
+      $span.append(document.createTextNode(text.substring(position, from)));
+      $span.append($('<mark></mark>').text(text.substring(from, to)));
+      position = to;
+    });
+    $span.append(document.createTextNode(text.substring(position)));
+
+    return $span;
+  }
+
+  // A long content line cut down to the text around its first match
+  private snippet(match: SearchMatch): JQuery {
+    const first = match.ranges[0] ? match.ranges[0][0] : 0;
+    const start = Math.max(0, first - SNIPPET_CONTEXT);
+    const end = Math.min(match.text.length, first + SNIPPET_CONTEXT * 2);
+
+    const $snippet = this.highlight(match.text.substring(start, end), match, start);
+    if (start > 0) $snippet.prepend('…');
+    if (end < match.text.length) $snippet.append('…');
+    return $snippet;
+  }
+}
@@ -0,0 +1,256 @@
+import $ from 'jquery';
+import { Acupoint, AcupointDataset } from '../data/AcupointDataset';
+import { Localization } from '../i18n/Localization';
+import { StudyStore } from '../state/StudyStore';
+import { CardState, ReviewGrade } from '../study/SpacedRepetition';
+import { gradeDistance, QUIZ_TYPES, QuizQuestion, QuizType, StudySession } from '../study/StudySession';
+
+export interface StudyPanelOptions {
+  dataset: AcupointDataset;
+  store: StudyStore;
+  i18n: Localization;
+  // Whether the point has a marker on the model
+  isPlaced: (pointId: string) => boolean;
+  // Set the viewer up for a question, or back to normal with null
+  onQuestion: (question: QuizQuestion | null) => void;
+  // Show the answer on the model
+  onReveal: (question: QuizQuestion) => void;
+  onClose: () => void;
+}
+
+// Distance of a click from the point over the skin; cun is null without a calibration
+export interface LocateAnswer {
+  cun: number | null;
+  centimetres: number;
+}
+
+// Sidebar panel of the study mode: deck and question choice, the current question,
+// and the progress of each meridian in the deck
+export class StudyPanel {
+  readonly element: HTMLElement;
+  private $panel: JQuery;
+  private $question: JQuery;
+  private $choices: JQuery;
+  private $feedback: JQuery;
+  private $progress: JQuery;
+  private session: StudySession;
+  private question: QuizQuestion | null = null;
+  private chosenId: string | null = null;
+  private answered = false;
+
+  constructor(private options: StudyPanelOptions) {
+    this.$panel = $(`
+      <div id="study-panel" class="acuponto">
+        <h3 data-i18n="tools.study"></h3>
+        <fieldset class="mb-2">
+          <legend class="fs-6" data-i18n="study.meridians"></legend>
+          <div class="study-meridians"></div>
+        </fieldset>
+        <fieldset class="mb-2">
+          <legend class="fs-6" data-i18n="study.questions"></legend>
+          <div class="study-types"></div>
+        </fieldset>
+        <div class="btn-toolbar gap-1 mb-2">
+          <button type="button" class="btn btn-primary btn-sm" data-action="next"></button>
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="reveal" data-i18n="study.reveal" hidden></button>
+          <button type="button" class="btn btn-outline-danger btn-sm" data-action="reset" data-i18n="study.reset"></button>
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="close" data-i18n="common.close"></button>
+        </div>
+        <div class="study-question mb-2"></div>
+        <div class="study-choices d-grid gap-1 mb-2"></div>
+        <p class="study-feedback" aria-live="polite"></p>
+        <table class="table table-sm study-progress">
+          <thead>
+            <tr>
+              <th scope="col" data-i18n="study.meridian"></th>
+              <th scope="col" data-i18n="study.new"></th>
+              <th scope="col" data-i18n="study.learning"></th>
+              <th scope="col" data-i18n="study.due"></th>
+              <th scope="col" data-i18n="study.correct"></th>
+            </tr>
+          </thead>
+          <tbody></tbody>
+        </table>
+      </div>
+    `);
+    this.element = this.$panel.get(0) as HTMLElement;
+    this.$question = this.$panel.find('.study-question');
+    this.$choices = this.$panel.find('.study-choices');
+    this.$feedback = this.$panel.find('.study-feedback');
+    this.$progress = this.$panel.find('.study-progress tbody');
+
+    // Every meridian and question type to begin with
+    const $meridians = this.$panel.find('.study-meridians');
+    options.dataset.meridians.forEach(meridian => {
+      if (options.dataset.byMeridian(meridian.id).length === 0) return;
+      $meridians.append(checkbox('meridian', meridian.id));
+    });
+    const $types = this.$panel.find('.study-types');
+    QUIZ_TYPES.forEach(type => $types.append(checkbox('type', type)));
+
+    this.session = this.createSession();
+    this.$panel.find('fieldset').on('change', () => {
+      this.session = this.createSession();
+      this.renderProgress();
+    });
+    this.$panel.find('[data-action="next"]').on('click', () => this.next());
+    this.$panel.find('[data-action="reveal"]').on('click', () => this.grade('again'));
+    this.$panel.find('[data-action="reset"]').on('click', () => this.reset());
+    this.$panel.find('[data-action="close"]').on('click', () => options.onClose());
+
+    this.render();
+  }
+
+  // Redraw the labels, question and progress, e.g. after the language changed
+  render(): void {
+    const i18n = this.options.i18n;
+    i18n.translate(this.element);
+    this.$panel.find('input[name="meridian"]').each((_, input) => {
+      const meridian = this.options.dataset.getMeridian((input as HTMLInputElement).value);
+      if (meridian) $(input).parent().find('span').text(i18n.meridianName(meridian));
+    });
+    this.$panel.find('input[name="type"]').each((_, input) => {
+      $(input).parent().find('span').text(i18n.t(`study.type.${(input as HTMLInputElement).value as QuizType}`));
+    });
+    this.renderQuestion();
+    this.renderProgress();
+  }
+
+  // A click on the body while a locate question is open
+  answerLocation(answer: LocateAnswer): void {
+    const question = this.question;
+    if (!question || question.type !== 'locate' || this.answered) return;
+
+    const i18n = this.options.i18n;
+    const code = i18n.pointCode(question.point);
+    const centimetres = answer.centimetres.toFixed(1);
+    this.grade(gradeDistance(answer.cun, answer.centimetres), answer.cun !== null
+      ? i18n.t('study.distance', { cun: answer.cun.toFixed(1), centimetres, code })
+      : i18n.t('study.distanceUncalibrated', { centimetres, code }));
+  }
+
+  get awaitingLocation(): boolean {
+    return this.question?.type === 'locate' && !this.answered;
+  }
+
+  private createSession(): StudySession {
+    const checked = (name: string) => this.$panel.find(`input[name="${name}"]:checked`).map((_, input) => (input as HTMLInputElement).value).get();
+    return new StudySession(
+      this.options.dataset,
+      this.options.store,
+      { meridians: checked('meridian'), types: checked('type') as QuizType[] },
+      this.options.isPlaced
+    );
+  }
+
+  private next(): void {
+    this.question = this.session.next();
+    this.chosenId = null;
+    this.answered = false;
+    this.$feedback.text('');
+
+    if (!this.question) {
+      const due = this.session.nextDue();
+      this.$feedback.text(due
+        ? this.options.i18n.t('study.done', { date: due.toLocaleString() })
+        : this.options.i18n.t('study.empty'));
+    }
+    this.options.onQuestion(this.question);
+    this.renderQuestion();
+  }
+
+  private choose(point: Acupoint): void {
+    const question = this.question;
+    if (!question || this.answered) return;
+
+    this.chosenId = point.id;
+    const answer = this.options.i18n.pointLabel(question.point);
+    this.grade(point.id === question.point.id ? 'good' : 'again', point.id === question.point.id ? '' : this.options.i18n.t('study.answer', { answer }));
+  }
+
+  // Record the answer and show it, in the panel and on the model
+  private grade(grade: ReviewGrade, detail: string = ''): void {
+    const question = this.question;
+    if (!question || this.answered) return;
+
+    const state = this.session.answer(question, grade);
+    this.answered = true;
+    const i18n = this.options.i18n;
+    this.$feedback.text([i18n.t(`study.grade.${grade}`), detail, nextReview(state, i18n)].filter(part => part !== '').join(' '));
+    this.options.onReveal(question);
+    this.renderQuestion();
+    this.renderProgress();
+  }
+
+  private reset(): void {
+    if (!window.confirm(this.options.i18n.t('study.resetConfirm'))) return;
+
+    this.options.store.reset(this.session.cardIds());
+    this.session = this.createSession();
+    this.question = null;
+    this.$feedback.text('');
+    this.options.onQuestion(null);
+    this.renderQuestion();
+    this.renderProgress();
+  }
+
+  private renderQuestion(): void {
+    const i18n = this.options.i18n;
+    const question = this.question;
+    this.$question.empty();
+    this.$choices.empty();
+    this.$panel.find('[data-action="next"]').text(i18n.t(question ? 'study.next' : 'study.start'));
+    this.$panel.find('[data-action="reveal"]').prop('hidden', !this.awaitingLocation);
+    if (!question) return;
+
+    const $prompt = $('<p class="fw-bold mb-1"></p>');
+    if (question.type === 'locate') {
+      $prompt.text(i18n.t('study.locate', { code: i18n.pointCode(question.point), pinyin: i18n.pointPinyin(question.point) }));
+    } else if (question.type === 'identify') {
+      $prompt.text(i18n.t('study.identify'));
+    } else {
+      // Indications are only written in Portuguese; they go in where the message has {indication}
+      const [before, after = ''] = i18n.t('study.indication').split('{indication}');
+      $prompt.append(before, $('<q lang="pt"></q>').text(question.indication || ''), after);
+    }
+    this.$question.append($prompt);
+
+    question.choices.forEach(point => {
+      const $choice = $('<button type="button" class="btn btn-sm text-start"></button>')
+        .text(i18n.pointLabel(point))
+        .prop('disabled', this.answered)
+        .on('click', () => this.choose(point));
+      let style = 'btn-outline-secondary';
+      if (this.answered && point.id === question.point.id) {
+        style = 'btn-success';
+      } else if (this.answered && point.id === this.chosenId) {
+        style = 'btn-danger';
+      }
+      this.$choices.append($choice.addClass(style));
+    });
+  }
+
+  private renderProgress(): void {
+    this.$progress.empty();
+    this.session.progress().forEach(deck => {
+      const meridian = this.options.dataset.getMeridian(deck.meridianId);
+      const accuracy = deck.reviews > 0 ? `${Math.round((deck.correct / deck.reviews) * 100)}%` : '–';
+      const $row = $('<tr></tr>');
+      $row.append($('<th scope="row"></th>').text(meridian ? this.options.i18n.meridianName(meridian) : deck.meridianId));
+      [deck.unseen, deck.learning, deck.due, accuracy].forEach(value => $row.append($('<td></td>').text(String(value))));
+      this.$progress.append($row);
+    });
+  }
+}
+
+// Labelled by render
+function checkbox(name: string, value: string): JQuery {
+  const $label = $('<label class="form-check-label"></label>');
+  $label.append($('<input type="checkbox" class="form-check-input" checked>').attr('name', name).val(value), ' ', $('<span></span>'));
+  return $('<div class="form-check form-check-inline"></div>').append($label);
+}
+
+function nextReview(state: CardState, i18n: Localization): string {
+  if (state.interval === 0) return i18n.t('study.soon');
+  return state.interval === 1 ? i18n.t('study.tomorrow') : i18n.t('study.inDays', { days: state.interval });
+}
@@ -0,0 +1,38 @@
+import $ from 'jquery';
+import { Localization } from '../i18n/Localization';
+import { ViewPreset } from '../scene/ViewPresets';
+
+// Label of a preset in the current language; presets of other models keep their own label
+export function viewPresetLabel(preset: ViewPreset, i18n: Localization): string {
+  const key = `view.${preset.id}`;
+  return i18n.has(key) ? i18n.t(key) : preset.label;
+}
+
+// Buttons over the viewer that move the camera to a standard view
+export class ViewToolbar {
+  readonly element: HTMLElement;
+
+  constructor(private presets: ViewPreset[], private i18n: Localization, onSelect: (presetId: string) => void) {
+    const $toolbar = $('<div id="view-toolbar" class="btn-group-vertical" role="toolbar"></div>');
+
+    presets.forEach(preset => {
+      const $button = $('<button type="button" class="btn btn-light btn-sm"></button>')
+        .attr('data-preset-id', preset.id)
+        .attr('aria-keyshortcuts', preset.key);
+      $button.on('click', () => onSelect(preset.id));
+      $toolbar.append($button);
+    });
+
+    this.element = $toolbar.get(0) as HTMLElement;
+    this.updateLabels();
+  }
+
+  // Texts in the current language, after it changed
+  updateLabels(): void {
+    const $toolbar = $(this.element).attr('aria-label', this.i18n.t('view.toolbar'));
+    this.presets.forEach(preset => {
+      const label = viewPresetLabel(preset, this.i18n);
+      $toolbar.find(`button[data-preset-id="${preset.id}"]`).text(label).attr('title', `${label} (${preset.key})`);
+    });
+  }
+}
@@ -0,0 +1,118 @@
+import $ from 'jquery';
+import { Localization } from '../i18n/Localization';
+import { CLIP_AXES, DEFAULT_XRAY_SETTINGS, XRaySettings } from '../scene/XRayView';
+
+export interface XRayPanelOptions {
+  i18n: Localization;
+  onChange: (settings: XRaySettings) => void;
+  // Whether points hidden behind the body are drawn through it
+  onOccludedChange: (visible: boolean) => void;
+  onClose: () => void;
+}
+
+// Sidebar panel of the x-ray view: skin opacity, points seen through the body, and
+// a clipping plane along each anatomical axis
+export class XRayPanel {
+  readonly element: HTMLElement;
+  private $panel: JQuery;
+
+  constructor(private options: XRayPanelOptions) {
+    this.$panel = $(`
+      <div id="xray-panel" class="acuponto">
+        <h3 data-i18n="tools.xray"></h3>
+        <label class="form-label mb-0" for="xray-opacity" data-i18n="xray.opacity"></label>
+        <input id="xray-opacity" name="opacity" type="range" min="0" max="100" step="5" class="form-range">
+        <div class="form-check mb-2">
+          <input id="xray-occluded" name="occluded" type="checkbox" class="form-check-input" checked>
+          <label class="form-check-label" for="xray-occluded" data-i18n="xray.occluded"></label>
+        </div>
+        <div class="xray-planes"></div>
+        <div class="btn-toolbar gap-1 mb-2">
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="reset" data-i18n="xray.reset"></button>
+          <button type="button" class="btn btn-outline-secondary btn-sm" data-action="close" data-i18n="common.close"></button>
+        </div>
+      </div>
+    `);
+    this.element = this.$panel.get(0) as HTMLElement;
+
+    // Each cut with the halves it can keep, the +axis half first; labelled by updateLabels
+    const $planes = this.$panel.find('.xray-planes');
+    CLIP_AXES.forEach(axis => {
+      const $plane = $('<fieldset class="mb-2"></fieldset>').attr('data-axis', axis);
+      const $enabled = $('<input type="checkbox" name="enabled" class="form-check-input">').attr('id', `xray-${axis}`);
+      $plane.append($('<div class="form-check"></div>').append(
+        $enabled,
+        $('<label class="form-check-label"></label>').attr('for', `xray-${axis}`).attr('data-i18n', `xray.${axis}`)
+      ));
+      $plane.append('<input name="position" type="range" min="0" max="100" step="1" class="form-range">');
+      const $keep = $('<select name="keep" class="form-select form-select-sm"></select>');
+      $keep.append(
+        $('<option value="1"></option>').attr('data-i18n', `xray.${axis}.plus`),
+        $('<option value="-1"></option>').attr('data-i18n', `xray.${axis}.minus`)
+      );
+      $planes.append($plane.append($keep));
+    });
+    this.setForm(DEFAULT_XRAY_SETTINGS);
+    this.updateLabels();
+
+    // Sliders update the view while they move
+    this.$panel.find('input[type="range"]').on('input', () => options.onChange(this.readForm()));
+    this.$panel.find('.xray-planes').on('change', () => {
+      this.updateEnabled();
+      options.onChange(this.readForm());
+    });
+    this.$panel.find('input[name="occluded"]').on('change', (e) => options.onOccludedChange((e.target as HTMLInputElement).checked));
+    this.$panel.find('[data-action="reset"]').on('click', () => {
+      this.setForm(DEFAULT_XRAY_SETTINGS);
+      this.$panel.find('input[name="occluded"]').prop('checked', true);
+      options.onChange(this.readForm());
+      options.onOccludedChange(true);
+    });
+    this.$panel.find('[data-action="close"]').on('click', () => options.onClose());
+  }
+
+  // Texts in the current language, after it changed
+  updateLabels(): void {
+    const i18n = this.options.i18n;
+    i18n.translate(this.element);
+    CLIP_AXES.forEach(axis => {
+      const name = i18n.t(`xray.${axis}`);
+      const $plane = this.$panel.find(`fieldset[data-axis="${axis}"]`);
+      $plane.find('input[name="position"]').attr('aria-label', i18n.t('xray.position', { name }));
+      $plane.find('select[name="keep"]').attr('aria-label', i18n.t('xray.keep', { name }));
+    });
+  }
+
+  private setForm(settings: XRaySettings): void {
+    this.$panel.find('input[name="opacity"]').val(Math.round(settings.opacity * 100));
+    CLIP_AXES.forEach(axis => {
+      const plane = settings.planes[axis];
+      const $plane = this.$panel.find(`fieldset[data-axis="${axis}"]`);
+      $plane.find('input[name="enabled"]').prop('checked', plane.enabled);
+      $plane.find('input[name="position"]').val(Math.round(plane.position * 100));
+      $plane.find('select[name="keep"]').val(String(plane.keep));
+    });
+    this.updateEnabled();
+  }
+
+  private readForm(): XRaySettings {
+    const planes = { ...DEFAULT_XRAY_SETTINGS.planes };
+    CLIP_AXES.forEach(axis => {
+      const $plane = this.$panel.find(`fieldset[data-axis="${axis}"]`);
+      planes[axis] = {
+        enabled: $plane.find('input[name="enabled"]').prop('checked') === true,
+        position: Number($plane.find('input[name="position"]').val()) / 100,
+        keep: $plane.find('select[name="keep"]').val() === '1' ? 1 : -1
+      };
+    });
+    return { opacity: Number(this.$panel.find('input[name="opacity"]').val()) / 100, planes };
+  }
+
+  // The position and side of a cut only apply while it is on
+  private updateEnabled(): void {
+    this.$panel.find('fieldset[data-axis]').each((_, fieldset) => {
+      const enabled = $(fieldset).find('input[name="enabled"]').prop('checked') === true;
+      $(fieldset).find('input[name="position"], select[name="keep"]').prop('disabled', !enabled);
+    });
+  }
+}